@@ -12,7 +12,12 @@ import Leaderboard from "@/pages/leaderboard";
 import Chat from "@/pages/chat";
 import WalletTracker from "@/pages/wallet-tracker";
 import MyLaunches from "@/pages/my-launches";
-import { LayoutDashboard, Coins, Trophy, Bot, Search, Rocket } from "lucide-react";
+import TokenDetailPage from "@/pages/token-detail";
+import CreatorProfilePage from "@/pages/creator-profile";
+import AdminRevenuePage from "@/pages/admin-revenue";
+import AdminRateLimitsPage from "@/pages/admin-rate-limits";
+import AdminModerationPage from "@/pages/admin-moderation";
+import { LayoutDashboard, Coins, Trophy, Bot, Search, Rocket, Landmark, Gauge, ShieldAlert } from "lucide-react";
 
 const PAGES: Record<string, { title: string; icon: any }> = {
   "/":            { title: "Dashboard",      icon: LayoutDashboard },
@@ -21,8 +26,21 @@ const PAGES: Record<string, { title: string; icon: any }> = {
   "/chat":        { title: "AI Assistant",   icon: Bot },
   "/wallet":      { title: "Wallet Tracker", icon: Search },
   "/my-launches": { title: "My Launches",    icon: Rocket },
+  "/admin/revenue": { title: "Platform Revenue", icon: Landmark },
+  "/admin/rate-limits": { title: "Rate Limits", icon: Gauge },
+  "/admin/moderation": { title: "Moderation", icon: ShieldAlert },
 };
 
+// Pages with a path parameter, matched by prefix
+const DETAIL_PAGES: [string, { title: string; icon: any }][] = [
+  ["/token/", { title: "Token", icon: Coins }],
+  ["/creator/", { title: "Creator", icon: Trophy }],
+];
+
+function pageFor(location: string) {
+  return PAGES[location] ?? DETAIL_PAGES.find(([prefix]) => location.startsWith(prefix))?.[1];
+}
+
 function AnimatedRouter() {
   const [location] = useLocation();
 
@@ -31,10 +49,15 @@ function AnimatedRouter() {
       <Switch>
         <Route path="/" component={Dashboard} />
         <Route path="/tokens" component={TokenExplorer} />
+        <Route path="/token/:address" component={TokenDetailPage} />
+        <Route path="/creator/:wallet" component={CreatorProfilePage} />
         <Route path="/leaderboard" component={Leaderboard} />
         <Route path="/chat" component={Chat} />
         <Route path="/wallet" component={WalletTracker} />
         <Route path="/my-launches" component={MyLaunches} />
+        <Route path="/admin/revenue" component={AdminRevenuePage} />
+        <Route path="/admin/rate-limits" component={AdminRateLimitsPage} />
+        <Route path="/admin/moderation" component={AdminModerationPage} />
         <Route component={NotFound} />
       </Switch>
     </div>
@@ -43,7 +66,7 @@ function AnimatedRouter() {
 
 function AppHeader() {
   const [location] = useLocation();
-  const page = PAGES[location] ?? { title: "ConwayPad", icon: LayoutDashboard };
+  const page = pageFor(location) ?? { title: "ConwayPad", icon: LayoutDashboard };
   const Icon = page.icon;
 
   return (
@@ -0,0 +1,208 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDeployLimits } from "@/hooks/use-deploy-limits";
+import {
+  deployAdvancedSchema, POOL_PRESETS, DYNAMIC_FEE_PRESETS,
+  type DeployAdvancedOptions, type PoolPreset,
+} from "@shared/schema";
+
+// Advanced v4 options as typed into a form; numbers stay strings until parsed
+export interface AdvancedOptionsForm {
+  vaultEnabled: boolean;
+  vaultPercent: string;
+  vaultLockupDays: string;
+  vaultVestingDays: string;
+  devBuyEth: string;
+  poolPreset: PoolPreset;
+  startingMarketCapEth: string;
+  feeType: "default" | "static" | "dynamic";
+  staticFeePercent: string;
+  dynamicPreset: typeof DYNAMIC_FEE_PRESETS[number];
+}
+
+export const EMPTY_ADVANCED_OPTIONS: AdvancedOptionsForm = {
+  vaultEnabled: false,
+  vaultPercent: "10",
+  vaultLockupDays: "30",
+  vaultVestingDays: "0",
+  devBuyEth: "",
+  poolPreset: "Standard",
+  startingMarketCapEth: "",
+  feeType: "default",
+  staticFeePercent: "1",
+  dynamicPreset: "DynamicBasic",
+};
+
+const POOL_PRESET_LABELS: Record<PoolPreset, string> = {
+  Standard: "Standard (single full-range position)",
+  Project: "Project (liquidity spread over 5 ranges)",
+  TwentyETH: "20 ETH start (higher starting market cap)",
+};
+
+export function parseAdvancedOptions(form: AdvancedOptionsForm, maxDevBuyEth: number): { options: DeployAdvancedOptions; error: string | null } {
+  const parsed = deployAdvancedSchema.safeParse({
+    vault: form.vaultEnabled ? {
+      percentage: Number(form.vaultPercent),
+      lockupDays: Number(form.vaultLockupDays),
+      vestingDays: Number(form.vaultVestingDays || 0),
+    } : undefined,
+    devBuy: form.devBuyEth.trim() ? { ethAmount: Number(form.devBuyEth) } : undefined,
+    pool: form.poolPreset !== "Standard" || form.startingMarketCapEth.trim() ? {
+      preset: form.poolPreset,
+      startingMarketCapEth: form.startingMarketCapEth.trim() ? Number(form.startingMarketCapEth) : undefined,
+    } : undefined,
+    fees: form.feeType === "static" ? { type: "static", bps: Math.round(Number(form.staticFeePercent) * 100) }
+      : form.feeType === "dynamic" ? { type: "dynamic", preset: form.dynamicPreset }
+      : undefined,
+  });
+  if (!parsed.success) return { options: {}, error: parsed.error.issues[0]?.message ?? "invalid deploy options" };
+  if (parsed.data.devBuy && parsed.data.devBuy.ethAmount > maxDevBuyEth) {
+    return { options: {}, error: maxDevBuyEth > 0 ? `dev buy is capped at ${maxDevBuyEth} ETH` : "dev buys are disabled on this server" };
+  }
+  return { options: parsed.data, error: null };
+}
+
+export function AdvancedDeployOptions({ value, onChange }: {
+  value: AdvancedOptionsForm;
+  onChange: (value: AdvancedOptionsForm) => void;
+}) {
+  const { maxDevBuyEth } = useDeployLimits();
+  const { error } = parseAdvancedOptions(value, maxDevBuyEth);
+  const set = (patch: Partial<AdvancedOptionsForm>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="vaultEnabled" className="text-xs">Creator vault (locked supply)</Label>
+          <Switch
+            id="vaultEnabled"
+            checked={value.vaultEnabled}
+            onCheckedChange={checked => set({ vaultEnabled: checked })}
+            data-testid="switch-vault"
+          />
+        </div>
+        {value.vaultEnabled && (
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label className="text-[11px] text-muted-foreground">% of supply</Label>
+              <Input
+                inputMode="numeric"
+                value={value.vaultPercent}
+                onChange={e => set({ vaultPercent: e.target.value })}
+                className="mt-1 h-8 text-xs"
+                data-testid="input-vault-percent"
+              />
+            </div>
+            <div>
+              <Label className="text-[11px] text-muted-foreground">Lockup (days)</Label>
+              <Input
+                inputMode="numeric"
+                value={value.vaultLockupDays}
+                onChange={e => set({ vaultLockupDays: e.target.value })}
+                className="mt-1 h-8 text-xs"
+                data-testid="input-vault-lockup"
+              />
+            </div>
+            <div>
+              <Label className="text-[11px] text-muted-foreground">Vesting (days)</Label>
+              <Input
+                inputMode="numeric"
+                value={value.vaultVestingDays}
+                onChange={e => set({ vaultVestingDays: e.target.value })}
+                className="mt-1 h-8 text-xs"
+                data-testid="input-vault-vesting"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="devBuyEth" className="text-xs">Dev buy (ETH)</Label>
+        <Input
+          id="devBuyEth"
+          inputMode="decimal"
+          placeholder={maxDevBuyEth > 0 ? `up to ${maxDevBuyEth}` : "disabled on this server"}
+          value={value.devBuyEth}
+          onChange={e => set({ devBuyEth: e.target.value })}
+          disabled={maxDevBuyEth === 0}
+          className="mt-1"
+          data-testid="input-dev-buy"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Pool</Label>
+          <Select value={value.poolPreset} onValueChange={v => set({ poolPreset: v as PoolPreset })}>
+            <SelectTrigger className="mt-1" data-testid="select-pool-preset">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POOL_PRESETS.map(p => <SelectItem key={p} value={p}>{POOL_PRESET_LABELS[p]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="startingMarketCapEth" className="text-xs">Starting market cap (ETH)</Label>
+          <Input
+            id="startingMarketCapEth"
+            inputMode="decimal"
+            placeholder="preset default"
+            value={value.startingMarketCapEth}
+            onChange={e => set({ startingMarketCapEth: e.target.value })}
+            className="mt-1"
+            data-testid="input-starting-mcap"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">LP fee</Label>
+          <Select value={value.feeType} onValueChange={v => set({ feeType: v as AdvancedOptionsForm["feeType"] })}>
+            <SelectTrigger className="mt-1" data-testid="select-fee-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default (1% static)</SelectItem>
+              <SelectItem value="static">Custom static</SelectItem>
+              <SelectItem value="dynamic">Dynamic</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value.feeType === "static" && (
+          <div>
+            <Label htmlFor="staticFeePercent" className="text-xs">Fee (%)</Label>
+            <Input
+              id="staticFeePercent"
+              inputMode="decimal"
+              value={value.staticFeePercent}
+              onChange={e => set({ staticFeePercent: e.target.value })}
+              className="mt-1"
+              data-testid="input-static-fee"
+            />
+          </div>
+        )}
+        {value.feeType === "dynamic" && (
+          <div>
+            <Label className="text-xs">Preset</Label>
+            <Select value={value.dynamicPreset} onValueChange={v => set({ dynamicPreset: v as AdvancedOptionsForm["dynamicPreset"] })}>
+              <SelectTrigger className="mt-1" data-testid="select-dynamic-preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DYNAMIC_FEE_PRESETS.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-[11px] text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bot, AlertTriangle } from "lucide-react";
+import { basescanAddress, formatNumber } from "@/lib/conway";
+import type { AgentWalletHealth } from "@shared/schema";
+
+// Agent wallet runway for the sidebar footer; amber/red once the health monitor raises alerts
+export function AgentWalletStatus() {
+  const { data } = useQuery<{ configured: boolean; health: AgentWalletHealth | null }>({
+    queryKey: ["/api/agent/info"],
+    refetchInterval: 60_000,
+  });
+  const health = data?.health;
+  if (!data?.configured || !health) return null;
+
+  const lowEth = health.alerts.some(a => a.kind === "low_eth");
+  const dot = lowEth ? "bg-red-400" : health.alerts.length > 0 ? "bg-amber-400" : "bg-green-400";
+
+  return (
+    <div className="rounded-xl border border-border/40 p-3 space-y-1.5" data-testid="agent-wallet-status">
+      <div className="flex items-center gap-2">
+        <Bot className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+        <a
+          href={basescanAddress(health.address)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[9px] text-muted-foreground/60 uppercase tracking-wider hover:text-foreground"
+        >
+          Agent wallet
+        </a>
+        <span className={`ml-auto w-1.5 h-1.5 rounded-full ${dot}`} title={health.alerts.length > 0 ? "Needs attention" : "Healthy"} />
+      </div>
+      <div className="flex items-center justify-between text-[11px] font-mono text-foreground/90">
+        <span data-testid="text-agent-eth">{Number(health.ethBalance).toFixed(4)} ETH</span>
+        <span data-testid="text-agent-usdc">{Number(health.usdcBalance).toFixed(2)} USDC</span>
+      </div>
+      <p className="text-[10px] text-muted-foreground/70 leading-snug">
+        {health.estimatedDeploysLeft !== null ? `~${formatNumber(health.estimatedDeploysLeft)} deploys` : "deploy cost unknown"}
+        {health.estimatedRequestsLeft !== null && ` · ~${formatNumber(health.estimatedRequestsLeft)} AI requests`}
+        {health.pendingTxs > 0 && ` · ${health.pendingTxs} pending tx`}
+      </p>
+      {health.alerts.map(alert => (
+        <p key={alert.kind} className="flex items-start gap-1 text-[10px] text-amber-400 leading-snug">
+          <AlertTriangle className="w-3 h-3 mt-px flex-shrink-0" />
+          {alert.message}
+        </p>
+      ))}
+    </div>
+  );
+}
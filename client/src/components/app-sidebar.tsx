@@ -19,9 +19,16 @@ import {
   ArrowUpRight,
   Wallet,
   CheckCircle2,
+  LogIn,
+  LogOut,
+  Loader2,
+  Landmark,
+  Gauge,
+  ShieldAlert,
 } from "lucide-react";
-import { getUserWallet, truncateAddress } from "@/lib/conway";
-import { useState, useEffect } from "react";
+import { truncateAddress } from "@/lib/conway";
+import { useAuth } from "@/hooks/use-auth";
+import { AgentWalletStatus } from "@/components/agent-wallet-status";
 import logoSrc from "../assets/favicon.png";
 
 const navItems = [
@@ -64,6 +71,28 @@ const navItems = [
   },
 ];
 
+// Only shown to wallets in the server's ADMIN_WALLETS
+const adminNavItems: typeof navItems = [
+  {
+    title: "Platform Revenue",
+    url: "/admin/revenue",
+    icon: Landmark,
+    desc: "Fee share & claims",
+  },
+  {
+    title: "Rate Limits",
+    url: "/admin/rate-limits",
+    icon: Gauge,
+    desc: "Abuse protection policy",
+  },
+  {
+    title: "Moderation",
+    url: "/admin/moderation",
+    icon: ShieldAlert,
+    desc: "Flagged launches",
+  },
+];
+
 const quickLinks = [
   { title: "Basescan",    href: "https://basescan.org",    testId: "link-basescan" },
   { title: "DexScreener", href: "https://dexscreener.com", testId: "link-dexscreener" },
@@ -72,13 +101,7 @@ const quickLinks = [
 
 export function AppSidebar() {
   const [location] = useLocation();
-  const [wallet, setWallet] = useState(getUserWallet());
-
-  useEffect(() => {
-    const handler = () => setWallet(getUserWallet());
-    window.addEventListener("walletUpdated", handler);
-    return () => window.removeEventListener("walletUpdated", handler);
-  }, []);
+  const { wallet, isAdmin, signIn, signOut } = useAuth();
 
   return (
     <Sidebar>
@@ -117,7 +140,7 @@ export function AppSidebar() {
           </p>
           <SidebarGroupContent>
             <SidebarMenu className="gap-0.5">
-              {navItems.map((item) => {
+              {[...navItems, ...(isAdmin ? adminNavItems : [])].map((item) => {
                 const isActive = location === item.url || (item.url !== "/" && location.startsWith(item.url));
                 return (
                   <SidebarMenuItem key={item.title}>
@@ -200,6 +223,7 @@ export function AppSidebar() {
 
       {/* Footer */}
       <SidebarFooter className="p-3 border-t border-sidebar-border/50 space-y-2">
+        <AgentWalletStatus />
         <div className="rounded-xl border border-border/40 p-3 space-y-2"
              style={{ background: "linear-gradient(135deg, rgba(255,255,255,0.03) 0%, rgba(255,255,255,0.01) 100%)" }}>
           <div className="flex items-center gap-2.5">
@@ -209,15 +233,40 @@ export function AppSidebar() {
             <div className="min-w-0 flex-1">
               <p className="text-[9px] text-muted-foreground/60 uppercase tracking-wider leading-none mb-0.5">Wallet</p>
               {wallet ? (
-                <span className="text-[11px] font-mono text-foreground/90 truncate block">
+                <span className="text-[11px] font-mono text-foreground/90 truncate block" data-testid="text-signed-in-wallet">
                   {truncateAddress(wallet)}
                 </span>
               ) : (
-                <span className="text-[11px] text-muted-foreground/50">Not connected</span>
+                <span className="text-[11px] text-muted-foreground/50">Not signed in</span>
               )}
             </div>
-            {wallet && <CheckCircle2 className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />}
+            {wallet ? (
+              <>
+                <CheckCircle2 className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />
+                <button
+                  onClick={() => signOut.mutate()}
+                  title="Sign out"
+                  className="text-muted-foreground/60 hover:text-foreground transition-colors"
+                  data-testid="button-sign-out"
+                >
+                  <LogOut className="w-3.5 h-3.5" />
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => signIn.mutate()}
+                disabled={signIn.isPending}
+                className="flex items-center gap-1 text-[11px] font-semibold text-primary hover:text-primary/80 transition-colors disabled:opacity-60"
+                data-testid="button-sign-in"
+              >
+                {signIn.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <LogIn className="w-3 h-3" />}
+                Sign in
+              </button>
+            )}
           </div>
+          {signIn.error && (
+            <p className="text-[10px] text-red-400 leading-snug">{(signIn.error as Error).message}</p>
+          )}
         </div>
         <div className="flex items-center justify-center gap-2">
           <span className="flex items-center gap-1.5">
@@ -0,0 +1,49 @@
+import { CheckCircle, AlertTriangle, ShieldAlert } from "lucide-react";
+import { formatUSD, formatTokenAmount } from "@/lib/conway";
+import type { DeploySimulation } from "@shared/schema";
+
+// Outcome of a deploy dry run: would it go through, and what it costs the agent wallet
+export function DeploySimulationSummary({ simulation }: { simulation: DeploySimulation }) {
+  const devBuy = Number(simulation.devBuyEth) > 0;
+  // The first rejection is already the error line
+  const identityNotes = simulation.identity.matches.filter(m => !simulation.error?.includes(m.message));
+
+  return (
+    <div
+      className={`rounded-md border px-3 py-2 text-xs space-y-1 ${simulation.ok ? "border-green-500/30 bg-green-500/5" : "border-red-500/30 bg-red-500/5"}`}
+      data-testid="deploy-simulation"
+    >
+      <p className={`flex items-center gap-1.5 font-medium ${simulation.ok ? "text-green-400" : "text-red-400"}`}>
+        {simulation.ok ? <CheckCircle className="w-3.5 h-3.5" /> : <AlertTriangle className="w-3.5 h-3.5" />}
+        {simulation.ok ? "Simulation passed" : "Deploy would fail"}
+      </p>
+      {simulation.error && <p className="text-red-400 break-words">{simulation.error}</p>}
+      {identityNotes.map((m, i) => (
+        <p
+          key={i}
+          className={`flex items-start gap-1.5 break-words ${m.severity === "reject" ? "text-red-400" : "text-amber-400"}`}
+          data-testid={`identity-${m.severity}`}
+        >
+          <ShieldAlert className="w-3.5 h-3.5 shrink-0 mt-px" />
+          <span>{m.message}</span>
+        </p>
+      ))}
+      {simulation.gasCostEth !== null && (
+        <p className="text-muted-foreground">
+          Gas: ~{formatTokenAmount(simulation.gasCostEth)} ETH
+          {simulation.gas && ` (${Number(simulation.gas).toLocaleString("en-US")} gas at ${Number(simulation.maxFeePerGasGwei).toFixed(3)} gwei)`}
+        </p>
+      )}
+      {devBuy && <p className="text-muted-foreground">Dev buy: {formatTokenAmount(simulation.devBuyEth)} ETH</p>}
+      {simulation.totalCostEth !== null && (
+        <p className="text-muted-foreground">
+          Total: <span className="text-foreground font-medium">{formatTokenAmount(simulation.totalCostEth)} ETH</span>
+          {simulation.totalCostUsd !== null && ` ≈ ${formatUSD(simulation.totalCostUsd)}`}
+        </p>
+      )}
+      <p className="text-muted-foreground">
+        Agent wallet balance: {formatTokenAmount(simulation.agentWallet.balanceEth)} ETH · block {simulation.blockNumber.toLocaleString("en-US")}
+      </p>
+    </div>
+  );
+}
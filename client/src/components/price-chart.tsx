@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatUSD } from "@/lib/conway";
+import { MARKET_INTERVALS, type MarketCandle, type MarketInterval } from "@shared/schema";
+
+type Metric = "price" | "marketCap";
+
+const chartConfig = {
+  close: { label: "Price", color: "hsl(var(--chart-1))" },
+  marketCap: { label: "Market cap", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+function formatPrice(n: number): string {
+  if (!n) return "$0";
+  if (n >= 1) return `$${n.toFixed(4)}`;
+  return `$${n.toPrecision(4)}`;
+}
+
+function formatTick(time: string, interval: MarketInterval): string {
+  const d = new Date(time);
+  return interval === "1d" || interval === "4h"
+    ? d.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+function CandleTooltip({ active, payload }: { active?: boolean; payload?: any[] }) {
+  const c: MarketCandle | undefined = payload?.[0]?.payload;
+  if (!active || !c) return null;
+  return (
+    <div className="rounded-md border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl space-y-0.5">
+      <p className="text-muted-foreground">{new Date(c.time).toLocaleString()}</p>
+      <p className="font-mono">O {formatPrice(c.open)} · H {formatPrice(c.high)}</p>
+      <p className="font-mono">L {formatPrice(c.low)} · C {formatPrice(c.close)}</p>
+      <p className="text-muted-foreground">MCap {formatUSD(c.marketCap)} · 24h Vol {formatUSD(c.volume24h)}</p>
+    </div>
+  );
+}
+
+// Price / market cap history built from the server's market snapshots
+export function PriceChart({ address }: { address: string }) {
+  const [interval, setCandleInterval] = useState<MarketInterval>("1h");
+  const [metric, setMetric] = useState<Metric>("price");
+
+  const { data, isLoading } = useQuery<{ candles: MarketCandle[] }>({
+    queryKey: [`/api/tokens/${address}/market?interval=${interval}`],
+    staleTime: 60000,
+  });
+  const candles = data?.candles ?? [];
+  const dataKey = metric === "price" ? "close" : "marketCap";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {(["price", "marketCap"] as Metric[]).map(m => (
+            <Button
+              key={m}
+              size="sm"
+              variant={metric === m ? "secondary" : "ghost"}
+              className="h-7 px-2 text-xs"
+              onClick={() => setMetric(m)}
+              data-testid={`button-chart-metric-${m}`}
+            >
+              {m === "price" ? "Price" : "MCap"}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(MARKET_INTERVALS) as MarketInterval[]).map(i => (
+            <Button
+              key={i}
+              size="sm"
+              variant={interval === i ? "secondary" : "ghost"}
+              className="h-7 px-2 text-xs"
+              onClick={() => setCandleInterval(i)}
+              data-testid={`button-chart-interval-${i}`}
+            >
+              {i}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="w-full aspect-video" />
+      ) : candles.length < 2 ? (
+        <div className="flex items-center justify-center aspect-video rounded-md bg-muted/30">
+          <p className="text-xs text-muted-foreground">Not enough history yet — snapshots are taken every 5 minutes</p>
+        </div>
+      ) : (
+        <ChartContainer config={chartConfig} className="w-full">
+          <AreaChart data={candles} margin={{ left: 4, right: 4, top: 8 }}>
+            <defs>
+              <linearGradient id="fill-price-chart" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor={`var(--color-${dataKey})`} stopOpacity={0.4} />
+                <stop offset="95%" stopColor={`var(--color-${dataKey})`} stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={32}
+              tickFormatter={(t) => formatTick(t, interval)}
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={64}
+              domain={["auto", "auto"]}
+              tickFormatter={(v) => metric === "price" ? formatPrice(v) : formatUSD(v)}
+            />
+            <ChartTooltip content={<CandleTooltip />} />
+            <Area
+              dataKey={dataKey}
+              type="monotone"
+              stroke={`var(--color-${dataKey})`}
+              fill="url(#fill-price-chart)"
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
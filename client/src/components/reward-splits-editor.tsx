@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import { useRewardPolicy } from "@/hooks/use-reward-policy";
+import { checkRewardSplits, rewardSplitsSchema, type RewardSplit } from "@shared/schema";
+
+// One extra fee recipient as typed into a form; `percent` is of all LP fees
+export interface SplitRow {
+  recipient: string;
+  percent: string;
+  label: string;
+}
+
+export function parseSplitRows(rows: SplitRow[], tokenAdmin: string, creatorBps: number): { splits: RewardSplit[]; error: string | null } {
+  const filled = rows.filter(r => r.recipient.trim() || r.percent.trim());
+  const parsed = rewardSplitsSchema.safeParse(filled.map(r => ({
+    recipient: r.recipient,
+    bps: Math.round(Number(r.percent) * 100),
+    label: r.label,
+  })));
+  if (!parsed.success) return { splits: [], error: parsed.error.issues[0]?.message ?? "invalid fee split" };
+  return { splits: parsed.data, error: tokenAdmin ? checkRewardSplits(parsed.data, tokenAdmin, creatorBps) : null };
+}
+
+export function RewardSplitsEditor({ rows, onChange, tokenAdmin, compact = false }: {
+  rows: SplitRow[];
+  onChange: (rows: SplitRow[]) => void;
+  tokenAdmin: string;
+  compact?: boolean;
+}) {
+  const policy = useRewardPolicy();
+  const { splits, error } = parseSplitRows(rows, tokenAdmin, policy.creatorBps);
+  const splitBps = splits.reduce((sum, s) => sum + s.bps, 0);
+  const inputClass = compact ? "h-8 text-xs" : "";
+
+  const update = (i: number, patch: Partial<SplitRow>) =>
+    onChange(rows.map((row, j) => j === i ? { ...row, ...patch } : row));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">Extra fee recipients</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs gap-1"
+          disabled={rows.length >= policy.maxSplits}
+          onClick={() => onChange([...rows, { recipient: "", percent: "", label: "" }])}
+          data-testid="button-add-split"
+        >
+          <Plus className="w-3 h-3" /> Add
+        </Button>
+      </div>
+
+      {rows.map((row, i) => (
+        <div key={i} className="flex items-center gap-1.5" data-testid={`split-row-${i}`}>
+          <Input
+            placeholder="0x..."
+            value={row.recipient}
+            onChange={e => update(i, { recipient: e.target.value })}
+            className={`flex-1 font-mono ${inputClass}`}
+            data-testid={`input-split-recipient-${i}`}
+          />
+          <Input
+            placeholder="Label"
+            value={row.label}
+            onChange={e => update(i, { label: e.target.value })}
+            className={`w-24 ${inputClass}`}
+            maxLength={32}
+            data-testid={`input-split-label-${i}`}
+          />
+          <div className="relative w-20">
+            <Input
+              placeholder="10"
+              inputMode="decimal"
+              value={row.percent}
+              onChange={e => update(i, { percent: e.target.value })}
+              className={`pr-6 ${inputClass}`}
+              data-testid={`input-split-percent-${i}`}
+            />
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 flex-shrink-0"
+            onClick={() => onChange(rows.filter((_, j) => j !== i))}
+            data-testid={`button-remove-split-${i}`}
+          >
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      {error ? (
+        <p className="text-[11px] text-red-400">{error}</p>
+      ) : (
+        <p className="text-[11px] text-muted-foreground">
+          Fee split: <span className="text-primary font-medium">{(policy.creatorBps - splitBps) / 100}%</span> you
+          {splitBps > 0 && ` · ${splitBps / 100}% to ${splits.length} recipient${splits.length !== 1 ? "s" : ""}`}
+          {policy.platformBps > 0 && ` · ${policy.platformBps / 100}% ConwayPad`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { deployMetadataSchema } from "@shared/schema";
+import { SOCIAL_LINK_FIELDS, SOCIAL_PLATFORM_LABELS, type SocialLinkField } from "@shared/social-links";
+
+// Social links as typed into a form, one string per DeployParams field
+export type SocialLinksForm = Record<SocialLinkField, string>;
+
+export const EMPTY_SOCIAL_LINKS: SocialLinksForm = {
+  websiteUrl: "", twitterUrl: "", telegramUrl: "", farcasterUrl: "", discordUrl: "", githubUrl: "",
+};
+
+const PLACEHOLDERS: Record<SocialLinkField, string> = {
+  websiteUrl: "example.com",
+  twitterUrl: "@handle or x.com/...",
+  telegramUrl: "@group or t.me/...",
+  farcasterUrl: "@name or farcaster.xyz/...",
+  discordUrl: "discord.gg/...",
+  githubUrl: "org/repo or github.com/...",
+};
+
+// Canonical links plus a message per field that doesn't validate — the same schema the server applies
+export function parseSocialLinks(form: SocialLinksForm): {
+  links: Partial<SocialLinksForm>;
+  errors: Partial<Record<SocialLinkField, string>>;
+} {
+  const links: Partial<SocialLinksForm> = {};
+  const errors: Partial<Record<SocialLinkField, string>> = {};
+  for (const field of Object.keys(SOCIAL_LINK_FIELDS) as SocialLinkField[]) {
+    const parsed = deployMetadataSchema.shape[field].safeParse(form[field]);
+    if (!parsed.success) errors[field] = parsed.error.issues[0]?.message;
+    else if (parsed.data) links[field] = parsed.data;
+  }
+  return { links, errors };
+}
+
+export function SocialLinkFields({ value, onChange, compact }: {
+  value: SocialLinksForm;
+  onChange: (value: SocialLinksForm) => void;
+  compact?: boolean;
+}) {
+  const { links, errors } = parseSocialLinks(value);
+
+  return (
+    <div className={`grid grid-cols-2 ${compact ? "gap-2" : "gap-3"}`}>
+      {(Object.entries(SOCIAL_LINK_FIELDS) as [SocialLinkField, keyof typeof SOCIAL_PLATFORM_LABELS][]).map(([field, platform]) => {
+        const canonical = links[field];
+        return (
+          <div key={field}>
+            <Label htmlFor={field} className={`text-xs ${compact ? "text-muted-foreground" : ""}`}>{SOCIAL_PLATFORM_LABELS[platform]}</Label>
+            <Input
+              id={field}
+              placeholder={PLACEHOLDERS[field]}
+              value={value[field]}
+              onChange={e => onChange({ ...value, [field]: e.target.value })}
+              className={compact ? "mt-0.5 h-8 text-sm" : "mt-1"}
+              aria-invalid={!!errors[field]}
+              data-testid={`input-${field}`}
+            />
+            {errors[field] ? (
+              <p className="text-[11px] text-red-400 mt-0.5">{errors[field]}</p>
+            ) : canonical && canonical !== value[field].trim() ? (
+              <p className="text-[11px] text-muted-foreground mt-0.5 truncate">→ {canonical}</p>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
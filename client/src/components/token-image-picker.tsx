@@ -0,0 +1,110 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ImagePlus, Loader2, X } from "lucide-react";
+import { apiUpload } from "@/lib/queryClient";
+import type { TokenImageUpload } from "@shared/schema";
+
+const ACCEPTED_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const MAX_UPLOAD_MB = 5;
+
+// What an <img> can load for an imageUrl; ipfs:// URIs go through a public gateway
+export function imagePreviewUrl(imageUrl: string): string | null {
+  if (imageUrl.startsWith("ipfs://")) return `https://ipfs.io/ipfs/${imageUrl.slice("ipfs://".length)}`;
+  if (/^https:\/\//.test(imageUrl)) return imageUrl;
+  return null;
+}
+
+// Fresh uploads preview from their own gateway URL (the local adapter's isn't public)
+function previewSrc(imageUrl: string, upload: TokenImageUpload | null): string | null {
+  if (upload && imageUrl === upload.uri) return upload.gatewayUrl;
+  return imagePreviewUrl(imageUrl);
+}
+
+// Token logo: upload a file (pinned to IPFS, fills in the ipfs:// URI) or paste a URL
+export function TokenImagePicker({ value, onChange, canUpload = true, compact = false }: {
+  value: string;
+  onChange: (imageUrl: string) => void;
+  canUpload?: boolean;
+  compact?: boolean;
+}) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [upload, setUpload] = useState<TokenImageUpload | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [previewBroken, setPreviewBroken] = useState(false);
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File): Promise<TokenImageUpload> => apiUpload("/api/uploads/image", file).then(r => r.json()),
+    onSuccess: (result) => {
+      setUpload(result);
+      setPreviewBroken(false);
+      onChange(result.uri);
+    },
+  });
+
+  function handleFile(file: File | undefined) {
+    setFileError(null);
+    if (!file) return;
+    if (!ACCEPTED_TYPES.includes(file.type)) return setFileError("Use a PNG, JPEG, GIF or WebP image.");
+    if (file.size > MAX_UPLOAD_MB * 1024 * 1024) return setFileError(`Images are limited to ${MAX_UPLOAD_MB} MB.`);
+    uploadMutation.mutate(file);
+  }
+
+  const src = value ? previewSrc(value, upload) : null;
+  const size = compact ? "w-10 h-10" : "w-14 h-14";
+  const error = fileError ?? (uploadMutation.error as Error | null)?.message;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <div className={`${size} rounded-lg border border-border/60 bg-muted/30 flex items-center justify-center overflow-hidden flex-shrink-0`}>
+          {uploadMutation.isPending ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : src && !previewBroken ? (
+            <img src={src} alt="Token logo preview" className="w-full h-full object-cover" onError={() => setPreviewBroken(true)} data-testid="img-token-preview" />
+          ) : (
+            <ImagePlus className="w-4 h-4 text-muted-foreground/60" />
+          )}
+        </div>
+        <Input
+          placeholder="ipfs://... or https://..."
+          value={value}
+          onChange={e => { setPreviewBroken(false); onChange(e.target.value); }}
+          className={`flex-1 ${compact ? "h-8 text-xs" : ""}`}
+          data-testid="input-image-url"
+        />
+        {value && (
+          <Button type="button" size="icon" variant="ghost" className="h-7 w-7 flex-shrink-0" onClick={() => onChange("")} data-testid="button-clear-image">
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        {canUpload && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className={`gap-1 flex-shrink-0 ${compact ? "h-8 px-2 text-xs" : ""}`}
+            disabled={uploadMutation.isPending}
+            onClick={() => fileInput.current?.click()}
+            data-testid="button-upload-image"
+          >
+            <ImagePlus className="w-3.5 h-3.5" /> Upload
+          </Button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ACCEPTED_TYPES.join(",")}
+          className="hidden"
+          onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ""; }}
+        />
+      </div>
+      {error ? (
+        <p className="text-[11px] text-red-400">{error}</p>
+      ) : canUpload && (
+        <p className="text-[11px] text-muted-foreground">PNG, JPEG, GIF or WebP up to {MAX_UPLOAD_MB} MB, at least 64px; cropped to a 512px square and pinned to IPFS.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { createSiweMessage } from "viem/siwe";
+import { getAddress } from "viem";
+import { base } from "viem/chains";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { setUserWallet } from "@/lib/conway";
+
+export interface AuthUser {
+  userId: string;
+  wallet: string;
+  isAdmin: boolean;
+}
+
+const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+// Nonce → EIP-4361 message → personal_sign in the browser wallet → server verifies
+async function signInWithEthereum(): Promise<AuthUser> {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) throw new Error("No browser wallet found. Install MetaMask, Coinbase Wallet or Rabby.");
+
+  const [account] = await ethereum.request({ method: "eth_requestAccounts" });
+  if (!account) throw new Error("No account selected");
+  const address = getAddress(account);
+
+  const { nonce } = await apiRequest("GET", "/api/auth/nonce").then(r => r.json());
+  const message = createSiweMessage({
+    address,
+    chainId: base.id,
+    domain: window.location.host,
+    uri: window.location.origin,
+    version: "1",
+    nonce,
+    statement: "Sign in to ConwayPad",
+    issuedAt: new Date(),
+    expirationTime: new Date(Date.now() + 10 * 60_000),
+  });
+  const signature = await ethereum.request({ method: "personal_sign", params: [message, address] });
+
+  return apiRequest("POST", "/api/auth/verify", { message, signature }).then(r => r.json());
+}
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const signIn = useMutation({
+    mutationFn: signInWithEthereum,
+    onSuccess: (signedIn) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, signedIn);
+      // Keep the remembered wallet (chat, sidebar) in line with the proven one
+      setUserWallet(signedIn.wallet);
+      window.dispatchEvent(new Event("walletUpdated"));
+      queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
+    },
+  });
+
+  const signOut = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/logout"),
+    onSuccess: () => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+      queryClient.removeQueries({ queryKey: ["/api/deployments"] });
+      queryClient.removeQueries({ queryKey: ["/api/rewards"] });
+      queryClient.removeQueries({ predicate: q => String(q.queryKey[0]).startsWith("/api/admin/") });
+    },
+  });
+
+  return { user: user ?? null, wallet: user?.wallet ?? null, isAdmin: user?.isAdmin ?? false, isLoading, signIn, signOut };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface DeployLimits {
+  maxDevBuyEth: number;      // 0 = dev buys are disabled on this server
+}
+
+// Server-side caps on the advanced deploy options; dev buys stay off until /api/agent/info answers
+export function useDeployLimits(): DeployLimits {
+  const { data } = useQuery<{ deployLimits?: DeployLimits }>({
+    queryKey: ["/api/agent/info"],
+    staleTime: 5 * 60_000,
+  });
+  return data?.deployLimits ?? { maxDevBuyEth: 0 };
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_PLATFORM_FEE_BPS, MAX_REWARD_SPLITS, type RewardPolicy } from "@shared/schema";
+
+const FALLBACK_POLICY: RewardPolicy = {
+  platformBps: DEFAULT_PLATFORM_FEE_BPS,
+  creatorBps: 10_000 - DEFAULT_PLATFORM_FEE_BPS,
+  maxSplits: MAX_REWARD_SPLITS,
+};
+
+// LP fee split the server deploys with; the default policy until /api/agent/info answers
+export function useRewardPolicy(): RewardPolicy {
+  const { data } = useQuery<{ rewards?: RewardPolicy }>({
+    queryKey: ["/api/agent/info"],
+    staleTime: 5 * 60_000,
+  });
+  return data?.rewards ?? FALLBACK_POLICY;
+}
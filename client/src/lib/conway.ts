@@ -25,6 +25,14 @@ export function formatETH(val: number | string | undefined): string {
   return `${n.toFixed(6)} WETH`;
 }
 
+// Human-readable token balance from a decimal string (e.g. viem formatUnits output)
+export function formatTokenAmount(val: number | string): string {
+  const n = Number(val);
+  if (n === 0) return "0";
+  if (n < 0.0001) return "<0.0001";
+  return n.toLocaleString("en-US", { maximumFractionDigits: n < 1 ? 6 : 2 });
+}
+
 export function timeAgo(date: string | Date | undefined): string {
   if (!date) return "unknown";
   const d = new Date(date);
@@ -43,6 +51,10 @@ export function basescanToken(addr: string) {
   return `https://basescan.org/token/${addr}`;
 }
 
+export function basescanAddress(addr: string) {
+  return `https://basescan.org/address/${addr}`;
+}
+
 export function basescanTx(hash: string) {
   return `https://basescan.org/tx/${hash}`;
 }
@@ -59,6 +71,14 @@ export function clankerLink(addr: string) {
   return `https://clanker.world/clanker/${addr}`;
 }
 
+export function tokenPath(addr: string) {
+  return `/token/${addr.toLowerCase()}`;
+}
+
+export function creatorPath(wallet: string) {
+  return `/creator/${wallet.toLowerCase()}`;
+}
+
 // Normalize token from Clanker API to a consistent shape
 export function normalizeToken(t: any): any {
   const market = t.related?.market || {};
@@ -81,9 +101,16 @@ export function normalizeToken(t: any): any {
 
 export function getStatusBg(status: string): string {
   switch (status?.toLowerCase()) {
-    case "active": return "bg-green-500/15 text-green-400 border-green-500/20";
-    case "inactive": return "bg-red-500/15 text-red-400 border-red-500/20";
-    case "pending": return "bg-yellow-500/15 text-yellow-400 border-yellow-500/20";
+    case "active":
+    case "confirmed": return "bg-green-500/15 text-green-400 border-green-500/20";
+    case "inactive":
+    case "failed":
+    case "reverted":
+    case "rejected": return "bg-red-500/15 text-red-400 border-red-500/20";
+    case "pending":
+    case "queued":
+    case "submitted": return "bg-yellow-500/15 text-yellow-400 border-yellow-500/20";
+    case "flagged": return "bg-orange-500/15 text-orange-400 border-orange-500/20";
     default: return "bg-muted text-muted-foreground";
   }
 }
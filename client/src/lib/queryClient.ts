@@ -23,6 +23,19 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as the raw request body, typed by its own MIME type
+export async function apiUpload(url: string, file: Blob): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
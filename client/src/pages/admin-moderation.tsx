@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, History, Lock, ShieldAlert, X } from "lucide-react";
+import { truncateAddress, timeAgo, getStatusBg, creatorPath } from "@/lib/conway";
+import { imagePreviewUrl } from "@/components/token-image-picker";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Link } from "wouter";
+import type { Deployment, ModerationFlag, ModerationReview } from "@shared/schema";
+
+interface ModerationQueue {
+  flagged: Deployment[];
+  reviewed: Deployment[];
+  policy: { blockedWords: string[]; deniedDomains: string[]; allowedDomains: string[] };
+}
+
+const QUEUE_KEY = ["/api/admin/moderation"];
+
+const FIELD_LABELS: Record<ModerationFlag["field"], string> = {
+  name: "Name", symbol: "Symbol", description: "Description",
+  websiteUrl: "Website", twitterUrl: "X", telegramUrl: "Telegram", farcasterUrl: "Farcaster",
+  discordUrl: "Discord", githubUrl: "GitHub", imageUrl: "Image",
+};
+
+function FlaggedLaunch({ job }: { job: Deployment }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const { params } = job;
+  const flagged = new Set((job.moderation ?? []).map(f => f.field));
+  const image = params.imageUrl ? imagePreviewUrl(params.imageUrl) : null;
+
+  const review = useMutation({
+    mutationFn: (decision: ModerationReview["decision"]) =>
+      apiRequest("POST", `/api/admin/moderation/${job.id}`, { decision, reason: reason.trim() || undefined })
+        .then(r => r.json() as Promise<Deployment>),
+    onSuccess: (result) => {
+      toast({
+        title: result.status === "rejected" ? "Launch rejected" : "Launch approved",
+        description: `${params.name} (${params.symbol}) is now ${result.status}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+    },
+    onError: (err: any) => toast({ title: "Review failed", description: err?.message, variant: "destructive" }),
+  });
+
+  const field = (key: ModerationFlag["field"], value: string | undefined) => value ? (
+    <p className={`break-words ${flagged.has(key) ? "text-orange-400" : "text-muted-foreground"}`}>
+      <span className="font-medium">{FIELD_LABELS[key]}:</span> {value}
+    </p>
+  ) : null;
+
+  return (
+    <div className="px-4 py-3 space-y-2" data-testid={`moderation-${job.id}`}>
+      <div className="flex items-start gap-3">
+        {image ? (
+          <img src={image} alt="" className="w-12 h-12 rounded-md object-cover border border-border/60 shrink-0" />
+        ) : (
+          <div className="w-12 h-12 rounded-md bg-muted shrink-0" />
+        )}
+        <div className="flex-1 min-w-0 text-xs space-y-0.5">
+          <p className="text-sm">
+            <span className="font-medium text-foreground">{params.name}</span>
+            <span className="font-mono text-muted-foreground"> ${params.symbol}</span>
+            <span className="text-muted-foreground"> · #{job.id} · {timeAgo(job.createdAt ?? undefined)} by </span>
+            <Link href={creatorPath(job.tokenAdmin)} className="font-mono text-primary hover:underline">{truncateAddress(job.tokenAdmin)}</Link>
+          </p>
+          {field("description", params.description)}
+          {field("websiteUrl", params.websiteUrl)}
+          {field("twitterUrl", params.twitterUrl)}
+          {field("telegramUrl", params.telegramUrl)}
+          {field("farcasterUrl", params.farcasterUrl)}
+          {field("discordUrl", params.discordUrl)}
+          {field("githubUrl", params.githubUrl)}
+          {field("imageUrl", params.imageUrl)}
+        </div>
+      </div>
+      <ul className="text-xs text-orange-400 space-y-0.5">
+        {(job.moderation ?? []).map((f, i) => (
+          <li key={i} className="flex items-start gap-1.5">
+            <ShieldAlert className="w-3.5 h-3.5 shrink-0 mt-px" />
+            <span><span className="font-medium">{FIELD_LABELS[f.field]}</span> {f.reason}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-2">
+        <Input
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+          placeholder="Reason (optional, shown to the creator on reject)"
+          maxLength={500}
+          className="h-8 text-xs"
+          data-testid={`input-reason-${job.id}`}
+        />
+        <Button size="sm" variant="outline" className="h-8 gap-1.5 text-xs" disabled={review.isPending} onClick={() => review.mutate("reject")} data-testid={`button-reject-${job.id}`}>
+          <X className="w-3.5 h-3.5" /> Reject
+        </Button>
+        <Button size="sm" className="h-8 gap-1.5 text-xs" disabled={review.isPending} onClick={() => review.mutate("approve")} data-testid={`button-approve-${job.id}`}>
+          <Check className="w-3.5 h-3.5" /> Approve &amp; Launch
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminModerationPage() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { data, error } = useQuery<ModerationQueue>({
+    queryKey: QUEUE_KEY,
+    enabled: isAdmin,
+    refetchInterval: 30000,
+  });
+
+  if (authLoading) {
+    return <div className="p-6 max-w-4xl mx-auto"><Skeleton className="h-40 w-full" /></div>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 text-center p-6">
+        <Lock className="w-10 h-10 text-muted-foreground/50" />
+        <p className="text-sm font-medium text-muted-foreground">Sign in with an admin wallet to review flagged launches</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-6 max-w-4xl mx-auto space-y-5">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Moderation</h2>
+          <p className="text-xs text-muted-foreground">
+            Launches whose metadata tripped the word list, link rules or image checks wait here instead of deploying.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-muted-foreground">{(error as Error).message}</p>}
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4 text-primary" /> Flagged Launches
+              {data && <Badge variant="outline" className="text-[10px]">{data.flagged.length}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {!data ? (
+              <div className="px-4 pb-4 space-y-2">
+                {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-16 w-full" />)}
+              </div>
+            ) : data.flagged.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-4 pb-4">Nothing waiting for review.</p>
+            ) : (
+              <div className="divide-y divide-border/50">
+                {data.flagged.map(job => <FlaggedLaunch key={job.id} job={job} />)}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {data && data.reviewed.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2"><History className="w-4 h-4 text-primary" /> Recently Reviewed</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="divide-y divide-border/50">
+                {data.reviewed.map(job => (
+                  <div key={job.id} className="grid grid-cols-[1fr_auto_auto] gap-x-3 items-center px-4 py-2.5 text-sm" data-testid={`reviewed-${job.id}`}>
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        <span className="text-foreground">{job.params.name}</span>
+                        <span className="font-mono text-xs text-muted-foreground"> ${job.params.symbol} · #{job.id}</span>
+                      </p>
+                      {job.status === "rejected" && job.error && <p className="text-[11px] text-muted-foreground truncate">{job.error}</p>}
+                    </div>
+                    <span className="text-[11px] text-muted-foreground">
+                      {timeAgo(job.reviewedAt ?? undefined)}{job.reviewedBy && ` by ${truncateAddress(job.reviewedBy)}`}
+                    </span>
+                    <Badge variant="outline" className={`text-[10px] capitalize ${getStatusBg(job.status)}`}>{job.status}</Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {data && (
+          <p className="text-[11px] text-muted-foreground">
+            {data.policy.blockedWords.length} blocked terms · denied domains: {data.policy.deniedDomains.join(", ") || "none"} ·
+            website domains: {data.policy.allowedDomains.length > 0 ? data.policy.allowedDomains.join(", ") : "any"}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Gauge, Lock, RotateCcw, Save } from "lucide-react";
+import { truncateAddress, timeAgo } from "@/lib/conway";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { RateLimitRule } from "@shared/schema";
+
+interface PolicyRule extends RateLimitRule {
+  defaults: RateLimitRule;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+interface RateLimitPolicy {
+  rules: PolicyRule[];
+  store: "postgres" | "memory";
+  fallbackSince: string | null;
+}
+
+const POLICY_KEY = ["/api/admin/rate-limits"];
+
+const SCOPE_LABELS: Record<RateLimitRule["scope"], string> = {
+  ip: "per IP",
+  session: "per session",
+  tokenAdmin: "per token admin",
+};
+
+function formatWindow(seconds: number): string {
+  if (seconds % 86_400 === 0) return `${seconds / 86_400}d`;
+  if (seconds % 3_600 === 0) return `${seconds / 3_600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+function RuleRow({ rule }: { rule: PolicyRule }) {
+  const { toast } = useToast();
+  const [limit, setLimit] = useState(String(rule.limit));
+  const [windowMinutes, setWindowMinutes] = useState(String(rule.windowSeconds / 60));
+  const [enabled, setEnabled] = useState(rule.enabled);
+  const dirty = limit !== String(rule.limit) || windowMinutes !== String(rule.windowSeconds / 60) || enabled !== rule.enabled;
+  const overridden = rule.updatedAt !== null;
+
+  const onSettled = {
+    onSuccess: (policy: RateLimitPolicy) => queryClient.setQueryData(POLICY_KEY, policy),
+    onError: (err: any) => toast({ title: "Couldn't update the rule", description: err?.message, variant: "destructive" }),
+  };
+  const save = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/admin/rate-limits/${rule.id}`, {
+      limit: Number(limit),
+      windowSeconds: Math.round(Number(windowMinutes) * 60),
+      enabled,
+    }).then(r => r.json() as Promise<RateLimitPolicy>),
+    ...onSettled,
+  });
+  const reset = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/admin/rate-limits/${rule.id}`).then(r => r.json() as Promise<RateLimitPolicy>),
+    onSuccess: (policy: RateLimitPolicy) => {
+      setLimit(String(rule.defaults.limit));
+      setWindowMinutes(String(rule.defaults.windowSeconds / 60));
+      setEnabled(rule.defaults.enabled);
+      onSettled.onSuccess(policy);
+    },
+    onError: onSettled.onError,
+  });
+
+  return (
+    <div className="grid grid-cols-[1fr_5rem_6rem_auto_auto] gap-x-3 items-center px-4 py-2.5 text-sm" data-testid={`rate-limit-${rule.id}`}>
+      <div className="min-w-0">
+        <p className="text-foreground">
+          <span className="font-mono capitalize">{rule.action}</span>
+          <span className="text-muted-foreground"> {SCOPE_LABELS[rule.scope]}</span>
+          {overridden && <Badge variant="outline" className="ml-2 text-[10px]">custom</Badge>}
+        </p>
+        <p className="text-[11px] text-muted-foreground truncate">
+          default {rule.defaults.limit} / {formatWindow(rule.defaults.windowSeconds)}
+          {overridden && rule.updatedBy && ` · changed ${timeAgo(rule.updatedAt!)} by ${truncateAddress(rule.updatedBy)}`}
+        </p>
+      </div>
+      <Input value={limit} inputMode="numeric" onChange={e => setLimit(e.target.value)} className="h-8 text-xs" data-testid={`input-limit-${rule.id}`} />
+      <div className="relative">
+        <Input value={windowMinutes} inputMode="decimal" onChange={e => setWindowMinutes(e.target.value)} className="h-8 text-xs pr-9" data-testid={`input-window-${rule.id}`} />
+        <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[11px] text-muted-foreground">min</span>
+      </div>
+      <Switch checked={enabled} onCheckedChange={setEnabled} data-testid={`switch-enabled-${rule.id}`} />
+      <div className="flex gap-1">
+        <Button size="icon" variant="ghost" className="h-7 w-7" disabled={!dirty || save.isPending} onClick={() => save.mutate()} title="Save" data-testid={`button-save-${rule.id}`}>
+          <Save className="w-3.5 h-3.5" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-7 w-7" disabled={!overridden || reset.isPending} onClick={() => reset.mutate()} title="Reset to default" data-testid={`button-reset-${rule.id}`}>
+          <RotateCcw className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminRateLimitsPage() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { data, error } = useQuery<RateLimitPolicy>({
+    queryKey: POLICY_KEY,
+    enabled: isAdmin,
+  });
+
+  if (authLoading) {
+    return <div className="p-6 max-w-4xl mx-auto"><Skeleton className="h-40 w-full" /></div>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 text-center p-6">
+        <Lock className="w-10 h-10 text-muted-foreground/50" />
+        <p className="text-sm font-medium text-muted-foreground">Sign in with an admin wallet to manage rate limits</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-6 max-w-4xl mx-auto space-y-5">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Rate Limits</h2>
+          <p className="text-xs text-muted-foreground">
+            Fixed-window quotas on deploys, chat, simulations and uploads. Over-limit calls get a 429 with Retry-After; admin wallets are exempt.
+          </p>
+        </div>
+
+        {data?.store === "memory" && (
+          <p className="text-xs text-amber-400">
+            Postgres counters are unavailable{data.fallbackSince && ` since ${new Date(data.fallbackSince).toLocaleTimeString()}`}; counting in server memory for now.
+          </p>
+        )}
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm flex items-center gap-2"><Gauge className="w-4 h-4 text-primary" /> Policy</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {error ? (
+              <p className="text-sm text-muted-foreground px-4 pb-4">{(error as Error).message}</p>
+            ) : !data ? (
+              <div className="px-4 pb-4 space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-[1fr_5rem_6rem_auto_auto] gap-x-3 px-4 pb-2 text-[11px] text-muted-foreground">
+                  <span>Rule</span>
+                  <span>Limit</span>
+                  <span>Window</span>
+                  <span>On</span>
+                  <span className="w-[3.75rem]" />
+                </div>
+                <div className="divide-y divide-border/50">
+                  {data.rules.map(rule => <RuleRow key={rule.id} rule={rule} />)}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
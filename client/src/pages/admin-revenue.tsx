@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart3, Coins, ExternalLink, Landmark, Loader2, Lock, Receipt } from "lucide-react";
+import { truncateAddress, formatUSD, formatTokenAmount, timeAgo, basescanTx, getStatusBg, tokenPath } from "@/lib/conway";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { PlatformRevenue, PlatformRevenueDay, PlatformRevenueTotal } from "@shared/schema";
+
+interface Balance {
+  token: string;
+  name: string;
+  symbol: string;
+  amount: string;
+  formatted: string;
+  usd: number | null;
+}
+
+interface ClaimRun {
+  at: string;
+  trigger: "schedule" | "manual";
+  claimed: number;
+  failed: number;
+  skipped: number;
+  error: string | null;
+}
+
+interface RevenueReport {
+  recipient: string;
+  claimable: { at: string; weth: Balance; tokens: Balance[]; totalTokenUsd: number } | null;
+  claimableError: string | null;
+  claimed: { weth: number; tokenUsd: number; byToken: PlatformRevenueTotal[] };
+  daily: PlatformRevenueDay[];
+  recent: PlatformRevenue[];
+  job: {
+    configured: boolean;
+    running: boolean;
+    intervalMs: number;
+    nextRunAt: string | null;
+    lastRun: ClaimRun | null;
+    thresholds: { weth: number; usd: number };
+  };
+}
+
+const RANGES = [30, 90, 365] as const;
+
+const revenueConfig = {
+  tokenUsd: { label: "Token fees (USD)", color: "hsl(var(--chart-1))" },
+  weth: { label: "WETH", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function Stat({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-xs text-muted-foreground mb-1">{label}</p>
+        <p className="text-lg font-semibold text-foreground">{value}</p>
+        {hint && <p className="text-[11px] text-muted-foreground/70 mt-0.5">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatWei(amount: string): string {
+  return formatTokenAmount(Number(amount) / 1e18);
+}
+
+export default function AdminRevenuePage() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [days, setDays] = useState<number>(90);
+
+  const { data, isLoading, error } = useQuery<RevenueReport>({
+    queryKey: [`/api/admin/revenue?days=${days}`],
+    enabled: isAdmin,
+    staleTime: 60000,
+  });
+
+  const runClaims = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/admin/revenue/claim").then(r => r.json() as Promise<ClaimRun>),
+    onSuccess: (run) => {
+      toast({
+        title: run.error ? "Claim run stopped" : "Claim run finished",
+        description: run.error ?? `${run.claimed} claimed, ${run.failed} failed, ${run.skipped} below threshold.`,
+        variant: run.error ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith("/api/admin/revenue") });
+    },
+    onError: (err: any) => toast({ title: "Claim run failed", description: err?.message, variant: "destructive" }),
+  });
+
+  if (authLoading) {
+    return <div className="p-6 max-w-5xl mx-auto"><Skeleton className="h-40 w-full" /></div>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 text-center p-6">
+        <Lock className="w-10 h-10 text-muted-foreground/50" />
+        <p className="text-sm font-medium text-muted-foreground">Sign in with an admin wallet to view platform revenue</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto space-y-4">
+        {error ? (
+          <p className="text-sm text-muted-foreground">{(error as Error).message}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-20" />)}
+            </div>
+            <Skeleton className="h-64 w-full" />
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { claimable, claimed, job } = data;
+  const chartData = data.daily.map(d => ({
+    ...d,
+    label: new Date(`${d.day}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" }),
+  }));
+  const claimedByToken = new Map(claimed.byToken.map(t => [t.feeToken, t]));
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-6 max-w-5xl mx-auto space-y-5">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Platform Revenue</h2>
+            <p className="text-xs text-muted-foreground">
+              LP fee share of the agent wallet <span className="font-mono">{truncateAddress(data.recipient)}</span>
+            </p>
+          </div>
+          <Button
+            size="sm"
+            className="gap-1.5"
+            disabled={!job.configured || job.running || runClaims.isPending}
+            onClick={() => runClaims.mutate()}
+            data-testid="button-run-claims"
+          >
+            {(job.running || runClaims.isPending) ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Landmark className="w-3.5 h-3.5" />}
+            Claim now
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Stat label="Claimable WETH" value={claimable ? `${formatTokenAmount(claimable.weth.formatted)} WETH` : "—"} />
+          <Stat
+            label="Claimable tokens (est.)"
+            value={claimable ? formatUSD(claimable.totalTokenUsd) : "—"}
+            hint={claimable ? `across ${claimable.tokens.length} token${claimable.tokens.length !== 1 ? "s" : ""}` : undefined}
+          />
+          <Stat label="Claimed WETH" value={`${formatTokenAmount(claimed.weth)} WETH`} />
+          <Stat label="Claimed tokens" value={formatUSD(claimed.tokenUsd)} hint="valued at claim time" />
+        </div>
+
+        {data.claimableError && (
+          <p className="text-xs text-muted-foreground">Claimable balances unavailable: {data.claimableError}</p>
+        )}
+
+        <Card>
+          <CardHeader className="pb-3 flex flex-row items-center justify-between gap-2 space-y-0">
+            <CardTitle className="text-sm flex items-center gap-2"><BarChart3 className="w-4 h-4 text-primary" /> Claimed per day</CardTitle>
+            <div className="flex gap-1">
+              {RANGES.map(r => (
+                <Button
+                  key={r}
+                  size="sm"
+                  variant={days === r ? "secondary" : "ghost"}
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setDays(r)}
+                  data-testid={`button-range-${r}`}
+                >
+                  {r}d
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {chartData.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-10 text-center">No confirmed claims in this range yet.</p>
+            ) : (
+              <ChartContainer config={revenueConfig} className="w-full max-h-64">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis yAxisId="usd" tickLine={false} axisLine={false} width={48} tickFormatter={(v) => formatUSD(v)} />
+                  <YAxis yAxisId="weth" orientation="right" tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar yAxisId="usd" dataKey="tokenUsd" fill="var(--color-tokenUsd)" radius={3} />
+                  <Line yAxisId="weth" dataKey="weth" stroke="var(--color-weth)" strokeWidth={2} dot={false} type="monotone" />
+                </ComposedChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-5 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2"><Coins className="w-4 h-4 text-primary" /> Per token</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 px-4 pb-2 text-[11px] text-muted-foreground">
+                <span>Token</span>
+                <span className="text-right">Claimable</span>
+                <span className="text-right">Claimed</span>
+              </div>
+              <div className="divide-y divide-border/50">
+                {(claimable ? [claimable.weth, ...claimable.tokens] : []).map(b => {
+                  const total = claimedByToken.get(b.token.toLowerCase());
+                  return (
+                    <div key={b.token} className="grid grid-cols-[1fr_auto_auto] gap-x-4 items-center px-4 py-2 text-sm" data-testid={`revenue-token-${b.token}`}>
+                      {b.symbol === "WETH" ? (
+                        <span className="font-mono text-foreground">WETH</span>
+                      ) : (
+                        <Link href={tokenPath(b.token)} className="font-mono text-foreground hover:text-primary truncate">{b.symbol}</Link>
+                      )}
+                      <span className="text-right">
+                        {formatTokenAmount(b.formatted)}
+                        {b.usd !== null && <span className="block text-[11px] text-muted-foreground">≈ {formatUSD(b.usd)}</span>}
+                      </span>
+                      <span className="text-right text-muted-foreground">
+                        {total ? formatWei(total.amount) : "—"}
+                        {total && total.amountUsd > 0 && <span className="block text-[11px]">{formatUSD(total.amountUsd)}</span>}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2"><Landmark className="w-4 h-4 text-primary" /> Batch claim job</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {!job.configured ? (
+                <p className="text-muted-foreground">Disabled — no agent wallet configured.</p>
+              ) : (
+                <>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Schedule</p>
+                    <p className="text-foreground">
+                      Every {Math.round(job.intervalMs / 3_600_000)}h
+                      {job.nextRunAt && <span className="text-xs text-muted-foreground ml-1.5">(next {new Date(job.nextRunAt).toLocaleTimeString()})</span>}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Last run</p>
+                    {job.lastRun ? (
+                      <p className="text-foreground">
+                        {timeAgo(job.lastRun.at)} · {job.lastRun.trigger}
+                        <span className="block text-xs text-muted-foreground">
+                          {job.lastRun.error ?? `${job.lastRun.claimed} claimed, ${job.lastRun.failed} failed, ${job.lastRun.skipped} skipped`}
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="text-muted-foreground">Not run since the server started</p>
+                    )}
+                  </div>
+                </>
+              )}
+              <p className="text-[11px] text-muted-foreground/70">
+                Balances under {job.thresholds.weth} WETH or {formatUSD(job.thresholds.usd)} per token are left to accrue.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm flex items-center gap-2"><Receipt className="w-4 h-4 text-primary" /> Ledger</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {data.recent.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-4 pb-4">No claims recorded yet.</p>
+            ) : (
+              <div className="divide-y divide-border/50">
+                {data.recent.map(row => (
+                  <div key={row.id} className="flex items-center gap-3 px-4 py-2 text-sm" data-testid={`ledger-${row.id}`}>
+                    <Badge variant="outline" className={`text-[10px] ${getStatusBg(row.status)}`}>{row.status}</Badge>
+                    <span className="flex-1 min-w-0 truncate">
+                      {formatWei(row.amount)} <span className="font-mono text-muted-foreground">{row.symbol}</span>
+                      {row.amountUsd !== null && <span className="text-xs text-muted-foreground ml-1.5">≈ {formatUSD(row.amountUsd)}</span>}
+                      {row.error && <span className="block text-[11px] text-red-400 truncate">{row.error}</span>}
+                    </span>
+                    {row.txHash && (
+                      <a href={basescanTx(row.txHash)} target="_blank" rel="noopener noreferrer"
+                         className="flex items-center gap-1 font-mono text-xs text-primary hover:underline">
+                        {truncateAddress(row.txHash, 8, 6)} <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                    <span className="text-xs text-muted-foreground w-16 text-right">{timeAgo(String(row.createdAt))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
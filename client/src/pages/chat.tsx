@@ -6,21 +6,39 @@ import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import {
   Bot, Send, Trash2, User, Wallet, CheckCircle, Loader2, Rocket,
-  Coins, BarChart3, TrendingUp, HelpCircle, X, ChevronDown,
+  Coins, BarChart3, TrendingUp, HelpCircle, X, ChevronDown, AlertTriangle, Receipt, BookOpen,
 } from "lucide-react";
 import {
   getOrCreateSessionId, getUserWallet, setUserWallet, truncateAddress,
+  basescanTx, basescanToken, getStatusBg,
 } from "@/lib/conway";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RewardSplitsEditor, parseSplitRows, type SplitRow } from "@/components/reward-splits-editor";
+import { useRewardPolicy } from "@/hooks/use-reward-policy";
+import { DeploySimulationSummary } from "@/components/deploy-simulation-summary";
+import { TokenImagePicker } from "@/components/token-image-picker";
+import { SocialLinkFields, EMPTY_SOCIAL_LINKS, parseSocialLinks, type SocialLinksForm } from "@/components/social-link-fields";
+import { useAuth } from "@/hooks/use-auth";
+import { parseChatFrame, type ChatEvent } from "@shared/chat-events";
+import { SOCIAL_LINK_FIELDS, SOCIAL_PLATFORM_LABELS, type SocialLinkField, type SocialPlatform } from "@shared/social-links";
+import type { Deployment, DeploySimulation } from "@shared/schema";
+
+type DeployPreview = Extract<ChatEvent, { type: "deploy_preview" }>;
+// Everything except text, which is folded into `content`
+type StructuredEvent = Exclude<ChatEvent, { type: "text" }>;
 
 interface Message {
   role: "user" | "assistant";
   content: string;
   streaming?: boolean;
+  events?: StructuredEvent[];
 }
 
+const PENDING_STATUSES = ["queued", "submitted"];
+
 function SimpleMarkdown({ content }: { content: string }) {
   const lines = content.split("\n");
   const elements: React.ReactNode[] = [];
@@ -120,9 +138,10 @@ interface DeployFormData {
   name: string;
   symbol: string;
   wallet: string;
-  website: string;
-  twitter: string;
+  links: SocialLinksForm;
   description: string;
+  imageUrl: string;
+  splits: SplitRow[];
 }
 
 function DeployPanel({ onSend, userWallet }: { onSend: (msg: string) => void; userWallet: string }) {
@@ -130,25 +149,34 @@ function DeployPanel({ onSend, userWallet }: { onSend: (msg: string) => void; us
     name: "",
     symbol: "",
     wallet: userWallet,
-    website: "",
-    twitter: "",
+    links: EMPTY_SOCIAL_LINKS,
     description: "",
+    imageUrl: "",
+    splits: [],
   });
+  const { wallet: signedInWallet } = useAuth();
+  const policy = useRewardPolicy();
+  const { splits, error: splitError } = parseSplitRows(form.splits, form.wallet, policy.creatorBps);
+  const { links, errors: linkErrors } = parseSocialLinks(form.links);
+  const hasLinkErrors = Object.keys(linkErrors).length > 0;
 
   function buildMessage() {
     const lines = [`Deploy token`];
     if (form.name) lines.push(`Name: ${form.name}`);
     if (form.symbol) lines.push(`Symbol: ${form.symbol.toUpperCase()}`);
-    if (form.website) lines.push(`Website: ${form.website}`);
-    if (form.twitter) lines.push(`X: ${form.twitter}`);
+    for (const [field, platform] of Object.entries(SOCIAL_LINK_FIELDS) as [SocialLinkField, SocialPlatform][]) {
+      if (links[field]) lines.push(`${SOCIAL_PLATFORM_LABELS[platform]}: ${links[field]}`);
+    }
     if (form.description) lines.push(`Description: ${form.description}`);
+    if (form.imageUrl) lines.push(`Image: ${form.imageUrl}`);
+    for (const s of splits) lines.push(`Split: ${s.recipient} ${s.bps / 100}%${s.label ? ` ${s.label}` : ""}`);
     if (form.wallet) lines.push(`Wallet: ${form.wallet}`);
     return lines.join("\n");
   }
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!form.name || !form.symbol || !form.wallet) return;
+    if (!form.name || !form.symbol || !form.wallet || splitError || hasLinkErrors) return;
     onSend(buildMessage());
   }
 
@@ -198,33 +226,30 @@ function DeployPanel({ onSend, userWallet }: { onSend: (msg: string) => void; us
               required
             />
           </div>
-          <div className="grid grid-cols-2 gap-2">
-            <div>
-              <Label className="text-xs text-muted-foreground">Website</Label>
-              <Input
-                placeholder="claude.com"
-                value={form.website}
-                onChange={e => setForm(f => ({ ...f, website: e.target.value }))}
-                className="mt-0.5 h-8 text-sm"
-                data-testid="deploy-form-website"
-              />
-            </div>
-            <div>
-              <Label className="text-xs text-muted-foreground">X</Label>
-              <Input
-                placeholder="https://x.com/..."
-                value={form.twitter}
-                onChange={e => setForm(f => ({ ...f, twitter: e.target.value }))}
-                className="mt-0.5 h-8 text-sm"
-                data-testid="deploy-form-twitter"
+          <SocialLinkFields
+            value={form.links}
+            onChange={links => setForm(f => ({ ...f, links }))}
+            compact
+          />
+          <div>
+            <Label className="text-xs text-muted-foreground">Logo{!signedInWallet && " (sign in to upload)"}</Label>
+            <div className="mt-0.5">
+              <TokenImagePicker
+                value={form.imageUrl}
+                onChange={imageUrl => setForm(f => ({ ...f, imageUrl }))}
+                canUpload={!!signedInWallet}
+                compact
               />
             </div>
           </div>
-          <div className="flex items-center gap-2 pt-1">
-            <div className="flex-1 text-xs text-muted-foreground bg-muted/30 rounded px-2 py-1">
-              Fee: <span className="text-primary font-medium">90%</span> you · 10% ConwayPad
-            </div>
-            <Button type="submit" size="sm" className="gap-1.5 h-8 px-3" disabled={!form.name || !form.symbol || !form.wallet}>
+          <RewardSplitsEditor
+            rows={form.splits}
+            onChange={rows => setForm(f => ({ ...f, splits: rows }))}
+            tokenAdmin={form.wallet}
+            compact
+          />
+          <div className="flex items-center justify-end pt-1">
+            <Button type="submit" size="sm" className="gap-1.5 h-8 px-3" disabled={!form.name || !form.symbol || !form.wallet || !!splitError || hasLinkErrors}>
               <Rocket className="w-3.5 h-3.5" />
               Deploy
             </Button>
@@ -235,7 +260,157 @@ function DeployPanel({ onSend, userWallet }: { onSend: (msg: string) => void; us
   );
 }
 
-function MessageBubble({ message }: { message: Message }) {
+function DeployPreviewActions({ preview, onConfirm, onCancel }: {
+  preview: DeployPreview; onConfirm: () => void; onCancel: () => void;
+}) {
+  const [now, setNow] = useState(Date.now());
+  const expiresAt = new Date(preview.expiresAt).getTime();
+  const { params } = preview;
+
+  // Dry run of the previewed deploy, so gas cost and revert reasons show before confirming
+  const { data: simulation, error: simulationError, isLoading: simulating } = useQuery<DeploySimulation>({
+    queryKey: ["/api/clanker/deploy/simulate", params],
+    queryFn: () => apiRequest("POST", "/api/clanker/deploy/simulate", {
+      name: params.name,
+      symbol: params.symbol,
+      tokenAdmin: params.wallet,
+      description: params.description,
+      imageUrl: params.imageUrl,
+      websiteUrl: params.websiteUrl,
+      twitterUrl: params.twitterUrl,
+      telegramUrl: params.telegramUrl,
+      farcasterUrl: params.farcasterUrl,
+      discordUrl: params.discordUrl,
+      githubUrl: params.githubUrl,
+      rewardSplits: params.rewardSplits,
+    }).then(r => r.json()),
+    enabled: !!params.name && !!params.symbol && !!params.wallet,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (now >= expiresAt) {
+    return <p className="text-[11px] text-muted-foreground mt-2">Preview expired — send the deploy request again.</p>;
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {simulating && (
+        <p className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" /> Simulating deploy...
+        </p>
+      )}
+      {simulation && <DeploySimulationSummary simulation={simulation} />}
+      {simulationError && (
+        <p className="text-[11px] text-muted-foreground">Couldn't simulate this deploy: {(simulationError as Error).message}</p>
+      )}
+      <div className="flex items-center gap-2">
+        <Button size="sm" className="h-7 px-3 text-xs gap-1.5" onClick={onConfirm} data-testid="button-confirm-deploy">
+          <Rocket className="w-3 h-3" /> Confirm Deploy
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 px-3 text-xs" onClick={onCancel} data-testid="button-cancel-deploy">
+          Cancel
+        </Button>
+        <span className="text-[10px] text-muted-foreground">
+          expires in {Math.max(1, Math.ceil((expiresAt - now) / 60000))}m
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// Live status for a deploy sent from chat; polls until the job settles
+function DeployStatusCard({ deploymentId, initial }: {
+  deploymentId: number; initial: { status: string; txHash?: string | null; tokenAddress?: string | null; error?: string | null };
+}) {
+  const { data } = useQuery<Deployment>({
+    queryKey: ["/api/deployments", deploymentId],
+    queryFn: () => fetch(`/api/deployments/${deploymentId}`).then(r => r.json()),
+    enabled: PENDING_STATUSES.includes(initial.status) || initial.status === "flagged",
+    refetchInterval: (query) => {
+      const current = query.state.data?.status ?? initial.status;
+      if (PENDING_STATUSES.includes(current)) return 5000;
+      return current === "flagged" ? 30000 : false;
+    },
+  });
+
+  const status = data?.status ?? initial.status;
+  const txHash = data?.txHash ?? initial.txHash;
+  const tokenAddress = data?.tokenAddress ?? initial.tokenAddress;
+  const error = data?.error ?? initial.error;
+
+  return (
+    <div className="mt-2 w-full rounded-lg border border-border/60 bg-card/60 px-3 py-2 text-xs space-y-1" data-testid={`chat-deployment-${deploymentId}`}>
+      <div className="flex items-center gap-2">
+        <Rocket className="w-3 h-3 text-primary" />
+        <span className="font-medium text-foreground">Deployment #{deploymentId}</span>
+        <Badge variant="outline" className={`ml-auto text-[10px] capitalize ${getStatusBg(status)}`}>
+          {PENDING_STATUSES.includes(status) && <Loader2 className="w-2.5 h-2.5 mr-1 animate-spin" />}
+          {status}
+        </Badge>
+      </div>
+      {txHash && (
+        <a href={basescanTx(txHash)} target="_blank" rel="noopener noreferrer" className="block font-mono text-primary hover:underline">
+          tx {truncateAddress(txHash, 10, 8)}
+        </a>
+      )}
+      {tokenAddress && (
+        <a href={basescanToken(tokenAddress)} target="_blank" rel="noopener noreferrer" className="block font-mono text-primary hover:underline">
+          token {truncateAddress(tokenAddress, 10, 8)}
+        </a>
+      )}
+      {error && (status === "failed" || status === "reverted" || status === "rejected") && (
+        <p className="text-red-400">{error}</p>
+      )}
+      {status === "flagged" && <p className="text-orange-400">Held for review by a moderator</p>}
+    </div>
+  );
+}
+
+function ChatEventView({ event, isLatest, onSend }: {
+  event: StructuredEvent; isLatest: boolean; onSend: (text: string, extra?: { confirmDraftId?: number }) => void;
+}) {
+  switch (event.type) {
+    case "deploy_preview":
+      // Older previews are superseded by later messages; only the newest is actionable
+      return isLatest ? (
+        <DeployPreviewActions
+          preview={event}
+          onConfirm={() => onSend("confirm", { confirmDraftId: event.draftId })}
+          onCancel={() => onSend("cancel")}
+        />
+      ) : null;
+    case "deploy_submitted":
+      return <DeployStatusCard deploymentId={event.deploymentId} initial={event} />;
+    case "deploy_result":
+      return <DeployStatusCard deploymentId={event.deploymentId} initial={event} />;
+    case "fallback":
+      return (
+        <p className="flex items-center gap-1 text-[10px] text-muted-foreground mt-1" title={event.reason}>
+          <BookOpen className="w-3 h-3" /> Answered from the built-in knowledge base — Conway AI unavailable
+        </p>
+      );
+    case "payment":
+      return (
+        <p className="flex items-center gap-1 text-[10px] text-muted-foreground mt-1" title={`Paid to ${event.payTo} on ${event.network}`}>
+          <Receipt className="w-3 h-3" /> Paid ${(Number(event.amount) / 1e6).toFixed(6)} USDC via x402
+        </p>
+      );
+    case "error":
+      return (
+        <p className="flex items-center gap-1 text-[11px] text-red-400 mt-1">
+          <AlertTriangle className="w-3 h-3" /> {event.message}
+        </p>
+      );
+  }
+}
+
+function MessageBubble({ message, actions }: { message: Message; actions?: React.ReactNode }) {
   const isUser = message.role === "user";
 
   return (
@@ -263,6 +438,7 @@ function MessageBubble({ message }: { message: Message }) {
             <SimpleMarkdown content={message.content + (message.streaming ? "▋" : "")} />
           )}
         </div>
+        {actions}
       </div>
     </div>
   );
@@ -303,7 +479,7 @@ export default function Chat() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  const sendMessage = useCallback(async (text: string) => {
+  const sendMessage = useCallback(async (text: string, extra?: { confirmDraftId?: number }) => {
     if (!text.trim() || isStreaming) return;
 
     setMessages(prev => [
@@ -323,9 +499,14 @@ export default function Chat() {
           message: text.trim(),
           sessionId,
           userWallet: getUserWallet(),
+          ...extra,
         }),
       });
 
+      if (res.status === 429) {
+        const { error } = await res.json().catch(() => ({ error: null }));
+        throw new Error(error || "Too many messages, slow down");
+      }
       if (!res.ok && res.status !== 200) {
         throw new Error(`Server error ${res.status}`);
       }
@@ -335,6 +516,7 @@ export default function Chat() {
       const reader = res.body.getReader();
       const decoder = new TextDecoder();
       let fullContent = "";
+      const events: StructuredEvent[] = [];
       let buffer = "";
 
       while (true) {
@@ -347,25 +529,26 @@ export default function Chat() {
 
         for (const line of lines) {
           if (!line.startsWith("data: ")) continue;
-          const data = line.slice(6).trim();
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.done) continue;
-            if (parsed.content) {
-              fullContent += parsed.content;
-              setMessages(prev => {
-                const updated = [...prev];
-                updated[updated.length - 1] = { role: "assistant", content: fullContent, streaming: true };
-                return updated;
-              });
-            }
-          } catch { }
+          const event = parseChatFrame(line.slice(6).trim());
+          if (!event || event === "done") continue;
+          if (event.type === "text") fullContent += event.content;
+          else events.push(event);
+          setMessages(prev => {
+            const updated = [...prev];
+            updated[updated.length - 1] = { role: "assistant", content: fullContent, streaming: true, events: [...events] };
+            return updated;
+          });
         }
       }
 
       setMessages(prev => {
         const updated = [...prev];
-        updated[updated.length - 1] = { role: "assistant", content: fullContent || "No response received.", streaming: false };
+        updated[updated.length - 1] = {
+          role: "assistant",
+          content: fullContent || "No response received.",
+          streaming: false,
+          events,
+        };
         return updated;
       });
 
@@ -509,7 +692,18 @@ export default function Chat() {
           </div>
         ) : (
           messages.map((msg, i) => (
-            <MessageBubble key={i} message={msg} />
+            <MessageBubble
+              key={i}
+              message={msg}
+              actions={msg.events?.length ? msg.events.map((event, j) => (
+                <ChatEventView
+                  key={j}
+                  event={event}
+                  isLatest={i === messages.length - 1 && !isStreaming}
+                  onSend={sendMessage}
+                />
+              )) : undefined}
+            />
           ))
         )}
         <div ref={messagesEndRef} />
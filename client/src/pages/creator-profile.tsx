@@ -0,0 +1,199 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, CalendarDays, Coins, ExternalLink, Rocket, User } from "lucide-react";
+import { truncateAddress, formatUSD, timeAgo, normalizeToken, tokenPath } from "@/lib/conway";
+import type { CreatorStats } from "@shared/schema";
+
+interface CreatorProfile extends CreatorStats {
+  wallet: string;
+  cadence: { weekly: { week: string; launches: number }[]; avgDaysBetweenLaunches: number | null };
+  estimatedFees: { last24h: number; tracked: number };
+  tokens: any[];
+}
+
+const cadenceConfig = {
+  launches: { label: "Launches", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+function Stat({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-xs text-muted-foreground mb-1">{label}</p>
+        <p className="text-lg font-semibold text-foreground">{value}</p>
+        {hint && <p className="text-[11px] text-muted-foreground/70 mt-0.5">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" }) : "—";
+}
+
+export default function CreatorProfilePage() {
+  const { wallet = "" } = useParams<{ wallet: string }>();
+  const { data, isLoading, error } = useQuery<CreatorProfile>({
+    queryKey: ["/api/creators", wallet.toLowerCase()],
+    staleTime: 60000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto space-y-4">
+        <Skeleton className="h-12 w-80" />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-20" />)}
+        </div>
+        <Skeleton className="h-56 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 text-center p-6">
+        <User className="w-10 h-10 text-muted-foreground/50" />
+        <p className="text-sm font-medium text-muted-foreground">
+          {(error as Error)?.message?.startsWith("404") ? "This wallet hasn't launched anything through ConwayPad" : "Couldn't load this creator"}
+        </p>
+        <p className="text-xs font-mono text-muted-foreground/70">{wallet}</p>
+        <Link href="/leaderboard">
+          <Button variant="outline" size="sm" className="gap-1.5"><ArrowLeft className="w-3.5 h-3.5" /> Leaderboard</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const weekly = data.cadence.weekly.map(w => ({
+    ...w,
+    label: new Date(w.week).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+  }));
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-6 max-w-5xl mx-auto space-y-5">
+        <Link href="/leaderboard">
+          <Button variant="ghost" size="sm" className="gap-1.5 -ml-2 text-muted-foreground" data-testid="button-back-leaderboard">
+            <ArrowLeft className="w-3.5 h-3.5" /> Leaderboard
+          </Button>
+        </Link>
+
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-12 h-12 rounded-full bg-primary/10 border border-primary/20 flex items-center justify-center flex-shrink-0">
+              <User className="w-6 h-6 text-primary" />
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-xl font-bold text-foreground font-mono truncate">{truncateAddress(data.wallet, 10, 8)}</h1>
+              <p className="text-sm text-muted-foreground">
+                {data.launches} launch{data.launches !== 1 ? "es" : ""} via ConwayPad
+              </p>
+            </div>
+          </div>
+          <a href={`https://basescan.org/address/${data.wallet}`} target="_blank" rel="noopener noreferrer">
+            <Button size="sm" variant="outline" className="gap-1.5"><ExternalLink className="w-3.5 h-3.5" /> Basescan</Button>
+          </a>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Stat label="Total Market Cap" value={formatUSD(data.totalMarketCap)} />
+          <Stat label="24h Volume" value={formatUSD(data.totalVolume24h)} />
+          <Stat
+            label="Est. Fees Earned"
+            value={formatUSD(data.estimatedFees.tracked)}
+            hint={`${formatUSD(data.estimatedFees.last24h)} in the last 24h`}
+          />
+          <Stat
+            label="Launch Cadence"
+            value={data.cadence.avgDaysBetweenLaunches !== null ? `${data.cadence.avgDaysBetweenLaunches.toFixed(1)}d` : "—"}
+            hint="average gap between launches"
+          />
+        </div>
+
+        <div className="grid gap-5 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2"><Rocket className="w-4 h-4 text-primary" /> Launches per week</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={cadenceConfig} className="w-full max-h-56">
+                <BarChart data={weekly}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="launches" fill="var(--color-launches)" radius={3} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2"><CalendarDays className="w-4 h-4 text-primary" /> Activity</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">First launch</p>
+                <p className="text-foreground">{formatDate(data.firstLaunchAt)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Latest launch</p>
+                <p className="text-foreground">
+                  {formatDate(data.lastLaunchAt)}
+                  {data.lastLaunchAt && <span className="text-xs text-muted-foreground ml-1.5">({timeAgo(data.lastLaunchAt)})</span>}
+                </p>
+              </div>
+              <p className="text-[11px] text-muted-foreground/70">
+                Fee estimates use tracked swap volume × each token's pool fee (dynamic fees at their minimum) × the creator's reward share.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm flex items-center gap-2"><Coins className="w-4 h-4 text-primary" /> Tokens</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="divide-y divide-border/50">
+              {data.tokens.map(normalizeToken).map((t: any) => (
+                <Link
+                  key={t.address}
+                  href={tokenPath(t.address)}
+                  className="flex items-center gap-3 px-4 py-3 hover:bg-muted/30 transition-colors"
+                  data-testid={`creator-token-${t.address}`}
+                >
+                  {t.imgUrl ? (
+                    <img src={t.imgUrl} alt={t.name} className="w-8 h-8 rounded-md object-cover flex-shrink-0" onError={(e) => { (e.target as any).style.display = 'none'; }} />
+                  ) : (
+                    <div className="w-8 h-8 rounded-md bg-primary/10 flex items-center justify-center flex-shrink-0">
+                      <span className="text-[11px] font-bold text-primary">{t.symbol.slice(0, 2)}</span>
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm text-foreground truncate">{t.name}</span>
+                      <span className="text-xs font-mono text-muted-foreground">{t.symbol}</span>
+                    </div>
+                    <span className="text-xs text-muted-foreground">{timeAgo(t.deployDate)}</span>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-sm font-medium text-foreground">{t.marketCap > 0 ? formatUSD(t.marketCap) : "—"}</p>
+                    {t.volume24h > 0 && <p className="text-[11px] text-muted-foreground">Vol {formatUSD(t.volume24h)}</p>}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
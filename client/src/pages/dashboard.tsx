@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -8,9 +9,10 @@ import {
 } from "lucide-react";
 import {
   formatUSD, formatNumber, truncateAddress, timeAgo,
-  dexscreenerLink, normalizeToken, clankerLink,
+  dexscreenerLink, normalizeToken, clankerLink, tokenPath,
 } from "@/lib/conway";
 import { Button } from "@/components/ui/button";
+import { useRewardPolicy } from "@/hooks/use-reward-policy";
 import { useState } from "react";
 
 function StatCard({
@@ -89,7 +91,9 @@ function TokenRow({ token, rank }: { token: any; rank?: number }) {
       )}
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-1.5">
-          <span className="font-semibold text-sm text-foreground truncate">{t.name || "Unknown"}</span>
+          <Link href={tokenPath(t.address)} className="font-semibold text-sm text-foreground truncate hover:text-primary transition-colors" data-testid={`link-token-${t.address}`}>
+            {t.name || "Unknown"}
+          </Link>
           <span className="text-[11px] text-muted-foreground/70 font-mono flex-shrink-0">{t.symbol || "?"}</span>
         </div>
         <div className="text-[11px] text-muted-foreground/60 mt-0.5">
@@ -143,6 +147,7 @@ function SectionCard({ title, icon: Icon, badge, children }: {
 
 export default function Dashboard() {
   const [refreshKey, setRefreshKey] = useState(0);
+  const policy = useRewardPolicy();
 
   const { data: tokensData, isLoading: tokensLoading, refetch } = useQuery({
     queryKey: ["/api/conway/tokens", "dashboard", refreshKey],
@@ -230,8 +235,8 @@ export default function Dashboard() {
           />
           <StatCard
             title="Creator Fee"
-            value="90%"
-            subtitle="10% to platform"
+            value={`${policy.creatorBps / 100}%`}
+            subtitle={`${policy.platformBps / 100}% to platform`}
             icon={Zap}
             delay={275}
             color="violet"
@@ -306,7 +311,7 @@ export default function Dashboard() {
               ConwayPad deploys ERC-20 tokens on Base using{" "}
               <span className="text-foreground/80 font-medium">Clanker SDK v4</span> with automatic, permanently locked liquidity pools.
               Token creators earn{" "}
-              <span className="text-primary font-semibold">90% of all LP fees</span> from every trade.
+              <span className="text-primary font-semibold">{policy.creatorBps / 100}% of all LP fees</span> from every trade.
             </p>
           </div>
         </div>
@@ -1,10 +1,18 @@
-import { useMemo } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Trophy, Rocket, TrendingUp, ExternalLink } from "lucide-react";
-import { truncateAddress, formatUSD, formatNumber } from "@/lib/conway";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Trophy, Rocket, TrendingUp, ExternalLink, Coins } from "lucide-react";
+import { useRewardPolicy } from "@/hooks/use-reward-policy";
+import { truncateAddress, formatUSD, formatNumber, tokenPath, creatorPath, normalizeToken } from "@/lib/conway";
+import {
+  CREATOR_LEADERBOARD_MODES, TOKEN_LEADERBOARD_MODES, LEADERBOARD_WINDOWS,
+  type CreatorLeaderboardRow, type LeaderboardWindow,
+} from "@shared/schema";
 
 function MedalBadge({ rank }: { rank: number }) {
   if (rank === 1) return (
@@ -32,31 +40,165 @@ function MedalBadge({ rank }: { rank: number }) {
   );
 }
 
+type Board = "creators" | "tokens";
+type CreatorMode = typeof CREATOR_LEADERBOARD_MODES[number];
+type TokenMode = typeof TOKEN_LEADERBOARD_MODES[number];
+
+const MODE_LABELS: Record<CreatorMode | TokenMode, string> = {
+  launches: "Launches",
+  marketCap: "Market Cap",
+  volume: "Volume",
+  bestToken: "Best Token",
+  fees: "Est. LP Fees",
+};
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = { "24h": "24h", "7d": "7d", "30d": "30d", all: "All time" };
+
+function creatorValue(row: CreatorLeaderboardRow, mode: CreatorMode): string {
+  switch (mode) {
+    case "launches": return formatNumber(row.launches);
+    case "marketCap": return row.totalMarketCap > 0 ? formatUSD(row.totalMarketCap) : "—";
+    case "volume": return formatUSD(row.volume);
+    case "bestToken": return row.bestToken?.marketCap ? formatUSD(row.bestToken.marketCap) : "—";
+    case "fees": return formatUSD(row.estimatedFees);
+  }
+}
+
+function tokenValue(token: any, mode: TokenMode): string {
+  switch (mode) {
+    case "marketCap": return token.marketCap > 0 ? formatUSD(token.marketCap) : "—";
+    case "volume": return formatUSD(token.volume);
+    case "fees": return formatUSD(token.estimatedFees);
+  }
+}
+
+function rowStyle(idx: number) {
+  return idx < 3 ? {
+    background: idx === 0
+      ? "linear-gradient(90deg, rgba(251,191,36,0.04) 0%, transparent 60%)"
+      : idx === 1
+      ? "linear-gradient(90deg, rgba(156,163,175,0.04) 0%, transparent 60%)"
+      : "linear-gradient(90deg, rgba(180,83,9,0.04) 0%, transparent 60%)",
+  } : {};
+}
+
+function CreatorRows({ rows, mode }: { rows: CreatorLeaderboardRow[]; mode: CreatorMode }) {
+  return (
+    <div className="divide-y divide-border/40">
+      {rows.map((creator, idx) => (
+        <div
+          key={creator.wallet}
+          className="flex items-center gap-4 px-4 py-3.5 table-row-hover"
+          data-testid={`leaderboard-row-${idx}`}
+          style={rowStyle(idx)}
+        >
+          <div className="flex-shrink-0">
+            <MedalBadge rank={idx + 1} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <Link
+              href={creatorPath(creator.wallet)}
+              className="block text-sm font-mono font-medium text-foreground truncate hover:text-primary transition-colors"
+              data-testid={`link-creator-${idx}`}
+            >
+              {truncateAddress(creator.wallet)}
+            </Link>
+            <div className="flex items-center gap-3 mt-0.5">
+              <span className="text-[11px] text-muted-foreground/60 flex items-center gap-1">
+                <Rocket className="w-2.5 h-2.5" />
+                {creator.launches} token{creator.launches !== 1 ? "s" : ""}
+              </span>
+              {creator.bestToken && (
+                <Link
+                  href={tokenPath(creator.bestToken.address)}
+                  className="text-[11px] font-mono text-primary/80 hover:text-primary transition-colors"
+                  title="Top token by market cap"
+                  data-testid={`link-top-token-${idx}`}
+                >
+                  ${creator.bestToken.symbol}
+                </Link>
+              )}
+              {mode !== "marketCap" && creator.totalMarketCap > 0 && (
+                <span className="text-[11px] text-muted-foreground/60 flex items-center gap-1">
+                  <TrendingUp className="w-2.5 h-2.5" />
+                  {formatUSD(creator.totalMarketCap)}
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="w-24 text-right flex-shrink-0">
+            <p className="text-sm font-bold text-foreground">{creatorValue(creator, mode)}</p>
+          </div>
+          <a
+            href={`https://basescan.org/address/${creator.wallet}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-muted-foreground/30 hover:text-primary transition-colors flex-shrink-0"
+            data-testid={`link-basescan-${idx}`}
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </a>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TokenRows({ rows, mode }: { rows: any[]; mode: TokenMode }) {
+  return (
+    <div className="divide-y divide-border/40">
+      {rows.map((token, idx) => {
+        const t = normalizeToken(token);
+        return (
+          <Link
+            key={t.address}
+            href={tokenPath(t.address)}
+            className="flex items-center gap-4 px-4 py-3.5 table-row-hover"
+            data-testid={`token-leaderboard-row-${idx}`}
+            style={rowStyle(idx)}
+          >
+            <div className="flex-shrink-0">
+              <MedalBadge rank={idx + 1} />
+            </div>
+            {t.imgUrl ? (
+              <img src={t.imgUrl} alt={t.name} className="w-8 h-8 rounded-lg object-cover flex-shrink-0 border border-border/40" onError={(e) => { (e.target as any).style.display = "none"; }} />
+            ) : (
+              <div className="w-8 h-8 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-center flex-shrink-0">
+                <span className="text-[11px] font-bold text-primary">{t.symbol.slice(0, 2).toUpperCase()}</span>
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-1.5">
+                <span className="text-sm font-semibold text-foreground truncate">{t.name}</span>
+                <span className="text-[11px] font-mono text-muted-foreground/70">{t.symbol}</span>
+              </div>
+              <p className="text-[11px] font-mono text-muted-foreground/60 mt-0.5">by {truncateAddress(token.admin || "")}</p>
+            </div>
+            <div className="w-24 text-right flex-shrink-0">
+              <p className="text-sm font-bold text-foreground">{tokenValue(token, mode)}</p>
+            </div>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function Leaderboard() {
-  const { data, isLoading } = useQuery({
-    queryKey: ["/api/conway/tokens", "leaderboard"],
-    queryFn: () => fetch("/api/conway/tokens?limit=100").then(r => r.json()),
+  const [board, setBoard] = useState<Board>("creators");
+  const [creatorMode, setCreatorMode] = useState<CreatorMode>("launches");
+  const [tokenMode, setTokenMode] = useState<TokenMode>("marketCap");
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("all");
+  const policy = useRewardPolicy();
+
+  const mode = board === "creators" ? creatorMode : tokenMode;
+  const { data, isLoading, error } = useQuery<{ creators?: CreatorLeaderboardRow[]; tokens?: any[] }>({
+    queryKey: [`/api/leaderboard?type=${board}&mode=${mode}&window=${timeWindow}`],
     staleTime: 60000,
   });
 
-  const rawTokens: any[] = data?.tokens || [];
-
-  const leaderboard = useMemo(() => {
-    const creators: Record<string, { wallet: string; launches: number; totalMarketCap: number }> = {};
-    for (const t of rawTokens) {
-      const wallet = (t.admin || t.tokenAdmin || "").toLowerCase();
-      if (!wallet || wallet === "0x0000000000000000000000000000000000000000") continue;
-      if (!creators[wallet]) {
-        creators[wallet] = { wallet: t.admin || t.tokenAdmin || wallet, launches: 0, totalMarketCap: 0 };
-      }
-      creators[wallet].launches++;
-      const mc = t.related?.market?.marketCap || t.market_cap || 0;
-      creators[wallet].totalMarketCap += mc;
-    }
-    return Object.values(creators)
-      .sort((a, b) => b.launches - a.launches || b.totalMarketCap - a.totalMarketCap)
-      .slice(0, 50);
-  }, [rawTokens]);
+  const rows = (board === "creators" ? data?.creators : data?.tokens) ?? [];
+  const modes: readonly (CreatorMode | TokenMode)[] = board === "creators" ? CREATOR_LEADERBOARD_MODES : TOKEN_LEADERBOARD_MODES;
 
   return (
     <div className="h-full overflow-y-auto">
@@ -67,44 +209,71 @@ export default function Leaderboard() {
           <div className="flex items-center gap-2 mb-1">
             <div className="w-1 h-5 rounded-full bg-primary" />
             <h1 className="text-xl font-bold text-foreground" style={{ fontFamily: "'Oxanium', sans-serif" }}>
-              Creator Leaderboard
+              Leaderboard
             </h1>
           </div>
           <p className="text-sm text-muted-foreground pl-3">
-            Top creators ranked by tokens launched via ConwayPad
+            Top creators and tokens launched via ConwayPad
           </p>
         </div>
 
+        {/* Controls */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 animate-slide-up">
+          <Tabs value={board} onValueChange={(v) => setBoard(v as Board)}>
+            <TabsList>
+              <TabsTrigger value="creators" data-testid="tab-creators">Creators</TabsTrigger>
+              <TabsTrigger value="tokens" data-testid="tab-tokens">Tokens</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="flex gap-1">
+            {(Object.keys(LEADERBOARD_WINDOWS) as LeaderboardWindow[]).map(w => (
+              <Button
+                key={w}
+                size="sm"
+                variant={timeWindow === w ? "secondary" : "ghost"}
+                className="h-7 px-2.5 text-xs"
+                onClick={() => setTimeWindow(w)}
+                data-testid={`button-window-${w}`}
+              >
+                {WINDOW_LABELS[w]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
         {/* Table */}
         <Card className="overflow-hidden animate-slide-up" style={{ animationDelay: "50ms" }}>
           <CardHeader className="px-4 py-3 border-b border-border/40"
                       style={{ background: "linear-gradient(180deg, rgba(255,255,255,0.02) 0%, transparent 100%)" }}>
-            <div className="flex items-center justify-between">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
               <div className="flex items-center gap-2">
                 <div className="w-6 h-6 rounded-md bg-primary/10 border border-primary/20 flex items-center justify-center">
-                  <Trophy className="w-3.5 h-3.5 text-primary" />
+                  {board === "creators" ? <Trophy className="w-3.5 h-3.5 text-primary" /> : <Coins className="w-3.5 h-3.5 text-primary" />}
                 </div>
-                <CardTitle className="text-sm font-semibold">Top Creators</CardTitle>
+                <CardTitle className="text-sm font-semibold">{board === "creators" ? "Top Creators" : "Top Tokens"}</CardTitle>
+                {rows.length > 0 && (
+                  <Badge variant="outline" className="text-[10px] h-5 px-1.5 border-border/40 text-muted-foreground">
+                    {rows.length}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {modes.map(m => (
+                  <Button
+                    key={m}
+                    size="sm"
+                    variant={mode === m ? "secondary" : "ghost"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => board === "creators" ? setCreatorMode(m as CreatorMode) : setTokenMode(m as TokenMode)}
+                    data-testid={`button-mode-${m}`}
+                  >
+                    {MODE_LABELS[m]}
+                  </Button>
+                ))}
               </div>
-              {leaderboard.length > 0 && (
-                <Badge variant="outline" className="text-[10px] h-5 px-1.5 border-border/40 text-muted-foreground">
-                  {leaderboard.length} creators
-                </Badge>
-              )}
             </div>
           </CardHeader>
 
-          {/* Column headers */}
-          {!isLoading && leaderboard.length > 0 && (
-            <div className="flex items-center gap-4 px-4 py-2 border-b border-border/40 bg-muted/20">
-              <div className="w-7 flex-shrink-0" />
-              <p className="flex-1 text-[10px] font-semibold text-muted-foreground/60 uppercase tracking-widest">Creator</p>
-              <p className="text-[10px] font-semibold text-muted-foreground/60 uppercase tracking-widest w-20 text-right">Tokens</p>
-              <p className="text-[10px] font-semibold text-muted-foreground/60 uppercase tracking-widest w-24 text-right hidden sm:block">Market Cap</p>
-              <div className="w-4" />
-            </div>
-          )}
-
           <CardContent className="p-0">
             {isLoading ? (
               <div className="divide-y divide-border/40">
@@ -119,77 +288,30 @@ export default function Leaderboard() {
                   </div>
                 ))}
               </div>
-            ) : leaderboard.length === 0 ? (
+            ) : rows.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-16 gap-3">
                 <div className="w-14 h-14 rounded-2xl bg-muted/40 flex items-center justify-center">
                   <Trophy className="w-7 h-7 text-muted-foreground/30" />
                 </div>
                 <div className="text-center">
-                  <p className="text-sm font-medium text-muted-foreground">No creators yet</p>
-                  <p className="text-xs text-muted-foreground/60 mt-0.5">Be the first to launch a token via ConwayPad</p>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    {error ? "Leaderboard unavailable right now" : timeWindow === "all" ? "No launches yet" : `Nothing in the last ${timeWindow}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground/60 mt-0.5">
+                    {error ? "The token index may still be building" : "Be the first to launch a token via ConwayPad"}
+                  </p>
                 </div>
               </div>
+            ) : board === "creators" ? (
+              <CreatorRows rows={rows as CreatorLeaderboardRow[]} mode={creatorMode} />
             ) : (
-              <div className="divide-y divide-border/40">
-                {leaderboard.map((creator, idx) => (
-                  <div
-                    key={creator.wallet}
-                    className="flex items-center gap-4 px-4 py-3.5 table-row-hover"
-                    data-testid={`leaderboard-row-${idx}`}
-                    style={idx < 3 ? {
-                      background: idx === 0
-                        ? "linear-gradient(90deg, rgba(251,191,36,0.04) 0%, transparent 60%)"
-                        : idx === 1
-                        ? "linear-gradient(90deg, rgba(156,163,175,0.04) 0%, transparent 60%)"
-                        : "linear-gradient(90deg, rgba(180,83,9,0.04) 0%, transparent 60%)",
-                    } : {}}
-                  >
-                    <div className="flex-shrink-0">
-                      <MedalBadge rank={idx + 1} />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-mono font-medium text-foreground truncate">
-                        {truncateAddress(creator.wallet)}
-                      </p>
-                      <div className="flex items-center gap-3 mt-0.5">
-                        <span className="text-[11px] text-muted-foreground/60 flex items-center gap-1">
-                          <Rocket className="w-2.5 h-2.5" />
-                          {creator.launches} token{creator.launches !== 1 ? "s" : ""}
-                        </span>
-                        {creator.totalMarketCap > 0 && (
-                          <span className="text-[11px] text-muted-foreground/60 flex items-center gap-1 sm:hidden">
-                            <TrendingUp className="w-2.5 h-2.5" />
-                            {formatUSD(creator.totalMarketCap)}
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                    <div className="w-20 text-right flex-shrink-0">
-                      <p className="text-sm font-bold text-foreground">{formatNumber(creator.launches)}</p>
-                    </div>
-                    <div className="w-24 text-right flex-shrink-0 hidden sm:block">
-                      <p className="text-sm font-semibold text-foreground">
-                        {creator.totalMarketCap > 0 ? formatUSD(creator.totalMarketCap) : "—"}
-                      </p>
-                    </div>
-                    <a
-                      href={`https://basescan.org/address/${creator.wallet}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-muted-foreground/30 hover:text-primary transition-colors flex-shrink-0"
-                      data-testid={`link-basescan-${idx}`}
-                    >
-                      <ExternalLink className="w-3.5 h-3.5" />
-                    </a>
-                  </div>
-                ))}
-              </div>
+              <TokenRows rows={rows} mode={tokenMode} />
             )}
           </CardContent>
         </Card>
 
         <p className="text-[11px] text-muted-foreground/50 text-center">
-          Ranked by tokens launched · Fee split: 90% creator · 10% ConwayPad · Clanker SDK v4
+          Ranked by {MODE_LABELS[mode].toLowerCase()} · {WINDOW_LABELS[timeWindow].toLowerCase()} · LP fees estimated at each token's pool fee (dynamic fees at their minimum) · Fee split: {policy.creatorBps / 100}% creator · {policy.platformBps / 100}% ConwayPad
         </p>
       </div>
     </div>
@@ -1,20 +1,220 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import {
-  Rocket, ExternalLink, BarChart3, Share2, Wallet, CheckCircle, Loader2, Coins, TrendingUp, Plus, X,
+  Rocket, ExternalLink, BarChart3, Share2, Wallet, CheckCircle, Loader2, Coins, TrendingUp, Plus, X, Clock, Gift,
 } from "lucide-react";
 import {
-  getUserWallet, setUserWallet, truncateAddress, formatUSD, timeAgo,
-  dexscreenerLink, uniswapLink, clankerLink, normalizeToken,
+  truncateAddress, formatUSD, formatTokenAmount, timeAgo,
+  dexscreenerLink, uniswapLink, clankerLink, normalizeToken, basescanTx, getStatusBg, tokenPath,
 } from "@/lib/conway";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useRewardPolicy } from "@/hooks/use-reward-policy";
+import { RewardSplitsEditor, parseSplitRows, type SplitRow } from "@/components/reward-splits-editor";
+import {
+  AdvancedDeployOptions, parseAdvancedOptions, EMPTY_ADVANCED_OPTIONS, type AdvancedOptionsForm,
+} from "@/components/advanced-deploy-options";
+import { useDeployLimits } from "@/hooks/use-deploy-limits";
+import { DeploySimulationSummary } from "@/components/deploy-simulation-summary";
+import { TokenImagePicker } from "@/components/token-image-picker";
+import { SocialLinkFields, EMPTY_SOCIAL_LINKS, parseSocialLinks, type SocialLinksForm } from "@/components/social-link-fields";
+import type { Deployment, DeploySimulation } from "@shared/schema";
+
+const PENDING_STATUSES = ["queued", "submitted"];
+
+function DeploymentList({ wallet }: { wallet: string }) {
+  const { data } = useQuery<Deployment[]>({
+    queryKey: ["/api/deployments", wallet],
+    queryFn: () => fetch("/api/deployments", { credentials: "include" }).then(r => r.json()),
+    // Keep polling while anything is still waiting for the chain (or, less often, for a moderator)
+    refetchInterval: (query) => {
+      const rows = query.state.data || [];
+      if (rows.some(d => PENDING_STATUSES.includes(d.status))) return 5000;
+      return rows.some(d => d.status === "flagged") ? 30000 : false;
+    },
+  });
+
+  // Confirmed jobs already show up in the token list below
+  const rows = (data || []).filter(d => d.status !== "confirmed").slice(0, 10);
+  if (rows.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Clock className="w-4 h-4 text-primary" />
+          Deployments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y divide-border/50">
+          {rows.map(d => (
+            <div key={d.id} className="flex items-center gap-3 px-4 py-3" data-testid={`deployment-${d.id}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  {d.tokenAddress ? (
+                    <Link href={tokenPath(d.tokenAddress)} className="font-medium text-sm text-foreground hover:text-primary transition-colors">
+                      {d.params.name}
+                    </Link>
+                  ) : (
+                    <span className="font-medium text-sm text-foreground">{d.params.name}</span>
+                  )}
+                  <span className="text-xs font-mono text-muted-foreground">${d.params.symbol}</span>
+                </div>
+                <div className="flex items-center gap-3 mt-0.5">
+                  <span className="text-xs text-muted-foreground">#{d.id} · {timeAgo(d.createdAt ?? undefined)}</span>
+                  {d.txHash && (
+                    <a href={basescanTx(d.txHash)} target="_blank" rel="noopener noreferrer"
+                      className="text-xs font-mono text-primary hover:underline">
+                      {truncateAddress(d.txHash, 8, 6)}
+                    </a>
+                  )}
+                </div>
+                {d.error && (d.status === "failed" || d.status === "reverted" || d.status === "rejected") && (
+                  <p className="text-xs text-red-400 mt-1 truncate">{d.error}</p>
+                )}
+                {d.status === "flagged" && (
+                  <p className="text-xs text-orange-400 mt-1 truncate">
+                    Held for review: {(d.moderation ?? []).map(f => f.reason).join("; ")}
+                  </p>
+                )}
+              </div>
+              <Badge variant="outline" className={`text-[10px] capitalize ${getStatusBg(d.status)}`}>
+                {PENDING_STATUSES.includes(d.status) && <Loader2 className="w-2.5 h-2.5 mr-1 animate-spin" />}
+                {d.status}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RewardBalance {
+  token: string;
+  name: string;
+  symbol: string;
+  amount: string;
+  formatted: string;
+  usd: number | null;
+}
+
+interface Rewards {
+  wallet: string;
+  weth: RewardBalance;
+  tokens: RewardBalance[];
+  totalTokenUsd: number;
+}
+
+// Claim calldata comes from the server; the user's browser wallet signs and sends it on Base
+async function sendClaimFromWallet(wallet: string, token: string): Promise<string> {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) throw new Error("No browser wallet found");
+
+  const tx = await apiRequest("POST", "/api/rewards/claim", { token }).then(r => r.json());
+  const [account] = await ethereum.request({ method: "eth_requestAccounts" });
+  if (account?.toLowerCase() !== wallet.toLowerCase()) {
+    throw new Error(`Switch your wallet to ${truncateAddress(wallet)} to claim`);
+  }
+  await ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId: `0x${tx.chainId.toString(16)}` }] });
+  return ethereum.request({
+    method: "eth_sendTransaction",
+    params: [{ from: account, to: tx.to, data: tx.data, value: tx.value }],
+  });
+}
+
+function RewardsCard({ wallet }: { wallet: string }) {
+  const { toast } = useToast();
+  const { data, isLoading, error } = useQuery<Rewards>({
+    queryKey: ["/api/rewards", wallet],
+    queryFn: () => fetch("/api/rewards", { credentials: "include" }).then(async r => {
+      if (!r.ok) throw new Error((await r.json()).error || r.statusText);
+      return r.json();
+    }),
+    staleTime: 60000,
+  });
+
+  const claim = useMutation({
+    mutationFn: (token: string) => sendClaimFromWallet(wallet, token),
+    onSuccess: (hash) => {
+      toast({ title: "Claim sent", description: `${truncateAddress(hash, 10, 8)} — balances refresh once it confirms.` });
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: ["/api/rewards", wallet] }), 15000);
+    },
+    onError: (err: any) => toast({ title: "Claim failed", description: err?.message, variant: "destructive" }),
+  });
+
+  const balances = data ? [data.weth, ...data.tokens].filter(b => b.amount !== "0") : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Gift className="w-4 h-4 text-primary" />
+          Unclaimed LP Fees
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : error || !data ? (
+          <p className="text-sm text-muted-foreground">{(error as Error)?.message || "Rewards unavailable"}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-3 rounded-md bg-muted/30">
+                <p className="text-xs text-muted-foreground mb-1">WETH</p>
+                <p className="text-sm font-semibold text-foreground">{formatTokenAmount(data.weth.formatted)} WETH</p>
+              </div>
+              <div className="p-3 rounded-md bg-muted/30">
+                <p className="text-xs text-muted-foreground mb-1">Your tokens (est.)</p>
+                <p className="text-sm font-semibold text-foreground">{formatUSD(data.totalTokenUsd)}</p>
+              </div>
+            </div>
+            {balances.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Nothing to claim yet — fees accrue as your tokens trade.</p>
+            ) : (
+              <div className="divide-y divide-border/50">
+                {balances.map(b => (
+                  <div key={b.token} className="flex items-center gap-3 py-2" data-testid={`reward-${b.token}`}>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-foreground">
+                        {formatTokenAmount(b.formatted)} <span className="font-mono text-muted-foreground">{b.symbol}</span>
+                      </p>
+                      {b.usd !== null && <p className="text-[11px] text-muted-foreground">≈ {formatUSD(b.usd)}</p>}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={claim.isPending}
+                      onClick={() => claim.mutate(b.token)}
+                      data-testid={`button-claim-${b.token}`}
+                    >
+                      {claim.isPending && claim.variables === b.token && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                      Claim
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[11px] text-muted-foreground/70">
+              Read from the Clanker fee locker. Claims are signed by your wallet and pay out to it directly.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 function MyTokenCard({ token }: { token: any }) {
   const { toast } = useToast();
@@ -45,7 +245,9 @@ function MyTokenCard({ token }: { token: any }) {
           <div className="flex-1 min-w-0">
             <div className="flex items-start justify-between gap-2 flex-wrap">
               <div>
-                <h3 className="font-semibold text-foreground">{t.name}</h3>
+                <Link href={tokenPath(t.address)} className="font-semibold text-foreground hover:text-primary transition-colors" data-testid={`link-token-${t.address}`}>
+                  {t.name}
+                </Link>
                 <span className="font-mono text-sm text-muted-foreground">${t.symbol}</span>
               </div>
               <div className="text-right">
@@ -73,7 +275,7 @@ function MyTokenCard({ token }: { token: any }) {
 
               <div className="flex items-center justify-between px-0.5">
                 <p className="text-xs text-muted-foreground">{timeAgo(t.deployDate)}</p>
-                <p className="text-xs text-primary/70">Fee: 90% you · 10% ConwayPad</p>
+                <Link href={tokenPath(t.address)} className="text-xs text-primary/70 hover:underline">Fee split →</Link>
               </div>
             </div>
 
@@ -113,18 +315,59 @@ function MyTokenCard({ token }: { token: any }) {
 function LaunchForm({ wallet, onSuccess }: { wallet: string; onSuccess: () => void }) {
   const { toast } = useToast();
   const [form, setForm] = useState({
-    name: "", symbol: "", description: "", imageUrl: "", websiteUrl: "", twitterUrl: "",
+    name: "", symbol: "", description: "", imageUrl: "",
   });
+  const [socialLinks, setSocialLinks] = useState<SocialLinksForm>(EMPTY_SOCIAL_LINKS);
+  const { links, errors: linkErrors } = parseSocialLinks(socialLinks);
+  const linkError = Object.values(linkErrors)[0] ?? null;
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [splitRows, setSplitRows] = useState<SplitRow[]>([]);
+  const policy = useRewardPolicy();
+  const { splits, error: splitError } = parseSplitRows(splitRows, wallet, policy.creatorBps);
+  const [advanced, setAdvanced] = useState<AdvancedOptionsForm>(EMPTY_ADVANCED_OPTIONS);
+  const { maxDevBuyEth } = useDeployLimits();
+  const { options, error: optionsError } = parseAdvancedOptions(advanced, maxDevBuyEth);
+  // Dry run of the exact payload; any edit afterwards means checking again
+  const [simulation, setSimulation] = useState<{ key: string; result: DeploySimulation } | null>(null);
+
+  const payload = {
+    name: form.name.trim(),
+    symbol: form.symbol.trim().toUpperCase(),
+    tokenAdmin: wallet,
+    description: form.description.trim() || undefined,
+    imageUrl: form.imageUrl.trim() || undefined,
+    ...links,
+    rewardSplits: splits.length > 0 ? splits : undefined,
+    ...options,
+  };
+  const payloadKey = JSON.stringify(payload);
+  const checked = simulation?.key === payloadKey ? simulation.result : null;
+
+  const simulateMutation = useMutation({
+    mutationFn: (data: typeof payload): Promise<DeploySimulation> =>
+      apiRequest("POST", "/api/clanker/deploy/simulate", data).then(r => r.json()),
+    onSuccess: (result, data) => setSimulation({ key: JSON.stringify(data), result }),
+    onError: (err: any) => {
+      toast({ title: "Simulation Failed", description: err?.message || "Could not simulate the deploy.", variant: "destructive" });
+    },
+  });
 
   const deployMutation = useMutation({
-    mutationFn: (data: any) => apiRequest("POST", "/api/clanker/deploy", data),
+    mutationFn: (data: any) => apiRequest("POST", "/api/clanker/deploy", data).then(r => r.json()),
     onSuccess: (result: any) => {
       toast({
-        title: "Token Deployed!",
-        description: `${form.name} (${form.symbol}) deployed. TX: ${String(result?.txHash || "").slice(0, 10)}...`,
+        title: result?.status === "flagged" ? "Held for Review" : "Deployment Submitted",
+        description: result?.status === "flagged"
+          ? `${form.name} (${form.symbol}) needs a moderator's approval before it launches (deployment #${result.deploymentId}).`
+          : result?.txHash
+          ? `${form.name} (${form.symbol}) sent. TX: ${String(result.txHash).slice(0, 10)}...`
+          : `${form.name} (${form.symbol}) queued as deployment #${result?.deploymentId}.`,
       });
-      setForm({ name: "", symbol: "", description: "", imageUrl: "", websiteUrl: "", twitterUrl: "" });
+      setForm({ name: "", symbol: "", description: "", imageUrl: "" });
+      setSocialLinks(EMPTY_SOCIAL_LINKS);
+      setSplitRows([]);
+      setAdvanced(EMPTY_ADVANCED_OPTIONS);
+      setSimulation(null);
       onSuccess();
     },
     onError: (err: any) => {
@@ -142,15 +385,25 @@ function LaunchForm({ wallet, onSuccess }: { wallet: string; onSuccess: () => vo
       toast({ title: "Missing Info", description: "Name and symbol are required.", variant: "destructive" });
       return;
     }
-    deployMutation.mutate({
-      name: form.name.trim(),
-      symbol: form.symbol.trim().toUpperCase(),
-      tokenAdmin: wallet,
-      description: form.description.trim() || undefined,
-      imageUrl: form.imageUrl.trim() || undefined,
-      websiteUrl: form.websiteUrl.trim() || undefined,
-      twitterUrl: form.twitterUrl.trim() || undefined,
-    });
+    if (splitError) {
+      toast({ title: "Check the fee split", description: splitError, variant: "destructive" });
+      return;
+    }
+    if (linkError) {
+      setShowAdvanced(true);
+      toast({ title: "Check the social links", description: linkError, variant: "destructive" });
+      return;
+    }
+    if (optionsError) {
+      setShowAdvanced(true);
+      toast({ title: "Check the advanced options", description: optionsError, variant: "destructive" });
+      return;
+    }
+    if (!checked?.ok) {
+      simulateMutation.mutate(payload);
+      return;
+    }
+    deployMutation.mutate(payload);
   }
 
   return (
@@ -191,6 +444,13 @@ function LaunchForm({ wallet, onSuccess }: { wallet: string; onSuccess: () => vo
             </div>
           </div>
 
+          <div>
+            <Label className="text-xs">Logo</Label>
+            <div className="mt-1">
+              <TokenImagePicker value={form.imageUrl} onChange={imageUrl => setForm(f => ({ ...f, imageUrl }))} />
+            </div>
+          </div>
+
           <div>
             <Label htmlFor="description" className="text-xs">Description</Label>
             <Textarea
@@ -213,58 +473,41 @@ function LaunchForm({ wallet, onSuccess }: { wallet: string; onSuccess: () => vo
 
           {showAdvanced && (
             <div className="space-y-3 pt-1">
-              <div>
-                <Label htmlFor="imageUrl" className="text-xs">Image URL (IPFS or HTTPS)</Label>
-                <Input
-                  id="imageUrl"
-                  placeholder="ipfs://... or https://..."
-                  value={form.imageUrl}
-                  onChange={e => setForm(f => ({ ...f, imageUrl: e.target.value }))}
-                  className="mt-1"
-                  data-testid="input-image-url"
-                />
-              </div>
-              <div>
-                <Label htmlFor="websiteUrl" className="text-xs">Website URL</Label>
-                <Input
-                  id="websiteUrl"
-                  placeholder="https://..."
-                  value={form.websiteUrl}
-                  onChange={e => setForm(f => ({ ...f, websiteUrl: e.target.value }))}
-                  className="mt-1"
-                  data-testid="input-website-url"
-                />
-              </div>
-              <div>
-                <Label htmlFor="twitterUrl" className="text-xs">X URL</Label>
-                <Input
-                  id="twitterUrl"
-                  placeholder="https://x.com/..."
-                  value={form.twitterUrl}
-                  onChange={e => setForm(f => ({ ...f, twitterUrl: e.target.value }))}
-                  className="mt-1"
-                  data-testid="input-twitter-url"
-                />
-              </div>
+              <SocialLinkFields value={socialLinks} onChange={setSocialLinks} />
+              <AdvancedDeployOptions value={advanced} onChange={setAdvanced} />
             </div>
           )}
 
+          <RewardSplitsEditor rows={splitRows} onChange={setSplitRows} tokenAdmin={wallet} />
+
           <div className="p-3 rounded-md bg-muted/30 text-xs text-muted-foreground space-y-1">
             <p><span className="font-medium">Token Admin:</span> <span className="font-mono">{truncateAddress(wallet)}</span></p>
-            <p><span className="font-medium">Fee Split:</span> 90% to you · 10% to ConwayPad</p>
+            <p>
+              <span className="font-medium">Fee Split:</span> {(policy.creatorBps - splits.reduce((sum, s) => sum + s.bps, 0)) / 100}% to you
+              {splits.map(s => ` · ${s.bps / 100}% to ${s.label || truncateAddress(s.recipient)}`).join("")}
+              {policy.platformBps > 0 && ` · ${policy.platformBps / 100}% to ConwayPad`}
+            </p>
             <p>Liquidity is permanently locked on Uniswap V3 on Base.</p>
           </div>
 
+          {checked && <DeploySimulationSummary simulation={checked} />}
+
           <Button
             type="submit"
             className="w-full gap-2"
-            disabled={deployMutation.isPending}
+            disabled={deployMutation.isPending || simulateMutation.isPending || !!splitError || !!linkError || !!optionsError}
             data-testid="button-deploy-token"
           >
             {deployMutation.isPending ? (
               <><Loader2 className="w-4 h-4 animate-spin" /> Deploying...</>
+            ) : simulateMutation.isPending ? (
+              <><Loader2 className="w-4 h-4 animate-spin" /> Simulating...</>
+            ) : checked?.ok ? (
+              <><Rocket className="w-4 h-4" /> Confirm Launch</>
+            ) : checked ? (
+              <><Rocket className="w-4 h-4" /> Check Again</>
             ) : (
-              <><Rocket className="w-4 h-4" /> Launch Token</>
+              <><Rocket className="w-4 h-4" /> Check &amp; Launch</>
             )}
           </Button>
         </form>
@@ -275,11 +518,12 @@ function LaunchForm({ wallet, onSuccess }: { wallet: string; onSuccess: () => vo
 
 export default function MyLaunches() {
   const { toast } = useToast();
-  const [wallet, setWalletState] = useState(getUserWallet());
-  const [walletInput, setWalletInput] = useState(getUserWallet());
+  const { wallet: signedInWallet, isLoading: authLoading, signIn } = useAuth();
   const [showLaunchForm, setShowLaunchForm] = useState(false);
 
-  const isValidWallet = wallet.startsWith("0x") && wallet.length === 42;
+  // Only a wallet proven via SIWE can see and launch here
+  const wallet = signedInWallet ?? "";
+  const isValidWallet = !!signedInWallet;
 
   const { data, isLoading, refetch } = useQuery({
     queryKey: ["/api/conway/my-tokens", wallet],
@@ -290,16 +534,11 @@ export default function MyLaunches() {
   const rawTokens: any[] = data?.tokens || [];
   const tokens = rawTokens.map(normalizeToken);
 
-  function handleSaveWallet() {
-    const w = walletInput.trim();
-    if (w.startsWith("0x") && w.length === 42) {
-      setUserWallet(w);
-      setWalletState(w);
-      window.dispatchEvent(new Event("walletUpdated"));
-      toast({ title: "Wallet saved", description: truncateAddress(w) });
-    } else {
-      toast({ title: "Invalid address", description: "Please enter a valid 0x wallet address.", variant: "destructive" });
-    }
+  function handleSignIn() {
+    signIn.mutate(undefined, {
+      onSuccess: (user) => toast({ title: "Signed in", description: truncateAddress(user.wallet) }),
+      onError: (err: any) => toast({ title: "Sign-in failed", description: err?.message, variant: "destructive" }),
+    });
   }
 
   return (
@@ -322,39 +561,45 @@ export default function MyLaunches() {
           )}
         </div>
 
-        {/* Wallet Setup */}
+        {/* Signed-in wallet */}
         <Card>
           <CardContent className="p-4">
-            <div className="flex gap-3 items-center flex-wrap">
-              <div className="relative flex-1 min-w-64">
-                <Wallet className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  placeholder="Your wallet address (0x...)"
-                  value={walletInput}
-                  onChange={(e) => setWalletInput(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && handleSaveWallet()}
-                  className="pl-9 font-mono text-sm"
-                  data-testid="input-my-wallet"
-                />
-              </div>
-              <Button onClick={handleSaveWallet} variant="outline" data-testid="button-save-wallet">
-                {isValidWallet ? <CheckCircle className="w-4 h-4 mr-1 text-green-400" /> : null}
-                Save Wallet
-              </Button>
-            </div>
-            {isValidWallet && (
-              <p className="text-xs text-muted-foreground mt-2">
+            {isValidWallet ? (
+              <p className="text-xs text-muted-foreground flex items-center gap-2">
+                <CheckCircle className="w-4 h-4 text-green-400" />
                 Showing tokens launched by <span className="font-mono">{truncateAddress(wallet)}</span> via ConwayPad
               </p>
+            ) : (
+              <div className="flex gap-3 items-center flex-wrap">
+                <Wallet className="w-4 h-4 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground flex-1 min-w-48">
+                  Sign in with your wallet to prove ownership before launching.
+                </p>
+                <Button onClick={handleSignIn} disabled={signIn.isPending || authLoading} data-testid="button-my-launches-sign-in">
+                  {signIn.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  Sign In With Ethereum
+                </Button>
+              </div>
             )}
           </CardContent>
         </Card>
 
         {/* Launch Form */}
         {showLaunchForm && isValidWallet && (
-          <LaunchForm wallet={wallet} onSuccess={() => { setShowLaunchForm(false); setTimeout(() => refetch(), 5000); }} />
+          <LaunchForm
+            wallet={wallet}
+            onSuccess={() => {
+              setShowLaunchForm(false);
+              queryClient.invalidateQueries({ queryKey: ["/api/deployments", wallet] });
+              setTimeout(() => refetch(), 5000);
+            }}
+          />
         )}
 
+        {isValidWallet && <DeploymentList wallet={wallet} />}
+
+        {isValidWallet && <RewardsCard wallet={wallet} />}
+
         {/* Token List */}
         {isValidWallet ? (
           <>
@@ -408,8 +653,8 @@ export default function MyLaunches() {
         ) : (
           <div className="flex flex-col items-center justify-center py-20 text-center text-muted-foreground">
             <Wallet className="w-12 h-12 mb-4 opacity-30" />
-            <p className="font-medium">Set your wallet to get started</p>
-            <p className="text-sm mt-1 opacity-70">Enter your wallet address above to view and manage your launches</p>
+            <p className="font-medium">Sign in to get started</p>
+            <p className="text-sm mt-1 opacity-70">Sign a message with your wallet to view and manage your launches</p>
           </div>
         )}
       </div>
@@ -0,0 +1,256 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ArrowLeft, BarChart3, Coins, Copy, ExternalLink, Globe, Link2, TrendingUp, Users,
+} from "lucide-react";
+import { PriceChart } from "@/components/price-chart";
+import {
+  truncateAddress, formatUSD, timeAgo, getStatusBg,
+  basescanToken, basescanTx, dexscreenerLink, uniswapLink, clankerLink, normalizeToken, creatorPath,
+} from "@/lib/conway";
+import { useToast } from "@/hooks/use-toast";
+import { SOCIAL_PLATFORM_LABELS, SOCIAL_PLATFORMS, type SocialPlatform } from "@shared/social-links";
+
+interface TokenDetail {
+  rewards: { role: "creator" | "split" | "platform"; recipient: string; bps: number; label?: string }[];
+  deployment: { id: number; status: string; txHash: string | null; blockNumber: number | null; createdAt: string } | null;
+  [key: string]: any;
+}
+
+// Clanker stores metadata either as an object or as a JSON string
+function readSocials(metadata: unknown): { platform: string; url: string }[] {
+  let meta: any = metadata;
+  if (typeof meta === "string") {
+    try { meta = JSON.parse(meta); } catch { return []; }
+  }
+  const urls = meta?.socialMediaUrls;
+  return Array.isArray(urls) ? urls.filter((s: any) => typeof s?.url === "string" && s.url) : [];
+}
+
+function socialLabel(platform: string): string {
+  return (SOCIAL_PLATFORMS as readonly string[]).includes(platform) ? SOCIAL_PLATFORM_LABELS[platform as SocialPlatform] : platform || "link";
+}
+
+function Stat({ label, value, className = "" }: { label: string; value: React.ReactNode; className?: string }) {
+  return (
+    <div className="p-3 rounded-md bg-muted/30">
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      <p className={`text-sm font-semibold text-foreground ${className}`}>{value}</p>
+    </div>
+  );
+}
+
+function AddressRow({ label, address, href }: { label: string; address: string; href?: string }) {
+  const { toast } = useToast();
+  return (
+    <div className="flex items-center justify-between gap-2 p-3 rounded-md bg-muted/50">
+      <div className="min-w-0">
+        <p className="text-xs text-muted-foreground mb-0.5">{label}</p>
+        <p className="text-xs font-mono text-foreground break-all">{address}</p>
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Copy"
+          onClick={() => { navigator.clipboard.writeText(address); toast({ title: "Copied!", description: `${label} copied to clipboard.` }); }}
+        >
+          <Copy className="w-3.5 h-3.5" />
+        </Button>
+        {href && (
+          <a href={href} target="_blank" rel="noopener noreferrer">
+            <Button size="icon" variant="ghost" className="h-7 w-7" title="Basescan">
+              <ExternalLink className="w-3.5 h-3.5" />
+            </Button>
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TokenDetailPage() {
+  const { address = "" } = useParams<{ address: string }>();
+  const { data, isLoading, error } = useQuery<TokenDetail>({
+    queryKey: ["/api/tokens", address.toLowerCase()],
+    staleTime: 30000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto space-y-4">
+        <Skeleton className="h-16 w-72" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 text-center p-6">
+        <Coins className="w-10 h-10 text-muted-foreground/50" />
+        <p className="text-sm font-medium text-muted-foreground">
+          {(error as Error)?.message?.startsWith("404") ? "This token isn't a ConwayPad launch" : "Couldn't load this token"}
+        </p>
+        <p className="text-xs font-mono text-muted-foreground/70">{address}</p>
+        <Link href="/tokens">
+          <Button variant="outline" size="sm" className="gap-1.5"><ArrowLeft className="w-3.5 h-3.5" /> Token Explorer</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const t = normalizeToken(data);
+  const socials = readSocials(data.metadata);
+  const txHash = data.tx_hash || data.deployment?.txHash;
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-6 max-w-5xl mx-auto space-y-5">
+        <Link href="/tokens">
+          <Button variant="ghost" size="sm" className="gap-1.5 -ml-2 text-muted-foreground" data-testid="button-back-explorer">
+            <ArrowLeft className="w-3.5 h-3.5" /> Token Explorer
+          </Button>
+        </Link>
+
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          {t.imgUrl ? (
+            <img src={t.imgUrl} alt={t.name} className="w-14 h-14 rounded-lg object-cover" onError={(e) => { (e.target as any).style.display = 'none'; }} />
+          ) : (
+            <div className="w-14 h-14 rounded-lg bg-primary/10 flex items-center justify-center">
+              <span className="text-lg font-bold text-primary">{t.symbol.slice(0, 2)}</span>
+            </div>
+          )}
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-foreground truncate">{t.name}</h1>
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-sm text-muted-foreground">${t.symbol}</span>
+              <span className="text-xs text-muted-foreground">· {timeAgo(t.deployDate)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-5 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-5">
+            {/* Market */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2"><BarChart3 className="w-4 h-4 text-primary" /> Market</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <Stat label="Market Cap" value={t.marketCap > 0 ? formatUSD(t.marketCap) : "—"} />
+                  <Stat label="Price" value={t.price > 0 ? `$${Number(t.price).toPrecision(4)}` : "—"} />
+                  <Stat
+                    label="24h Change"
+                    value={`${t.priceChange24h >= 0 ? "+" : ""}${Number(t.priceChange24h).toFixed(2)}%`}
+                    className={t.priceChange24h >= 0 ? "text-green-400" : "text-red-400"}
+                  />
+                  <Stat label="24h Volume" value={t.volume24h > 0 ? formatUSD(t.volume24h) : "—"} />
+                </div>
+                <PriceChart address={t.address} />
+              </CardContent>
+            </Card>
+
+            {/* About */}
+            {(t.description || socials.length > 0) && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm flex items-center gap-2"><Globe className="w-4 h-4 text-primary" /> About</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {t.description && <p className="text-sm text-foreground whitespace-pre-line">{t.description}</p>}
+                  {socials.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {socials.map(s => (
+                        <a key={s.url} href={s.url} target="_blank" rel="noopener noreferrer">
+                          <Button size="sm" variant="outline" className="gap-1.5 capitalize">
+                            <Link2 className="w-3.5 h-3.5" /> {socialLabel(s.platform)}
+                          </Button>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-5">
+            {/* Admin & rewards */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2"><Users className="w-4 h-4 text-primary" /> Admin & Rewards</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <AddressRow label="Contract" address={t.address} href={basescanToken(t.address)} />
+                {data.admin && (
+                  <>
+                    <AddressRow label="Token Admin (Creator)" address={data.admin} href={`https://basescan.org/address/${data.admin}`} />
+                    <Link href={creatorPath(data.admin)} className="text-xs text-primary hover:underline" data-testid="link-creator-profile">
+                      View creator profile →
+                    </Link>
+                  </>
+                )}
+                <div className="pt-1 space-y-1.5">
+                  <p className="text-xs text-muted-foreground">LP fee recipients</p>
+                  {data.rewards.map(r => (
+                    <div key={`${r.role}-${r.recipient}`} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="font-mono text-foreground">{truncateAddress(r.recipient)}</span>
+                      <span className="text-muted-foreground">
+                        {r.role === "platform" ? "ConwayPad" : r.role === "creator" ? "Creator" : r.label || "Split"} · <span className="text-foreground font-medium">{r.bps / 100}%</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Deployment */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2"><Coins className="w-4 h-4 text-primary" /> Deployment</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-xs">
+                {t.deployDate && (
+                  <p className="text-muted-foreground">Deployed {new Date(t.deployDate).toLocaleString()}</p>
+                )}
+                {txHash && (
+                  <a href={basescanTx(txHash)} target="_blank" rel="noopener noreferrer"
+                     className="flex items-center gap-1.5 font-mono text-primary hover:underline" data-testid="link-deploy-tx">
+                    {truncateAddress(txHash, 10, 8)} <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+                {data.deployment && (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={`text-[10px] ${getStatusBg(data.deployment.status)}`}>{data.deployment.status}</Badge>
+                    {data.deployment.blockNumber && <span className="text-muted-foreground">block {data.deployment.blockNumber}</span>}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex flex-wrap gap-2">
+              <a href={clankerLink(t.address)} target="_blank" rel="noopener noreferrer">
+                <Button size="sm" variant="outline" className="gap-1.5"><ExternalLink className="w-3.5 h-3.5" /> Clanker</Button>
+              </a>
+              <a href={dexscreenerLink(t.address)} target="_blank" rel="noopener noreferrer">
+                <Button size="sm" variant="outline" className="gap-1.5"><BarChart3 className="w-3.5 h-3.5" /> DexScreener</Button>
+              </a>
+              <a href={uniswapLink(t.address)} target="_blank" rel="noopener noreferrer">
+                <Button size="sm" variant="outline" className="gap-1.5"><TrendingUp className="w-3.5 h-3.5" /> Uniswap</Button>
+              </a>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,26 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
-  Coins, Search, ExternalLink, X, ChevronLeft, ChevronRight, TrendingUp, DollarSign, BarChart3,
+  Coins, Search, ExternalLink, X, ChevronDown, ArrowDown, ArrowUp, TrendingUp, DollarSign, BarChart3,
 } from "lucide-react";
 import {
   truncateAddress, formatUSD, timeAgo,
-  basescanToken, dexscreenerLink, uniswapLink, normalizeToken, clankerLink,
+  basescanToken, dexscreenerLink, uniswapLink, normalizeToken, clankerLink, tokenPath,
 } from "@/lib/conway";
+import { PriceChart } from "@/components/price-chart";
+import { useRewardPolicy } from "@/hooks/use-reward-policy";
+import { TOKEN_SORTS, type TokenSort } from "@shared/schema";
 
 function TokenDetailPanel({ token, onClose }: { token: any; onClose: () => void }) {
   const t = normalizeToken(token);
+  const policy = useRewardPolicy();
 
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-4 bg-background/80 backdrop-blur-sm">
@@ -76,6 +82,8 @@ function TokenDetailPanel({ token, onClose }: { token: any; onClose: () => void
             </div>
           )}
 
+          {t.address && <PriceChart address={t.address} />}
+
           {/* Token Admin (creator) */}
           {(token.admin || token.tokenAdmin) && (
             <div className="p-3 rounded-md bg-muted/50">
@@ -93,11 +101,17 @@ function TokenDetailPanel({ token, onClose }: { token: any; onClose: () => void
 
           <div className="p-3 rounded-md bg-primary/5 border border-primary/10">
             <p className="text-xs text-muted-foreground mb-1">Fee Distribution</p>
-            <p className="text-xs text-foreground">90% creator · 10% ConwayPad</p>
+            <p className="text-xs text-foreground">{policy.creatorBps / 100}% creator · {policy.platformBps / 100}% ConwayPad</p>
           </div>
 
           {t.address && (
             <div className="flex flex-wrap gap-2">
+              <Link href={tokenPath(t.address)}>
+                <Button size="sm" className="gap-1.5" data-testid="button-open-token-page">
+                  <Coins className="w-3.5 h-3.5" />
+                  Full page
+                </Button>
+              </Link>
               <a href={clankerLink(t.address)} target="_blank" rel="noopener noreferrer">
                 <Button size="sm" variant="outline" className="gap-1.5">
                   <ExternalLink className="w-3.5 h-3.5" />
@@ -130,33 +144,99 @@ function TokenDetailPanel({ token, onClose }: { token: any; onClose: () => void
   );
 }
 
+type ExplorerFilters = {
+  q: string;
+  sort: TokenSort;
+  order: "asc" | "desc";
+  admin: string;
+  from: string;
+  to: string;
+  minMarketCap: string;
+};
+
+const SORT_LABELS: Record<TokenSort, string> = {
+  deployedAt: "Deploy date",
+  marketCap: "Market cap",
+  volume24h: "24h volume",
+  priceChange24h: "24h change",
+};
+
+const DEFAULT_FILTERS: ExplorerFilters = {
+  q: "", sort: "deployedAt", order: "desc", admin: "", from: "", to: "", minMarketCap: "",
+};
+
+// Explorer state lives in the URL query so searches can be shared and survive reloads
+function readFilters(search: string): ExplorerFilters {
+  const params = new URLSearchParams(search);
+  const sort = params.get("sort") as TokenSort;
+  return {
+    q: params.get("q") || "",
+    sort: TOKEN_SORTS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+    order: params.get("order") === "asc" ? "asc" : "desc",
+    admin: params.get("admin") || "",
+    from: params.get("from") || "",
+    to: params.get("to") || "",
+    minMarketCap: params.get("minMarketCap") || "",
+  };
+}
+
+function filtersToQuery(filters: ExplorerFilters): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters) as [keyof ExplorerFilters, string][]) {
+    if (value && value !== DEFAULT_FILTERS[key]) params.set(key, value);
+  }
+  return params.toString();
+}
+
 export default function TokenExplorer() {
-  const [search, setSearch] = useState("");
-  const [page, setPage] = useState(1);
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const filters = readFilters(search);
+  const query = filtersToQuery(filters);
+  const [searchInput, setSearchInput] = useState(filters.q);
   const [selectedToken, setSelectedToken] = useState<any | null>(null);
   const limit = 20;
 
-  const { data, isLoading } = useQuery({
-    queryKey: ["/api/conway/tokens", page],
-    queryFn: () => {
-      const cursor = page > 1 ? `&cursor=${(page - 1) * limit}` : "";
-      return fetch(`/api/conway/tokens?limit=${limit}${cursor}`).then(r => r.json());
+  const setFilters = (patch: Partial<ExplorerFilters>) => {
+    const next = filtersToQuery({ ...filters, ...patch });
+    navigate(next ? `/tokens?${next}` : "/tokens", { replace: true });
+  };
+
+  // Debounce typing into the URL (and so into the query key)
+  useEffect(() => {
+    if (searchInput.trim() === filters.q) return;
+    const timer = setTimeout(() => setFilters({ q: searchInput.trim() }), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, search]);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/tokens", query],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(query);
+      params.set("limit", String(limit));
+      // Half-typed addresses stay in the box without erroring the list
+      if (!/^0x[a-fA-F0-9]{40}$/.test(filters.admin)) params.delete("admin");
+      if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await fetch(`/api/tokens?${params}`);
+      const body = await res.json();
+      // First index pass still running: the plain list is served meanwhile, searches wait for it
+      if (res.status === 503 && body.indexing) return { tokens: [], total: 0, hasMore: false, cursor: null, indexing: true, waiting: true };
+      if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Invalid filters");
+      return body as { tokens: any[]; total: number; hasMore: boolean; cursor: string | null; indexing?: boolean; waiting?: boolean };
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (last) => last.cursor,
     staleTime: 30000,
+    refetchInterval: (q) => q.state.data?.pages[0]?.indexing ? 10000 : false,
   });
 
-  const rawTokens: any[] = data?.tokens || [];
-  const total = data?.total || 0;
-  const totalPages = Math.ceil(total / limit);
-
-  // Client-side search filter
-  const filtered = search.trim()
-    ? rawTokens.filter(t =>
-        (t.name || "").toLowerCase().includes(search.toLowerCase()) ||
-        (t.symbol || "").toLowerCase().includes(search.toLowerCase()) ||
-        (t.contract_address || "").toLowerCase().includes(search.toLowerCase())
-      )
-    : rawTokens;
+  const tokens = data?.pages.flatMap(p => p.tokens) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const indexing = data?.pages[0]?.indexing ?? false;
+  const waiting = data?.pages[0]?.waiting ?? false;
+  const hasFilters = Boolean(filters.q || filters.admin || filters.from || filters.to || filters.minMarketCap);
 
   return (
     <div className="h-full overflow-y-auto">
@@ -165,23 +245,93 @@ export default function TokenExplorer() {
           <h1 className="text-2xl font-bold text-foreground">Token Explorer</h1>
           <p className="text-sm text-muted-foreground mt-0.5">
             All tokens deployed via ConwayPad on Base
-            {total > 0 && <span className="ml-1">({total.toLocaleString()} total)</span>}
+            {total > 0 && <span className="ml-1">({total.toLocaleString()} {hasFilters ? "matching" : "total"})</span>}
           </p>
+          {indexing && (
+            <p className="text-xs text-muted-foreground/70 mt-1" data-testid="text-indexing">
+              Indexing tokens… search, sorting and filters open up once it finishes.
+            </p>
+          )}
         </div>
 
-        {/* Search */}
+        {/* Search, sort & filters */}
         <Card>
-          <CardContent className="p-4">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <CardContent className="p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search name, symbol, or address..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-9"
+                  data-testid="input-search-token"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Select value={filters.sort} onValueChange={(sort) => setFilters({ sort: sort as TokenSort })}>
+                  <SelectTrigger className="w-40" data-testid="select-sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TOKEN_SORTS.map(sort => (
+                      <SelectItem key={sort} value={sort}>{SORT_LABELS[sort]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setFilters({ order: filters.order === "desc" ? "asc" : "desc" })}
+                  title={filters.order === "desc" ? "Descending" : "Ascending"}
+                  data-testid="button-sort-order"
+                >
+                  {filters.order === "desc" ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
               <Input
-                placeholder="Filter by name, symbol, or address..."
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-                className="pl-9"
-                data-testid="input-search-token"
+                placeholder="Creator wallet 0x..."
+                value={filters.admin}
+                onChange={(e) => setFilters({ admin: e.target.value.trim() })}
+                className="font-mono text-xs col-span-2 md:col-span-1"
+                data-testid="input-filter-admin"
+              />
+              <Input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ from: e.target.value })}
+                title="Deployed from"
+                data-testid="input-filter-from"
+              />
+              <Input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ to: e.target.value })}
+                title="Deployed until"
+                data-testid="input-filter-to"
+              />
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min market cap ($)"
+                value={filters.minMarketCap}
+                onChange={(e) => setFilters({ minMarketCap: e.target.value })}
+                data-testid="input-filter-mcap"
               />
             </div>
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1.5 text-muted-foreground"
+                onClick={() => { setSearchInput(""); setFilters({ q: "", admin: "", from: "", to: "", minMarketCap: "" }); }}
+                data-testid="button-clear-filters"
+              >
+                <X className="w-3.5 h-3.5" /> Clear filters
+              </Button>
+            )}
           </CardContent>
         </Card>
 
@@ -201,19 +351,30 @@ export default function TokenExplorer() {
                   </div>
                 ))}
               </div>
-            ) : filtered.length === 0 ? (
+            ) : error ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <Coins className="w-10 h-10 text-muted-foreground/50 mb-3" />
+                <p className="text-sm font-medium text-muted-foreground">{(error as Error).message}</p>
+              </div>
+            ) : waiting ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <Coins className="w-10 h-10 text-muted-foreground/50 mb-3 animate-pulse" />
+                <p className="text-sm font-medium text-muted-foreground">Indexing tokens…</p>
+                <p className="text-xs text-muted-foreground/70 mt-1">Results for this search show up here as soon as the index is ready</p>
+              </div>
+            ) : tokens.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-16 text-center">
                 <Coins className="w-10 h-10 text-muted-foreground/50 mb-3" />
                 <p className="text-sm font-medium text-muted-foreground">
-                  {search ? "No tokens match your search" : "No tokens deployed yet"}
+                  {hasFilters ? "No tokens match these filters" : "No tokens deployed yet"}
                 </p>
                 <p className="text-xs text-muted-foreground/70 mt-1">
-                  {search ? "Try a different keyword" : "Launch your first token via My Launches"}
+                  {hasFilters ? "Try a different keyword or widen the filters" : "Launch your first token via My Launches"}
                 </p>
               </div>
             ) : (
               <div className="divide-y divide-border/50">
-                {filtered.map((token: any) => {
+                {tokens.map((token: any) => {
                   const t = normalizeToken(token);
                   return (
                     <button
@@ -261,17 +422,12 @@ export default function TokenExplorer() {
         </Card>
 
         {/* Pagination */}
-        {totalPages > 1 && (
+        {hasNextPage && (
           <div className="flex items-center justify-between">
-            <p className="text-sm text-muted-foreground">Page {page} of {totalPages}</p>
-            <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm" onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} data-testid="button-prev-page">
-                <ChevronLeft className="w-4 h-4" /> Prev
-              </Button>
-              <Button variant="outline" size="sm" onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page >= totalPages} data-testid="button-next-page">
-                Next <ChevronRight className="w-4 h-4" />
-              </Button>
-            </div>
+            <p className="text-sm text-muted-foreground">Showing {tokens.length} of {total.toLocaleString()}</p>
+            <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage} data-testid="button-load-more">
+              {isFetchingNextPage ? "Loading..." : "Load more"} <ChevronDown className="w-4 h-4" />
+            </Button>
           </div>
         )}
       </div>
@@ -1,20 +1,219 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
-  Search, Wallet, Coins, TrendingUp, ExternalLink, BarChart3,
+  Search, Wallet, Coins, TrendingUp, ExternalLink, BarChart3, Bookmark, Pencil, Trash2, Eye, User,
 } from "lucide-react";
 import {
   truncateAddress, formatUSD, timeAgo,
-  dexscreenerLink, normalizeToken, clankerLink,
+  dexscreenerLink, normalizeToken, clankerLink, tokenPath, creatorPath,
 } from "@/lib/conway";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { TrackedWallet } from "@shared/schema";
+
+interface WalletFormValues {
+  label: string;
+  notes: string;
+  tags: string;   // comma separated in the form
+}
+
+function toPayload(values: WalletFormValues) {
+  return {
+    label: values.label.trim() || null,
+    notes: values.notes.trim() || null,
+    tags: Array.from(new Set(values.tags.split(",").map(t => t.trim().toLowerCase()).filter(Boolean))),
+  };
+}
+
+function WalletForm({ initial, submitLabel, pending, onSubmit, onCancel }: {
+  initial?: TrackedWallet;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (values: WalletFormValues) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState<WalletFormValues>({
+    label: initial?.label ?? "",
+    notes: initial?.notes ?? "",
+    tags: initial?.tags.join(", ") ?? "",
+  });
+
+  return (
+    <form
+      onSubmit={e => { e.preventDefault(); onSubmit(values); }}
+      className="space-y-2.5 rounded-lg border border-border/60 bg-muted/20 p-3"
+    >
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs text-muted-foreground">Label</Label>
+          <Input
+            value={values.label}
+            onChange={e => setValues(v => ({ ...v, label: e.target.value }))}
+            placeholder="e.g. Whale #1"
+            maxLength={50}
+            className="mt-0.5 h-8 text-sm"
+            data-testid="input-tracked-label"
+          />
+        </div>
+        <div>
+          <Label className="text-xs text-muted-foreground">Tags (comma separated)</Label>
+          <Input
+            value={values.tags}
+            onChange={e => setValues(v => ({ ...v, tags: e.target.value }))}
+            placeholder="whale, dev, watchlist"
+            className="mt-0.5 h-8 text-sm"
+            data-testid="input-tracked-tags"
+          />
+        </div>
+      </div>
+      <div>
+        <Label className="text-xs text-muted-foreground">Notes</Label>
+        <Textarea
+          value={values.notes}
+          onChange={e => setValues(v => ({ ...v, notes: e.target.value }))}
+          placeholder="Anything worth remembering about this wallet"
+          maxLength={2000}
+          className="mt-0.5 min-h-[60px] text-sm"
+          data-testid="input-tracked-notes"
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" size="sm" disabled={pending} data-testid="button-submit-tracked-wallet">{submitLabel}</Button>
+      </div>
+    </form>
+  );
+}
+
+function SavedWallets({ wallets, isLoading, activeWallet, onSelect }: {
+  wallets: TrackedWallet[];
+  isLoading: boolean;
+  activeWallet: string;
+  onSelect: (address: string) => void;
+}) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, values }: { id: number; values: WalletFormValues }) =>
+      apiRequest("PATCH", `/api/tracked-wallets/${id}`, toPayload(values)).then(r => r.json()),
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/tracked-wallets"] });
+    },
+    onError: (err: any) => toast({ title: "Update failed", description: err?.message, variant: "destructive" }),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/tracked-wallets/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/tracked-wallets"] }),
+    onError: (err: any) => toast({ title: "Remove failed", description: err?.message, variant: "destructive" }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Bookmark className="w-4 h-4 text-primary" />
+          Saved Wallets
+          {wallets.length > 0 && <span className="text-xs font-normal text-muted-foreground">({wallets.length})</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-4 space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : wallets.length === 0 ? (
+          <p className="text-sm text-muted-foreground px-4 pb-4">
+            No saved wallets yet — search for one and press <span className="font-medium text-foreground">Save</span>.
+          </p>
+        ) : (
+          <div className="divide-y divide-border/50">
+            {wallets.map(w => (
+              <div
+                key={w.id}
+                className={`px-4 py-3 space-y-2 ${w.walletAddress === activeWallet.toLowerCase() ? "bg-primary/5" : ""}`}
+                data-testid={`tracked-wallet-${w.id}`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm text-foreground">{w.label || truncateAddress(w.walletAddress)}</span>
+                      {w.label && <span className="text-xs font-mono text-muted-foreground">{truncateAddress(w.walletAddress)}</span>}
+                      {w.tags.map(tag => (
+                        <Badge key={tag} variant="outline" className="text-[10px] px-1.5 py-0">{tag}</Badge>
+                      ))}
+                    </div>
+                    {w.notes && editingId !== w.id && (
+                      <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2 whitespace-pre-wrap">{w.notes}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" title="View tokens" onClick={() => onSelect(w.walletAddress)}>
+                      <Eye className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" title="Edit"
+                      onClick={() => setEditingId(editingId === w.id ? null : w.id)}>
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7 hover:text-red-400" title="Remove"
+                      disabled={removeMutation.isPending} onClick={() => removeMutation.mutate(w.id)}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </div>
+                {editingId === w.id && (
+                  <WalletForm
+                    initial={w}
+                    submitLabel="Save Changes"
+                    pending={updateMutation.isPending}
+                    onSubmit={values => updateMutation.mutate({ id: w.id, values })}
+                    onCancel={() => setEditingId(null)}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function WalletTracker() {
+  const { toast } = useToast();
+  const { wallet: signedInWallet } = useAuth();
   const [walletInput, setWalletInput] = useState("");
   const [activeWallet, setActiveWallet] = useState("");
+  const [showSaveForm, setShowSaveForm] = useState(false);
+
+  // Saved lists belong to the signed-in user
+  const { data: savedWallets = [], isLoading: savedLoading } = useQuery<TrackedWallet[]>({
+    queryKey: ["/api/tracked-wallets"],
+    enabled: !!signedInWallet,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (values: WalletFormValues) =>
+      apiRequest("POST", "/api/tracked-wallets", { walletAddress: activeWallet, ...toPayload(values) }).then(r => r.json()),
+    onSuccess: () => {
+      setShowSaveForm(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/tracked-wallets"] });
+      toast({ title: "Wallet saved", description: truncateAddress(activeWallet) });
+    },
+    onError: (err: any) => toast({ title: "Save failed", description: err?.message, variant: "destructive" }),
+  });
 
   const isValidWallet = activeWallet.startsWith("0x") && activeWallet.length === 42;
 
@@ -30,13 +229,22 @@ export default function WalletTracker() {
   const totalTokens = data?.total || tokens.length;
   const totalMarketCap = tokens.reduce((sum, t) => sum + (t.marketCap || 0), 0);
 
+  const isSaved = savedWallets.some(w => w.walletAddress === activeWallet.toLowerCase());
+
   function handleSearch() {
     const w = walletInput.trim();
     if (w.startsWith("0x") && w.length === 42) {
       setActiveWallet(w);
+      setShowSaveForm(false);
     }
   }
 
+  function selectSaved(address: string) {
+    setWalletInput(address);
+    setActiveWallet(address);
+    setShowSaveForm(false);
+  }
+
   return (
     <div className="h-full overflow-y-auto">
       <div className="p-6 max-w-5xl mx-auto space-y-5">
@@ -63,10 +271,37 @@ export default function WalletTracker() {
               <Button onClick={handleSearch} data-testid="button-search-wallet">
                 <Search className="w-4 h-4 mr-1" /> Search
               </Button>
+              {signedInWallet && isValidWallet && !isSaved && (
+                <Button variant="outline" onClick={() => setShowSaveForm(!showSaveForm)} data-testid="button-save-tracked-wallet">
+                  <Bookmark className="w-4 h-4 mr-1" /> Save
+                </Button>
+              )}
             </div>
+            {showSaveForm && (
+              <div className="mt-3">
+                <WalletForm
+                  submitLabel="Save Wallet"
+                  pending={saveMutation.isPending}
+                  onSubmit={values => saveMutation.mutate(values)}
+                  onCancel={() => setShowSaveForm(false)}
+                />
+              </div>
+            )}
+            {!signedInWallet && (
+              <p className="text-xs text-muted-foreground mt-2">Sign in with your wallet to save wallets with labels, notes and tags.</p>
+            )}
           </CardContent>
         </Card>
 
+        {signedInWallet && (
+          <SavedWallets
+            wallets={savedWallets}
+            isLoading={savedLoading}
+            activeWallet={activeWallet}
+            onSelect={selectSaved}
+          />
+        )}
+
         {/* Results */}
         {isValidWallet && (
           <>
@@ -99,6 +334,11 @@ export default function WalletTracker() {
                     className="text-xs text-primary hover:underline flex items-center gap-1 mt-1">
                     <ExternalLink className="w-3 h-3" /> Basescan
                   </a>
+                  {tokens.length > 0 && (
+                    <Link href={creatorPath(activeWallet)} className="text-xs text-primary hover:underline flex items-center gap-1 mt-1" data-testid="link-creator-profile">
+                      <User className="w-3 h-3" /> Creator profile
+                    </Link>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -142,7 +382,9 @@ export default function WalletTracker() {
                         )}
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 flex-wrap">
-                            <span className="font-medium text-sm text-foreground">{token.name}</span>
+                            <Link href={tokenPath(token.address)} className="font-medium text-sm text-foreground hover:text-primary transition-colors">
+                              {token.name}
+                            </Link>
                             <span className="text-xs font-mono text-muted-foreground">{token.symbol}</span>
                           </div>
                           <div className="flex items-center gap-3 mt-0.5">
@@ -0,0 +1,141 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import { randomBytes } from "node:crypto";
+import { generateSiweNonce, parseSiweMessage } from "viem/siwe";
+import { base } from "viem/chains";
+import { pool, storage } from "./storage";
+import { getPublicClient } from "./wallet";
+
+// ─── Sign-In With Ethereum ────────────────────────────────────────────────────
+// GET  /api/auth/nonce  → single-use nonce stored in the session
+// POST /api/auth/verify → { message, signature }; the EIP-4361 message must carry that
+//                         nonce, this host as domain and Base as chain. On success the
+//                         session is regenerated and bound to the users row for the wallet.
+// Sessions live in Postgres (user_sessions) via connect-pg-simple.
+// Admins are the wallets listed in ADMIN_WALLETS (comma-separated).
+
+declare module "express-session" {
+  interface SessionData {
+    siweNonce?: string;
+    userId?: string;
+    wallet?: string;   // lowercased, proven by signature
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60_000;
+
+const ADMIN_WALLETS = new Set(
+  (process.env.ADMIN_WALLETS || "").split(",").map(w => w.trim().toLowerCase()).filter(Boolean)
+);
+
+export function isAdminWallet(wallet: string | null | undefined): boolean {
+  return !!wallet && ADMIN_WALLETS.has(wallet.toLowerCase());
+}
+
+export function setupAuth(app: Express): void {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    secret = randomBytes(32).toString("hex");
+    console.warn("[Auth] SESSION_SECRET not set — using a random secret, sessions won't survive a restart");
+  }
+
+  if (process.env.NODE_ENV === "production") app.set("trust proxy", 1);
+
+  const PgStore = connectPgSimple(session);
+  app.use(session({
+    store: new PgStore({ pool, tableName: "user_sessions" }),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+
+  app.get("/api/auth/nonce", (req, res) => {
+    const nonce = generateSiweNonce();
+    req.session.siweNonce = nonce;
+    res.json({ nonce });
+  });
+
+  app.post("/api/auth/verify", async (req, res) => {
+    const { message, signature } = req.body ?? {};
+    if (typeof message !== "string" || typeof signature !== "string" || !signature.startsWith("0x")) {
+      return res.status(400).json({ error: "message and signature are required" });
+    }
+
+    const nonce = req.session.siweNonce;
+    if (!nonce) return res.status(400).json({ error: "No sign-in in progress — request a new nonce" });
+    // Nonces are single-use, whatever the outcome
+    delete req.session.siweNonce;
+
+    const fields = parseSiweMessage(message);
+    if (!fields.address) return res.status(400).json({ error: "Malformed SIWE message" });
+    if (fields.chainId !== base.id) return res.status(400).json({ error: "Sign in on Base (chain id 8453)" });
+
+    let valid = false;
+    try {
+      valid = await getPublicClient().verifySiweMessage({
+        message,
+        signature: signature as `0x${string}`,
+        nonce,
+        domain: req.get("host"),
+      });
+    } catch (err: any) {
+      console.error("[Auth] SIWE verification error:", err?.shortMessage || err?.message || err);
+    }
+    if (!valid) return res.status(401).json({ error: "Invalid signature" });
+
+    const user = await storage.upsertUserByWallet(fields.address);
+
+    // Fresh session id on login (prevents session fixation)
+    req.session.regenerate((err) => {
+      if (err) return res.status(500).json({ error: "Could not create session" });
+      req.session.userId = user.id;
+      req.session.wallet = user.walletAddress;
+      res.json({ userId: user.id, wallet: user.walletAddress, isAdmin: isAdminWallet(user.walletAddress) });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.session.wallet) return res.status(401).json({ error: "not signed in" });
+    res.json({ userId: req.session.userId, wallet: req.session.wallet, isAdmin: isAdminWallet(req.session.wallet) });
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy(() => {
+      res.clearCookie("connect.sid");
+      res.json({ ok: true });
+    });
+  });
+}
+
+// Wallet proven by SIWE for this request, lowercased
+export function getSessionWallet(req: Request): string | null {
+  return req.session?.wallet ?? null;
+}
+
+export function getSessionUserId(req: Request): string | null {
+  return req.session?.userId ?? null;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.wallet) {
+    return res.status(401).json({ error: "Sign in with your wallet first" });
+  }
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.wallet) {
+    return res.status(401).json({ error: "Sign in with your wallet first" });
+  }
+  if (!isAdminWallet(req.session.wallet)) {
+    return res.status(403).json({ error: "Admins only" });
+  }
+  next();
+}
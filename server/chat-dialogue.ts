@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { DEPLOY_REQUIRED_SLOTS, type ChatDialogue, type DeployParams, type DeploySlot } from "@shared/schema";
+
+// ─── Chat dialogue state ──────────────────────────────────────────────────────
+// A chat deploy can arrive over several messages ("launch Moon Coin" → "MOON" →
+// "0xabc…"). The session's dialogue row accumulates the fields and remembers which
+// required ones the assistant asked for, so a bare answer fills the right slot and
+// "change the symbol to X" edits one field. It ends when the deploy is confirmed or
+// cancelled, the chat is cleared, or nobody replies for DIALOGUE_TTL_MS.
+
+export const DIALOGUE_TTL_MS = 30 * 60_000;
+
+const ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/;
+
+// Words a user may call a field by → the label parseDeployFields reads, and the DeployParams key
+const FIELD_ALIASES: Record<string, { label: string; field: keyof DeployParams }> = {
+  name: { label: "Name", field: "name" },
+  symbol: { label: "Symbol", field: "symbol" },
+  ticker: { label: "Symbol", field: "symbol" },
+  wallet: { label: "Wallet", field: "wallet" },
+  address: { label: "Wallet", field: "wallet" },
+  website: { label: "Website", field: "websiteUrl" },
+  site: { label: "Website", field: "websiteUrl" },
+  x: { label: "X", field: "twitterUrl" },
+  twitter: { label: "X", field: "twitterUrl" },
+  telegram: { label: "Telegram", field: "telegramUrl" },
+  tg: { label: "Telegram", field: "telegramUrl" },
+  farcaster: { label: "Farcaster", field: "farcasterUrl" },
+  discord: { label: "Discord", field: "discordUrl" },
+  github: { label: "GitHub", field: "githubUrl" },
+  description: { label: "Description", field: "description" },
+  desc: { label: "Description", field: "description" },
+  image: { label: "Image", field: "imageUrl" },
+  logo: { label: "Image", field: "imageUrl" },
+};
+
+// "change the symbol to MOON", "set my website to moon.xyz", "use 0x… as the wallet"
+const CHANGE_RE = new RegExp(
+  `^\\s*(?:please\\s+|actually,?\\s+|and\\s+)?(?:change|set|update|make|switch)\\s+(?:the\\s+|my\\s+|its\\s+)?(?:token\\s+)?` +
+  `(${Object.keys(FIELD_ALIASES).join("|")})\\s+(?:to|as|into|=|:)\\s*(.+?)\\s*[.!]?\\s*$`,
+  "i",
+);
+const USE_AS_RE = new RegExp(`^\\s*(?:please\\s+)?use\\s+(.+?)\\s+as\\s+(?:the\\s+|my\\s+)?(${Object.keys(FIELD_ALIASES).join("|")})\\s*[.!]?\\s*$`, "i");
+// "rename it to Moon Coin", "call it Moon Coin"
+const RENAME_RE = /^\s*(?:please\s+)?(?:rename\s+(?:it|the\s+token|my\s+token)\s+to|call\s+(?:it|the\s+token|my\s+token))\s+(.+?)\s*[.!]?\s*$/i;
+// Small talk that must never be read as a name or ticker ("thanks", "hmm ok wait", "ok")
+const FILLER_RE = /^(?:thanks?|thank you|thx|ty|ok(?:ay)?|k|hmm+|um+|uh+|wait|hold on|one sec(?:ond)?|sure|cool|nice|great|lol|haha|yes|yeah|yep|no|nope|hi|hello|hey|sorry|idk|not sure|later|never ?mind)\b/i;
+// A plausible token name: a few words of letters, digits and light punctuation
+const NAME_RE = /^[A-Za-z0-9][A-Za-z0-9 .'&-]{0,31}$/;
+const QUESTION_RE = /\?\s*$|^\s*(?:what|how|why|who|when|where|which|can|could|is|are|do|does|should|will|tell|show|explain)\b/i;
+
+// Closing line of every slot question; a bare answer only counts right after one
+export const SLOT_QUESTION_END = "Say **cancel** to drop this deploy.";
+
+export async function getDialogue(sessionId: string): Promise<ChatDialogue | null> {
+  const dialogue = await storage.getChatDialogue(sessionId);
+  if (!dialogue) return null;
+  if (dialogue.expiresAt.getTime() <= Date.now()) {
+    await storage.deleteChatDialogue(sessionId);
+    return null;
+  }
+  return dialogue;
+}
+
+// Stores the fields gathered so far; the missing required ones become the slots awaited next
+export async function saveDialogue(sessionId: string, slots: DeployParams): Promise<ChatDialogue> {
+  return storage.saveChatDialogue({
+    sessionId,
+    intent: "deploy",
+    slots,
+    awaiting: missingSlots(slots),
+    expiresAt: new Date(Date.now() + DIALOGUE_TTL_MS),
+  });
+}
+
+export async function clearDialogue(sessionId: string): Promise<void> {
+  await storage.deleteChatDialogue(sessionId);
+}
+
+export function missingSlots(params: DeployParams): DeploySlot[] {
+  return DEPLOY_REQUIRED_SLOTS.filter(slot => slot === "wallet" ? !ADDRESS_RE.test(params.wallet ?? "") : !params[slot]);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["'`]+|["'`]+$/g, "").trim();
+}
+
+// A follow-up that only fills or changes specific fields, as "Label: value" text for
+// parseDeployFields plus the fields to take from its result (its looser matches, like an
+// all-caps word read as a symbol, must not touch anything else). Null if it isn't one.
+// Bare answers ("MOON", "Moon Coin") only count when `answersQuestion` — the assistant's
+// last message was the slot question — so anything else goes to the model instead.
+export function readDialogueReply(
+  text: string,
+  awaiting: DeploySlot[],
+  answersQuestion: boolean,
+): { labelled: string; fields: (keyof DeployParams)[] } | null {
+  const change = text.match(CHANGE_RE);
+  const useAs = change ? null : text.match(USE_AS_RE);
+  if (change || useAs) {
+    const [alias, value] = change ? [change[1], change[2]] : [useAs![2], useAs![1]];
+    const { label, field } = FIELD_ALIASES[alias.toLowerCase()];
+    return { labelled: `${label}: ${unquote(value)}`, fields: [field] };
+  }
+  const rename = text.match(RENAME_RE);
+  if (rename) return { labelled: `Name: ${unquote(rename[1])}`, fields: ["name"] };
+
+  // Bare answers to the question we asked; labelled fields and wallets are edits, not answers
+  const answer = unquote(text);
+  if (!answersQuestion || !answer || FILLER_RE.test(answer) || QUESTION_RE.test(answer)) return null;
+  if (answer.includes(":") || answer.includes("\n") || /\b0x[a-fA-F0-9]{40}\b/.test(answer)) return null;
+  const wantsName = awaiting.includes("name");
+  const wantsSymbol = awaiting.includes("symbol");
+  if (wantsName && wantsSymbol) {
+    // "Moon Coin (MOON)", "Moon Coin / MOON", "Moon Coin, MOON", "Moon Coin $MOON"
+    const both = answer.match(/^(.+?)\s*(?:\(\s*\$?([A-Za-z]{2,10})\s*\)|[\/,]\s*\$?([A-Za-z]{2,10})|\s\$([A-Za-z]{2,10}))$/);
+    if (both) return { labelled: `Name: ${both[1].trim()}\nSymbol: ${both[2] ?? both[3] ?? both[4]}`, fields: ["name", "symbol"] };
+    if (/^\$?[A-Z]{2,10}$/.test(answer)) return { labelled: `Symbol: ${answer.replace(/^\$/, "")}`, fields: ["symbol"] };
+  }
+  if (wantsSymbol && !wantsName) {
+    const symbol = answer.match(/^\$?([A-Za-z]{2,10})$/);
+    return symbol ? { labelled: `Symbol: ${symbol[1]}`, fields: ["symbol"] } : null;
+  }
+  if (wantsName && NAME_RE.test(answer) && answer.split(/\s+/).length <= 4) {
+    return { labelled: `Name: ${answer}`, fields: ["name"] };
+  }
+  return null;
+}
+
+// Context for the model: what the deploy has so far and what's still needed
+export function describeDialogue(dialogue: ChatDialogue): string {
+  const known = Object.entries(dialogue.slots)
+    .filter(([, value]) => value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`);
+  return [
+    `A token deploy is in progress in this chat. Fields so far — ${known.join("; ") || "none"}.`,
+    dialogue.awaiting.length > 0 ? `Still needed: ${dialogue.awaiting.join(", ")}.` : `All required fields are set; the user can confirm the preview.`,
+    `Call deploy_token with only new or changed fields; they are merged into these.`,
+  ].join(" ");
+}
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { getAgentTokens, getAgentTokensByAdmin } from "./clanker-api";
+import { isTokenIndexReady, serializeToken } from "./indexer";
+import { storage } from "./storage";
+import { deployMetadataSchema, rewardSplitsSchema, type DeployParams } from "@shared/schema";
+
+// ─── Chat tools (OpenAI function calling) ─────────────────────────────────────
+// Sent with every Conway inference request. The model decides when a message is a
+// deploy or a lookup; arguments are validated here before touching any real code.
+// deploy_token never deploys directly — it only feeds the draft/preview flow.
+
+export const CHAT_TOOLS = [
+  {
+    type: "function",
+    function: {
+      name: "deploy_token",
+      description:
+        "Prepare a token launch on Base via Clanker. Creates a preview the user must confirm; nothing is sent on-chain. " +
+        "Call again with only the changed fields to edit a pending preview.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Token name" },
+          symbol: { type: "string", description: "Ticker, 1-10 letters or digits" },
+          wallet: { type: "string", description: "Creator's 0x address, set as tokenAdmin" },
+          websiteUrl: { type: "string", description: "Project website" },
+          twitterUrl: { type: "string", description: "X / Twitter profile URL or @handle" },
+          telegramUrl: { type: "string", description: "Telegram t.me link or @username" },
+          farcasterUrl: { type: "string", description: "Farcaster profile / channel link or @username" },
+          discordUrl: { type: "string", description: "Discord invite link" },
+          githubUrl: { type: "string", description: "GitHub user, org or repo link" },
+          description: { type: "string" },
+          imageUrl: { type: "string", description: "ipfs:// or https:// image" },
+          rewardSplits: {
+            type: "array",
+            description:
+              "Extra LP fee recipients besides the creator (co-founder, treasury). Percent is of all LP fees and comes out " +
+              "of the creator's share. Pass the full list when editing; an empty list removes them.",
+            items: {
+              type: "object",
+              properties: {
+                recipient: { type: "string", description: "0x address" },
+                percent: { type: "number", description: "Share of all LP fees, e.g. 20 for 20%" },
+                label: { type: "string", description: "Who this is, e.g. treasury" },
+              },
+              required: ["recipient", "percent"],
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "lookup_token",
+      description: "Look up a ConwayPad token by contract address, symbol or name and report its market data.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "0x contract address, ticker or name" },
+        },
+        required: ["query"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "lookup_wallet",
+      description: "List the ConwayPad tokens whose tokenAdmin is the given wallet.",
+      parameters: {
+        type: "object",
+        properties: {
+          wallet: { type: "string", description: "0x wallet address" },
+        },
+        required: ["wallet"],
+      },
+    },
+  },
+] as const;
+
+const ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/;
+
+const optionalText = z.string().trim().optional().transform(v => v || undefined);
+
+const deployTokenArgsSchema = z.object({
+  name: optionalText.refine(v => !v || v.length <= 50, "name must be at most 50 characters"),
+  symbol: optionalText
+    .refine(v => !v || /^[A-Za-z0-9]{1,10}$/.test(v.replace(/^\$/, "")), "symbol must be 1-10 letters or digits")
+    .transform(v => v?.replace(/^\$/, "").toUpperCase()),
+  wallet: optionalText.refine(v => !v || ADDRESS_RE.test(v), "wallet must be a 0x address"),
+  ...deployMetadataSchema.shape,
+  rewardSplits: z.array(z.object({
+    recipient: z.string(),
+    percent: z.number().positive("split percent must be positive").max(100),
+    label: z.string().optional(),
+  }))
+    .optional()
+    .transform(splits => splits?.map(s => ({ recipient: s.recipient, bps: Math.round(s.percent * 100), label: s.label })))
+    .pipe(rewardSplitsSchema.optional()),
+});
+
+const lookupTokenArgsSchema = z.object({ query: z.string().trim().min(1) });
+const lookupWalletArgsSchema = z.object({ wallet: z.string().trim().regex(ADDRESS_RE, "wallet must be a 0x address") });
+
+// ─── Streamed tool_calls deltas ───────────────────────────────────────────────
+// Each delta carries an index plus fragments of the id, name and JSON arguments.
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export function accumulateToolCallDeltas(calls: ToolCall[], deltas: any[]): void {
+  for (const delta of deltas) {
+    const index = typeof delta?.index === "number" ? delta.index : 0;
+    const call = calls[index] || (calls[index] = { id: "", name: "", arguments: "" });
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.name += delta.function.name;
+    if (delta.function?.arguments) call.arguments += delta.function.arguments;
+  }
+}
+
+export type ParsedToolCall =
+  | { name: "deploy_token"; args: DeployParams }
+  | { name: "lookup_token"; args: z.infer<typeof lookupTokenArgsSchema> }
+  | { name: "lookup_wallet"; args: z.infer<typeof lookupWalletArgsSchema> }
+  | { name: string; error: string };
+
+export function parseToolCall(call: ToolCall): ParsedToolCall {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(call.arguments || "{}");
+  } catch {
+    return { name: call.name, error: "arguments are not valid JSON" };
+  }
+
+  const schema =
+    call.name === "deploy_token" ? deployTokenArgsSchema
+    : call.name === "lookup_token" ? lookupTokenArgsSchema
+    : call.name === "lookup_wallet" ? lookupWalletArgsSchema
+    : null;
+  if (!schema) return { name: call.name, error: "unknown tool" };
+
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    return { name: call.name, error: parsed.error.issues.map(i => i.message).join("; ") };
+  }
+  return { name: call.name, args: parsed.data } as ParsedToolCall;
+}
+
+// ─── Lookups ──────────────────────────────────────────────────────────────────
+
+function formatUsd(value: unknown): string {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n === 0) return "—";
+  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1_000) return `$${(n / 1_000).toFixed(1)}K`;
+  return `$${n.toLocaleString("en-US", { maximumFractionDigits: 6 })}`;
+}
+
+function formatTokenLine(t: any): string {
+  const market = t.related?.market || {};
+  const address = t.contract_address || t.address || "";
+  return [
+    `- **${t.name || "Unknown"}** (${t.symbol || "?"}) — \`${address}\``,
+    `  MCap ${formatUsd(market.marketCap ?? t.market_cap)} · Price ${formatUsd(market.price ?? t.price)} · 24h Vol ${formatUsd(market.volume24h)}`,
+    `  https://www.clanker.world/clanker/${address}`,
+  ].join("\n");
+}
+
+export async function runLookupToken(query: string): Promise<string> {
+  let matches: any[];
+  if (isTokenIndexReady()) {
+    matches = (await storage.searchTokens(query, 3)).map(serializeToken);
+  } else {
+    const { data, status } = await getAgentTokens(100);
+    if (status !== 200) return `Couldn't reach the Clanker API right now (HTTP ${status}).`;
+
+    const q = query.toLowerCase().replace(/^\$/, "");
+    const tokens: any[] = data?.tokens || [];
+    matches = ADDRESS_RE.test(query)
+      ? tokens.filter(t => (t.contract_address || "").toLowerCase() === q)
+      : tokens.filter(t => (t.symbol || "").toLowerCase() === q)
+          .concat(tokens.filter(t => (t.symbol || "").toLowerCase() !== q && (t.name || "").toLowerCase().includes(q)));
+  }
+
+  if (matches.length === 0) return `No ConwayPad token matches **${query}**.`;
+  return [`🔎 **Token lookup: ${query}**`, ``, ...matches.slice(0, 3).map(formatTokenLine)].join("\n");
+}
+
+export async function runLookupWallet(wallet: string): Promise<string> {
+  let tokens: any[];
+  let total: number;
+  if (isTokenIndexReady()) {
+    const page = await storage.listTokens({ tokenAdmin: wallet, limit: 10, offset: 0 });
+    tokens = page.tokens.map(serializeToken);
+    total = page.total;
+  } else {
+    const live = await getAgentTokensByAdmin(wallet);
+    if (live.status !== 200) return `Couldn't reach the Clanker API right now (HTTP ${live.status}).`;
+    tokens = live.tokens;
+    total = live.tokens.length;
+  }
+
+  if (total === 0) return `\`${wallet}\` hasn't launched any tokens through ConwayPad yet.`;
+  return [
+    `👛 **${total} ConwayPad token${total === 1 ? "" : "s"} for** \`${wallet}\``,
+    ``,
+    ...tokens.slice(0, 10).map(formatTokenLine),
+  ].join("\n");
+}
@@ -0,0 +1,36 @@
+import { AGENT_WALLET_ADDRESS } from "./wallet";
+
+// ─── clanker.world API ────────────────────────────────────────────────────────
+// Read-only proxy helpers shared by the HTTP routes and the chat lookup tools.
+
+export const CLANKER_API = "https://www.clanker.world/api";
+
+export async function proxyGet(url: string): Promise<{ data: any; status: number }> {
+  try {
+    const res = await fetch(url, {
+      headers: { "Accept": "application/json", "User-Agent": "ConwayPad/1.0" },
+    });
+    const text = await res.text();
+    try {
+      return { data: JSON.parse(text), status: res.status };
+    } catch {
+      return { data: { raw: text }, status: res.status };
+    }
+  } catch (err: any) {
+    return { data: { error: err.message }, status: 500 };
+  }
+}
+
+// Tokens deployed by the agent wallet (i.e. launched through ConwayPad)
+export async function getAgentTokens(limit = 100): Promise<{ data: any; status: number }> {
+  return proxyGet(`${CLANKER_API}/search-creator?q=${AGENT_WALLET_ADDRESS}&limit=${limit}`);
+}
+
+// ConwayPad tokens whose tokenAdmin is `wallet`
+export async function getAgentTokensByAdmin(wallet: string): Promise<{ tokens: any[]; status: number; data: any }> {
+  const adminWallet = wallet.toLowerCase();
+  const { data, status } = await getAgentTokens(100);
+  if (status !== 200) return { tokens: [], status, data };
+  const tokens = (data?.tokens || []).filter((t: any) => (t.admin || "").toLowerCase() === adminWallet);
+  return { tokens, status, data };
+}
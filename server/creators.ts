@@ -0,0 +1,45 @@
+import { storage } from "./storage";
+import { serializeToken } from "./indexer";
+import { getRewardRecipients } from "./deployments";
+
+// ─── Creator profiles ─────────────────────────────────────────────────────────
+// Everything a tokenAdmin launched through ConwayPad, read from the token mirror.
+// Fee figures are estimates: swap volume × each token's pool fee × the creator's reward share.
+// Dynamic-fee pools count at their minimum fee.
+
+const MAX_PROFILE_TOKENS = 1000;
+
+// Creator's cut of `lpFeesUsd` of LP fees (volume already weighted by each pool's fee)
+export function estimateCreatorFees(lpFeesUsd: number, tokenAdmin: string): number {
+  const creatorBps = getRewardRecipients(tokenAdmin).find(r => r.role === "creator")?.bps ?? 0;
+  return lpFeesUsd * (creatorBps / 10_000);
+}
+
+export async function getCreatorProfile(wallet: string) {
+  const tokenAdmin = wallet.toLowerCase();
+  const [stats, weekly, page] = await Promise.all([
+    storage.getCreatorStats(tokenAdmin),
+    storage.getLaunchCadence(tokenAdmin),
+    storage.listTokens({ tokenAdmin, limit: MAX_PROFILE_TOKENS, offset: 0 }),
+  ]);
+
+  const spanMs = stats.firstLaunchAt && stats.lastLaunchAt
+    ? new Date(stats.lastLaunchAt).getTime() - new Date(stats.firstLaunchAt).getTime()
+    : 0;
+
+  return {
+    wallet: tokenAdmin,
+    ...stats,
+    cadence: {
+      weekly,
+      avgDaysBetweenLaunches: stats.launches > 1 ? spanMs / (stats.launches - 1) / 86_400_000 : null,
+    },
+    estimatedFees: {
+      last24h: estimateCreatorFees(stats.lpFees24h, tokenAdmin),
+      tracked: estimateCreatorFees(stats.trackedLpFees, tokenAdmin),
+    },
+    tokens: page.tokens.map(serializeToken),
+  };
+}
+
+export type CreatorProfile = Awaited<ReturnType<typeof getCreatorProfile>>;
@@ -0,0 +1,64 @@
+import { storage } from "./storage";
+import type { DeployDraft, DeployParams } from "@shared/schema";
+
+// ─── Chat deploy drafts ───────────────────────────────────────────────────────
+// A deploy parsed from chat is only previewed. The user then confirms, cancels or
+// sends corrected fields in a follow-up message. Drafts expire after DRAFT_TTL_MS.
+
+export const DRAFT_TTL_MS = 10 * 60_000;
+
+const CONFIRM_RE = /^\s*(confirm|yes|y|yep|deploy( it)?|launch( it)?|go( ahead)?|ok(ay)?|do it)\s*[.!]*\s*$/i;
+const CANCEL_RE = /^\s*(cancel|no|nope|stop|abort|never ?mind|discard)\b/i;
+// Labelled fields ("Symbol: ABC") or a wallet address count as edits to a pending draft
+const EDIT_FIELD_RE = /\b(name|symbol|ticker|website|web|twitter|x|telegram|tg|farcaster|discord|github|description|desc|image|split|splits|recipient)\s*:|\b0x[a-fA-F0-9]{40}\b/i;
+
+export function isConfirmMessage(text: string): boolean {
+  return CONFIRM_RE.test(text);
+}
+
+export function isCancelMessage(text: string): boolean {
+  return CANCEL_RE.test(text);
+}
+
+export function looksLikeDraftEdit(text: string): boolean {
+  return EDIT_FIELD_RE.test(text);
+}
+
+// Returns the session's draft, dropping it if it has expired
+export async function getActiveDraft(sessionId: string): Promise<DeployDraft | null> {
+  const draft = await storage.getDeployDraft(sessionId);
+  if (!draft) return null;
+  if (draft.expiresAt.getTime() <= Date.now()) {
+    await storage.deleteDeployDraft(sessionId);
+    return null;
+  }
+  return draft;
+}
+
+export async function saveDraft(sessionId: string, params: DeployParams): Promise<DeployDraft> {
+  return storage.saveDeployDraft({
+    sessionId,
+    params,
+    expiresAt: new Date(Date.now() + DRAFT_TTL_MS),
+  });
+}
+
+export async function clearDraft(sessionId: string): Promise<void> {
+  await storage.deleteDeployDraft(sessionId);
+}
+
+// Atomically takes the draft for deploying. Of two concurrent confirms of the same
+// preview only one gets it back; the other gets null and must not deploy.
+export async function claimDraft(draft: DeployDraft): Promise<DeployDraft | null> {
+  return (await storage.claimDeployDraft(draft.sessionId, draft.id)) ?? null;
+}
+
+// Overlay newly parsed fields onto an existing draft (undefined never erases a value;
+// a split list replaces the old one, so an empty list clears it)
+export function mergeDraftParams(base: DeployParams | undefined, update: DeployParams): DeployParams {
+  const merged: DeployParams = { ...base };
+  for (const [key, value] of Object.entries(update) as [keyof DeployParams, DeployParams[keyof DeployParams]][]) {
+    if (value || Array.isArray(value)) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
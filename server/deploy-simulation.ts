@@ -0,0 +1,71 @@
+import { formatEther, formatGwei } from "viem";
+import { getViemClients } from "./wallet";
+import { buildDeployTransaction, checkDeployParams } from "./deployments";
+import { getEthUsdPrice } from "./eth-price";
+import { recordDeployGas } from "./wallet-health";
+import { checkTokenIdentity, identityRejection } from "./token-identity";
+import type { DeployParams, DeploySimulation } from "@shared/schema";
+
+// ─── Deploy dry-run ───────────────────────────────────────────────────────────
+// Builds the exact factory call a deploy would send, runs it as an eth_call from the
+// agent wallet against BASE_RPC_URL, and prices the gas. The name / ticker check runs
+// alongside, and a rejection there fails the simulation too. Nothing is signed or sent.
+
+function revertReason(err: any): string {
+  return err?.shortMessage || err?.message || "Simulation failed";
+}
+
+export async function simulateDeployment(params: DeployParams): Promise<DeploySimulation> {
+  const clients = getViemClients();
+  if (!clients) throw new Error("Server wallet not configured. Add CONWAY_WALLET_PRIVATE_KEY.");
+  const paramsError = checkDeployParams(params);
+  if (paramsError) throw new Error(paramsError);
+
+  const { publicClient, account } = clients;
+  const tx = await buildDeployTransaction(params);
+  const { chainId: _chainId, ...call } = tx;
+  const value = tx.value ?? BigInt(0);
+
+  const [chainId, blockNumber, balance, fees, ethUsd, identity] = await Promise.all([
+    publicClient.getChainId(),
+    publicClient.getBlockNumber(),
+    publicClient.getBalance({ address: account.address }),
+    publicClient.estimateFeesPerGas(),
+    getEthUsdPrice(),
+    checkTokenIdentity(params.name!, params.symbol!),
+  ]);
+
+  let gas: bigint | null = null;
+  let error: string | null = identityRejection(identity);
+  try {
+    // simulateContract decodes the factory's custom errors; estimateGas only runs once it passes
+    await publicClient.simulateContract({ ...call, account });
+    gas = await publicClient.estimateContractGas({ ...call, account });
+    recordDeployGas(gas);
+  } catch (err) {
+    error ??= revertReason(err);
+  }
+
+  const gasCost = gas !== null ? gas * fees.maxFeePerGas : null;
+  const totalCost = gasCost !== null ? gasCost + value : null;
+  const sufficient = totalCost !== null ? balance >= totalCost : null;
+  if (!error && sufficient === false) {
+    error = `Agent wallet has ${formatEther(balance)} ETH, needs about ${formatEther(totalCost!)} ETH`;
+  }
+
+  return {
+    ok: error === null,
+    error,
+    chainId,
+    blockNumber: Number(blockNumber),
+    gas: gas?.toString() ?? null,
+    maxFeePerGasGwei: formatGwei(fees.maxFeePerGas),
+    gasCostEth: gasCost !== null ? formatEther(gasCost) : null,
+    devBuyEth: formatEther(value),
+    totalCostEth: totalCost !== null ? formatEther(totalCost) : null,
+    totalCostUsd: totalCost !== null && ethUsd !== null ? Number(formatEther(totalCost)) * ethUsd : null,
+    ethUsd,
+    agentWallet: { address: account.address, balanceEth: formatEther(balance), sufficient },
+    identity,
+  };
+}
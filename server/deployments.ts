@@ -0,0 +1,376 @@
+import { parseAbiItem, parseEventLogs } from "viem";
+import { Clanker } from "clanker-sdk/v4";
+import { FEE_CONFIGS, POOL_POSITIONS, getTickFromMarketCap, type ClankerTokenV4 } from "clanker-sdk";
+import { storage } from "./storage";
+import { AGENT_WALLET_ADDRESS, getViemClients } from "./wallet";
+import { getSigner, type ContractTx, type SignedTx } from "./signer";
+import { checkTokenIdentity, identityRejection } from "./token-identity";
+import { moderateLaunch } from "./moderation";
+import {
+  DEFAULT_PLATFORM_FEE_BPS, DEFAULT_LP_FEE_BPS, MAX_REWARD_SPLITS, checkRewardSplits,
+  type Deployment, type DeployParams, type ModerationReview, type RewardPolicy, type RewardSplit, type SentTx,
+} from "@shared/schema";
+import { SOCIAL_LINK_FIELDS, type SocialLinkField, type SocialPlatform } from "@shared/social-links";
+
+// ─── Deployment job queue ─────────────────────────────────────────────────────
+// Every deploy (chat or form) becomes a row in `deployments`:
+//   queued → submitted → confirmed | reverted, or failed if it never got a tx hash.
+//   Launches moderation objects to start as flagged until an admin approves (→ queued) or rejects them.
+// The worker picks up queued jobs, and for submitted ones waits for the receipt,
+// reads the token address from the TokenCreated log and backfills token_launches.
+// Deploy txs are saved to `sent_tx` before broadcast; a retry after a failed send picks
+// that tx back up (or proves it can't land) rather than deploying the token twice.
+// State lives in Postgres, so jobs survive a server restart.
+
+const WORKER_INTERVAL_MS = 15_000;
+const RECEIPT_WAIT_MS = 60_000;
+const MAX_PENDING_MS = 30 * 60_000;   // give up on a tx that hasn't been mined after 30 min
+const MAX_SUBMIT_ATTEMPTS = 3;
+
+const TOKEN_CREATED_EVENT = parseAbiItem(
+  "event TokenCreated(address msgSender, address indexed tokenAddress, address indexed tokenAdmin, string tokenImage, string tokenName, string tokenSymbol, string tokenMetadata, string tokenContext, int24 startingTick, address poolHook, bytes32 poolId, address pairedToken, address locker, address mevModule, uint256 extensionsSupply, address[] extensions)"
+);
+
+// Logo used when a launch doesn't set imageUrl
+const DEFAULT_TOKEN_IMAGE = "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+
+
+// Platform's share of the LP fees on every launch (server policy); the rest is the creator side
+function readPlatformFeeBps(): number {
+  const raw = process.env.PLATFORM_FEE_BPS;
+  if (!raw) return DEFAULT_PLATFORM_FEE_BPS;
+  const bps = Number(raw);
+  if (!Number.isInteger(bps) || bps < 0 || bps >= 10_000) {
+    console.warn(`[Deployments] Ignoring invalid PLATFORM_FEE_BPS "${raw}", using ${DEFAULT_PLATFORM_FEE_BPS}`);
+    return DEFAULT_PLATFORM_FEE_BPS;
+  }
+  return bps;
+}
+
+export const PLATFORM_FEE_BPS = readPlatformFeeBps();
+
+export function getRewardPolicy(platformBps = PLATFORM_FEE_BPS): RewardPolicy {
+  return { platformBps, creatorBps: 10_000 - platformBps, maxSplits: MAX_REWARD_SPLITS };
+}
+
+export interface RewardRecipient {
+  role: "creator" | "split" | "platform";
+  recipient: string;
+  bps: number;
+  label?: string;
+}
+
+// LP fee split for one launch: the token admin gets the creator side minus any extra splits.
+// `platformBps` is the share stamped on the deployment; tokens without one use the current policy.
+export function getRewardRecipients(tokenAdmin: string, splits: RewardSplit[] = [], platformBps = PLATFORM_FEE_BPS): RewardRecipient[] {
+  const { creatorBps } = getRewardPolicy(platformBps);
+  const splitBps = splits.reduce((sum, s) => sum + s.bps, 0);
+  const recipients: RewardRecipient[] = [
+    { role: "creator", recipient: tokenAdmin, bps: creatorBps - splitBps },
+    ...splits.map(s => ({ role: "split" as const, recipient: s.recipient, bps: s.bps, label: s.label })),
+  ];
+  if (platformBps > 0) recipients.push({ role: "platform", recipient: AGENT_WALLET_ADDRESS, bps: platformBps });
+  return recipients;
+}
+
+// Dev buys are paid from the agent wallet, so they're off unless the operator sets a cap
+function readMaxDevBuyEth(): number {
+  const max = Number(process.env.MAX_DEV_BUY_ETH || 0);
+  return Number.isFinite(max) && max > 0 ? max : 0;
+}
+
+export const MAX_DEV_BUY_ETH = readMaxDevBuyEth();
+
+export function getDeployLimits() {
+  return { maxDevBuyEth: MAX_DEV_BUY_ETH };
+}
+
+// Server-side guards on the advanced options that the schema can't know about
+export function checkAdvancedOptions(params: DeployParams): string | null {
+  if (params.devBuy) {
+    if (MAX_DEV_BUY_ETH === 0) return "dev buys are disabled on this server";
+    if (params.devBuy.ethAmount > MAX_DEV_BUY_ETH) return `dev buy is capped at ${MAX_DEV_BUY_ETH} ETH`;
+  }
+  return null;
+}
+
+// Preset positions start at their lowest tick; a custom starting market cap shifts them all
+// so one position still touches the starting tick, as the factory requires.
+function poolConfig(pool: NonNullable<DeployParams["pool"]>): ClankerTokenV4["pool"] {
+  const positions = POOL_POSITIONS[pool.preset];
+  const presetStart = Math.min(...positions.map(p => p.tickLower));
+  if (!pool.startingMarketCapEth) {
+    return { pairedToken: "WETH", tickIfToken0IsClanker: presetStart, positions };
+  }
+  const { tickIfToken0IsClanker, tickSpacing } = getTickFromMarketCap(pool.startingMarketCapEth);
+  const shift = tickIfToken0IsClanker - presetStart;
+  return {
+    pairedToken: "WETH",
+    tickIfToken0IsClanker,
+    tickSpacing,
+    positions: positions.map(p => ({ ...p, tickLower: p.tickLower + shift, tickUpper: p.tickUpper + shift })),
+  };
+}
+
+function advancedDeployConfig(params: DeployParams): Partial<ClankerTokenV4> {
+  const config: Partial<ClankerTokenV4> = {};
+  if (params.vault) {
+    config.vault = {
+      percentage: params.vault.percentage,
+      lockupDuration: params.vault.lockupDays * 86_400,
+      vestingDuration: params.vault.vestingDays * 86_400,
+      recipient: params.vault.recipient as `0x${string}` | undefined,
+    };
+  }
+  if (params.devBuy) config.devBuy = { ethAmount: params.devBuy.ethAmount };
+  if (params.pool) config.pool = poolConfig(params.pool);
+  if (params.fees) {
+    config.fees = params.fees.type === "static"
+      ? { type: "static", clankerFee: params.fees.bps, pairedFee: params.fees.bps }
+      : FEE_CONFIGS[params.fees.preset];
+  }
+  return config;
+}
+
+// Jobs currently being handled in this process (route + worker may race on the same id)
+const inFlight = new Set<number>();
+
+// ─── Deploy token via Clanker SDK ─────────────────────────────────────────────
+// Everything the deploy tx needs that can be checked without the chain
+export function checkDeployParams(params: DeployParams): string | null {
+  if (!params.name || !params.symbol || !params.wallet) return "Name, symbol, and wallet address are required.";
+  const platformBps = params.platformBps ?? PLATFORM_FEE_BPS;
+  const splitError = checkRewardSplits(params.rewardSplits ?? [], params.wallet, getRewardPolicy(platformBps).creatorBps);
+  if (splitError) return `Invalid fee split: ${splitError}`;
+  return checkAdvancedOptions(params);
+}
+
+// The factory call for a launch; `value` carries the dev buy. Assumes checkDeployParams passed.
+export async function buildDeployTransaction(params: DeployParams): Promise<ContractTx> {
+  const clanker = new Clanker();
+  const tokenAdmin = params.wallet as `0x${string}`;
+
+  const socialMediaUrls = (Object.entries(SOCIAL_LINK_FIELDS) as [SocialLinkField, SocialPlatform][])
+    .filter(([field]) => params[field])
+    .map(([field, platform]) => ({ platform, url: params[field]! }));
+
+  return clanker.getDeployTransaction({
+    name: params.name!,
+    symbol: params.symbol!,
+    tokenAdmin,
+    image: params.imageUrl || DEFAULT_TOKEN_IMAGE,
+    metadata: {
+      description: params.description || `${params.name} — deployed via ConwayPad`,
+      socialMediaUrls,
+      auditUrls: [],
+    },
+    context: {
+      interface: "ConwayPad",
+      platform: "ConwayPad",
+      messageId: "1",
+      id: "1",
+    },
+    rewards: {
+      recipients: getRewardRecipients(tokenAdmin, params.rewardSplits ?? [], params.platformBps ?? PLATFORM_FEE_BPS).map(r => ({
+        admin: r.recipient as `0x${string}`,
+        recipient: r.recipient as `0x${string}`,
+        bps: r.bps,
+        token: "Both" as const,
+      })),
+    },
+    ...advancedDeployConfig(params),
+  });
+}
+
+// `retryable: false` marks failures the same params will hit again (config, validation,
+// name checks); anything else may be a passing RPC problem.
+export async function deployTokenViaSDK(
+  params: DeployParams,
+  opts: { sent?: SentTx | null; onSigned?: (signed: SignedTx) => Promise<void> } = {},
+): Promise<{ success: boolean; txHash?: `0x${string}`; error?: string; retryable?: boolean }> {
+  const clients = getViemClients();
+  if (!clients) {
+    return { success: false, retryable: false, error: "Server wallet not configured. Add CONWAY_WALLET_PRIVATE_KEY." };
+  }
+  // A previous send may have gone out before it failed. Checked before the name check, which
+  // would otherwise reject the token that tx already created.
+  if (opts.sent) {
+    try {
+      const resumed = await getSigner(clients).resume(opts.sent);
+      if (resumed) return { success: true, txHash: resumed };
+    } catch (err: any) {
+      return { success: false, error: err?.shortMessage || err?.message || "Could not check the previous deploy tx" };
+    }
+  }
+  const paramsError = checkDeployParams(params);
+  if (paramsError) return { success: false, retryable: false, error: paramsError };
+  // Refuse second "ConwayPad"s and tickers an existing ConwayPad token already uses
+  const identityError = identityRejection(await checkTokenIdentity(params.name!, params.symbol!));
+  if (identityError) return { success: false, retryable: false, error: identityError };
+
+  let tx: ContractTx;
+  try {
+    tx = await buildDeployTransaction(params);
+  } catch (err: any) {
+    return { success: false, retryable: false, error: err?.shortMessage || err?.message || "Invalid deploy config" };
+  }
+
+  try {
+    // Sent through the serialized signer so concurrent deploys don't race on the nonce.
+    // Confirmation is tracked by the deployment worker, not here.
+    const txHash = await getSigner(clients).writeContract(tx, opts.onSigned);
+    return { success: true, txHash };
+  } catch (err: any) {
+    return { success: false, error: err?.shortMessage || err?.message || "Deployment failed" };
+  }
+}
+
+// Create the launch cache row and a deployment job for it: queued, or flagged for review
+// when moderation objects to the metadata
+// Pool fee a launch's swaps pay, in bps: its static fee, a dynamic preset's base (minimum) fee, or the default
+export function lpFeeBps(fees: DeployParams["fees"]): number {
+  if (!fees) return DEFAULT_LP_FEE_BPS;
+  if (fees.type === "static") return fees.bps;
+  const preset = FEE_CONFIGS[fees.preset];
+  return preset && "baseFee" in preset ? preset.baseFee : DEFAULT_LP_FEE_BPS;
+}
+
+export async function enqueueDeployment(params: DeployParams & { name: string; symbol: string; wallet: string }): Promise<Deployment> {
+  const flags = await moderateLaunch(params);
+  const launch = await storage.addTokenLaunch({
+    name: params.name,
+    symbol: params.symbol,
+    deployerWallet: params.wallet,
+    txHash: null,
+    tokenAddress: null,
+  });
+  return storage.addDeployment({
+    launchId: launch.id,
+    tokenAdmin: params.wallet,
+    status: flags.length > 0 ? "flagged" : "queued",
+    params: { ...params, platformBps: PLATFORM_FEE_BPS, lpFeeBps: lpFeeBps(params.fees) },
+    moderation: flags.length > 0 ? flags : null,
+  });
+}
+
+// An admin's decision on a flagged job; approved jobs are sent right away.
+// Undefined when the job doesn't exist or was already decided.
+export async function reviewDeployment(id: number, review: ModerationReview, reviewer: string): Promise<Deployment | undefined> {
+  if (review.decision === "reject") {
+    return storage.reviewFlaggedDeployment(id, {
+      status: "rejected",
+      reviewedBy: reviewer,
+      error: review.reason ? `Rejected by moderation: ${review.reason}` : "Rejected by moderation",
+    });
+  }
+  const approved = await storage.reviewFlaggedDeployment(id, { status: "queued", reviewedBy: reviewer });
+  return approved && submitDeployment(approved.id);
+}
+
+// Send the deploy tx for a queued job. Returns the updated row.
+export async function submitDeployment(id: number): Promise<Deployment | undefined> {
+  if (inFlight.has(id)) return storage.getDeployment(id);
+  inFlight.add(id);
+  try {
+    const job = await storage.getDeployment(id);
+    if (!job || job.status !== "queued") return job;
+
+    const attempts = job.attempts + 1;
+    let sent = job.sentTx;
+    const result = await deployTokenViaSDK(job.params, {
+      sent,
+      // Saved before broadcast; re-signs for the same nonce (fee bumps) add their hashes
+      onSigned: async ({ hash, nonce, raw }) => {
+        sent = { nonce, hashes: sent?.nonce === nonce ? [...sent.hashes, hash] : [hash], raw };
+        await storage.updateDeployment(id, { sentTx: sent });
+      },
+    });
+
+    if (!result.success) {
+      console.error(`[Deployments] #${id} submit failed (attempt ${attempts}):`, result.error);
+      return storage.updateDeployment(id, {
+        attempts,
+        error: result.error,
+        // Transient RPC errors get retried by the worker; give up after a few tries
+        status: result.retryable === false || attempts >= MAX_SUBMIT_ATTEMPTS ? "failed" : "queued",
+      });
+    }
+
+    console.log(`[Deployments] #${id} submitted:`, result.txHash);
+    if (job.launchId) await storage.updateTokenLaunch(job.launchId, { txHash: result.txHash });
+    return storage.updateDeployment(id, { attempts, status: "submitted", txHash: result.txHash, error: null });
+  } finally {
+    inFlight.delete(id);
+  }
+}
+
+// Wait (bounded) for the receipt of a submitted job and record the outcome
+async function trackDeployment(job: Deployment): Promise<void> {
+  if (!job.txHash || inFlight.has(job.id)) return;
+  const clients = getViemClients();
+  if (!clients) return;
+
+  inFlight.add(job.id);
+  try {
+    let receipt;
+    try {
+      receipt = await clients.publicClient.waitForTransactionReceipt({
+        hash: job.txHash as `0x${string}`,
+        timeout: RECEIPT_WAIT_MS,
+      });
+    } catch {
+      const age = Date.now() - new Date(job.updatedAt ?? job.createdAt ?? Date.now()).getTime();
+      if (age > MAX_PENDING_MS) {
+        console.error(`[Deployments] #${job.id} not mined after ${Math.round(age / 60000)}m, marking failed`);
+        await storage.updateDeployment(job.id, { status: "failed", error: "Transaction was not mined" });
+      }
+      return;
+    }
+
+    const blockNumber = Number(receipt.blockNumber);
+    if (receipt.status !== "success") {
+      console.error(`[Deployments] #${job.id} reverted in block ${blockNumber}`);
+      await storage.updateDeployment(job.id, { status: "reverted", blockNumber, error: "Transaction reverted" });
+      return;
+    }
+
+    const [created] = parseEventLogs({ abi: [TOKEN_CREATED_EVENT], eventName: "TokenCreated", logs: receipt.logs });
+    const tokenAddress = created?.args.tokenAddress ?? null;
+
+    await storage.updateDeployment(job.id, { status: "confirmed", blockNumber, tokenAddress });
+    if (job.launchId && tokenAddress) {
+      await storage.updateTokenLaunch(job.launchId, { tokenAddress });
+    }
+    console.log(`[Deployments] #${job.id} confirmed:`, tokenAddress ?? "(no TokenCreated log)");
+  } finally {
+    inFlight.delete(job.id);
+  }
+}
+
+async function runWorkerTick(): Promise<void> {
+  const jobs = await storage.getDeploymentsByStatus(["queued", "submitted"]);
+  for (const job of jobs) {
+    if (job.status === "queued") await submitDeployment(job.id);
+    else await trackDeployment(job);
+  }
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerBusy = false;
+
+export function startDeploymentWorker(): void {
+  if (workerTimer) return;
+  const tick = async () => {
+    if (workerBusy) return;
+    workerBusy = true;
+    try {
+      await runWorkerTick();
+    } catch (err: any) {
+      console.error("[Deployments] Worker error:", err?.message || err);
+    } finally {
+      workerBusy = false;
+    }
+  };
+  workerTimer = setInterval(tick, WORKER_INTERVAL_MS);
+  tick();
+}
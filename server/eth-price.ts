@@ -0,0 +1,33 @@
+import { parseAbi } from "viem";
+import { getPublicClient } from "./wallet";
+
+// ─── ETH/USD ──────────────────────────────────────────────────────────────────
+// Read from the Chainlink feed on Base, so it also works against a local fork.
+
+const ETH_USD_FEED = "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70" as const;
+const FEED_ABI = parseAbi([
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+]);
+const FEED_DECIMALS = 8;
+const PRICE_CACHE_MS = 60_000;
+
+let cached: { price: number; at: number } | null = null;
+
+// null when the feed can't be read; callers show ETH amounts only
+export async function getEthUsdPrice(): Promise<number | null> {
+  if (cached && Date.now() - cached.at < PRICE_CACHE_MS) return cached.price;
+  try {
+    const [, answer] = await getPublicClient().readContract({
+      address: ETH_USD_FEED,
+      abi: FEED_ABI,
+      functionName: "latestRoundData",
+    });
+    const price = Number(answer) / 10 ** FEED_DECIMALS;
+    if (!(price > 0)) return null;
+    cached = { price, at: Date.now() };
+    return price;
+  } catch (err: any) {
+    console.error("[Price] ETH/USD read failed:", err?.shortMessage || err?.message || err);
+    return cached?.price ?? null;
+  }
+}
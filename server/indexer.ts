@@ -0,0 +1,167 @@
+import { storage } from "./storage";
+import { CLANKER_API, proxyGet } from "./clanker-api";
+import { AGENT_WALLET_ADDRESS, ZERO_ADDRESS } from "./wallet";
+import type { InsertToken, Token } from "@shared/schema";
+
+// ─── Clanker token indexer ────────────────────────────────────────────────────
+// Pages through the agent wallet's full `search-creator` history and upserts every
+// token (metadata + latest market data) into `tokens`. Read routes serve from that
+// mirror; until the first full pass has finished they fall back to the live API.
+
+const INDEXER_INTERVAL_MS = 5 * 60_000;
+const PAGE_SIZE = 50;
+const MAX_PAGES = 400;          // safety stop (20k tokens)
+const PAGE_DELAY_MS = 250;      // be polite to clanker.world between pages
+
+let lastFullSync: Date | null = null;
+let lastError: string | null = null;
+let lastCount = 0;
+// True once a full pass finished, or at startup if a mirror from a previous run exists
+let mirrorReady = false;
+
+export function isTokenIndexReady(): boolean {
+  return mirrorReady;
+}
+
+export function getIndexerStatus() {
+  return { ready: isTokenIndexReady(), lastFullSync, indexed: lastCount, lastError };
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  const d = new Date(value as string);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+// Clanker API row → tokens row (null if it has no usable contract address)
+export function toTokenRow(t: any): InsertToken | null {
+  const address = String(t?.contract_address || t?.address || "").toLowerCase();
+  if (!/^0x[a-f0-9]{40}$/.test(address)) return null;
+
+  const market = t.related?.market || {};
+  const hasMarket = Object.keys(market).length > 0;
+
+  return {
+    address,
+    chainId: toNumber(t.chain_id) ?? 8453,
+    name: t.name || "Unknown",
+    symbol: t.symbol || "?",
+    tokenAdmin: String(t.admin || "").toLowerCase(),
+    deployer: t.msg_sender ? String(t.msg_sender).toLowerCase() : null,
+    imageUrl: t.img_url || null,
+    description: t.description || t.metadata?.description || null,
+    txHash: t.tx_hash || null,
+    poolAddress: t.pool_address || null,
+    deployedAt: toDate(t.deployed_at || t.created_at),
+    metadata: t.metadata ?? null,
+    raw: t,
+    marketCap: toNumber(market.marketCap ?? t.market_cap),
+    priceUsd: toNumber(market.price ?? t.price),
+    volume24h: toNumber(market.volume24h),
+    priceChange24h: toNumber(market.priceChangePercent24h ?? market.priceChange24h),
+    marketUpdatedAt: hasMarket ? new Date() : null,
+  };
+}
+
+// Mirror row → the Clanker-shaped object the client's normalizeToken() already reads
+export function serializeToken(row: Token) {
+  const raw = (row.raw as Record<string, any> | null) ?? {};
+  return {
+    ...raw,
+    contract_address: row.address,
+    chain_id: row.chainId,
+    name: row.name,
+    symbol: row.symbol,
+    admin: row.tokenAdmin,
+    msg_sender: row.deployer,
+    img_url: row.imageUrl,
+    description: row.description,
+    tx_hash: row.txHash,
+    pool_address: row.poolAddress,
+    deployed_at: row.deployedAt?.toISOString() ?? null,
+    metadata: row.metadata,
+    related: {
+      ...(raw.related ?? {}),
+      market: {
+        marketCap: row.marketCap ?? 0,
+        price: row.priceUsd ?? 0,
+        priceChange24h: row.priceChange24h ?? 0,
+        volume24h: row.volume24h ?? 0,
+        updatedAt: row.marketUpdatedAt?.toISOString() ?? null,
+      },
+    },
+  };
+}
+
+export type ApiToken = ReturnType<typeof serializeToken>;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// One full pass over the agent wallet's history. Returns the number of tokens upserted.
+async function syncAllTokens(): Promise<number> {
+  const seen = new Set<string>();
+  let offset = 0;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data, status } = await proxyGet(
+      `${CLANKER_API}/search-creator?q=${AGENT_WALLET_ADDRESS}&limit=${PAGE_SIZE}&offset=${offset}`
+    );
+    if (status !== 200) throw new Error(`search-creator HTTP ${status} at offset ${offset}`);
+
+    const batch: any[] = data?.tokens || [];
+    // One statement can't upsert the same key twice, and a page with nothing new means paging stalled
+    const rows = batch
+      .map(toTokenRow)
+      .filter((r): r is InsertToken => r !== null && !seen.has(r.address));
+    rows.forEach(r => seen.add(r.address));
+    await storage.upsertTokens(rows);
+
+    offset += batch.length;
+    if (batch.length < PAGE_SIZE || data?.hasMore === false || rows.length === 0) break;
+    await sleep(PAGE_DELAY_MS);
+  }
+
+  return seen.size;
+}
+
+let indexerTimer: NodeJS.Timeout | null = null;
+let indexerBusy = false;
+
+export function startTokenIndexer(): void {
+  if (indexerTimer) return;
+  if (AGENT_WALLET_ADDRESS === ZERO_ADDRESS) {
+    console.warn("[Indexer] Agent wallet not configured, token indexer disabled");
+    return;
+  }
+
+  const tick = async () => {
+    if (indexerBusy) return;
+    indexerBusy = true;
+    const started = Date.now();
+    try {
+      lastCount = await syncAllTokens();
+      lastFullSync = new Date();
+      lastError = null;
+      mirrorReady = true;
+      console.log(`[Indexer] Synced ${lastCount} tokens in ${Date.now() - started}ms`);
+    } catch (err: any) {
+      lastError = err?.message || String(err);
+      console.error("[Indexer] Sync failed:", lastError);
+    } finally {
+      indexerBusy = false;
+    }
+  };
+
+  storage.listTokens({ limit: 1, offset: 0 })
+    .then(({ total }) => { if (total > 0) mirrorReady = true; })
+    .catch(() => {});
+
+  indexerTimer = setInterval(tick, INDEXER_INTERVAL_MS);
+  tick();
+}
@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+// ─── IPFS pinning ─────────────────────────────────────────────────────────────
+// Uploaded files are pinned through one adapter chosen at startup:
+//   pinata — Pinata's pinning API (PINATA_JWT), served from IPFS_GATEWAY_URL
+//   local  — files under IPFS_LOCAL_DIR, served by GET /api/ipfs/:cid (development and tests)
+// Both return a CIDv1, so stored `ipfs://` URIs look the same whichever pinned them.
+
+export interface IpfsPinner {
+  readonly name: string;
+  pin(data: Buffer, filename: string, contentType: string): Promise<string>;   // → CID
+  gatewayUrl(cid: string): string;
+}
+
+const PINATA_PIN_URL = "https://api.pinata.cloud/pinning/pinFileToIPFS";
+const DEFAULT_GATEWAY = "https://gateway.pinata.cloud/ipfs";
+// CIDv1 base32 (b…) or CIDv0 (Qm…)
+const CID_RE = /^b[a-z2-7]{58}$|^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+
+export function isValidCid(cid: string): boolean {
+  return CID_RE.test(cid);
+}
+
+// CIDv1, raw codec, sha2-256, base32: what `ipfs add --cid-version=1 --raw-leaves` gives a single-block file
+function rawCid(data: Buffer): string {
+  const digest = createHash("sha256").update(data).digest();
+  const bytes = Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), digest]);
+  const alphabet = "abcdefghijklmnopqrstuvwxyz234567";
+  let bits = 0;
+  let value = 0;
+  let out = "b";
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += alphabet[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export class LocalFsPinner implements IpfsPinner {
+  readonly name = "local";
+
+  constructor(private dir: string) {}
+
+  async pin(data: Buffer): Promise<string> {
+    const cid = rawCid(data);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, cid), data);
+    return cid;
+  }
+
+  gatewayUrl(cid: string): string {
+    return `/api/ipfs/${cid}`;
+  }
+
+  // Bytes for the dev gateway route; null when the CID was never pinned here
+  async read(cid: string): Promise<Buffer | null> {
+    if (!isValidCid(cid)) return null;
+    return fs.readFile(path.join(this.dir, cid)).catch(() => null);
+  }
+}
+
+export class PinataPinner implements IpfsPinner {
+  readonly name = "pinata";
+
+  constructor(private jwt: string, private gateway: string) {}
+
+  async pin(data: Buffer, filename: string, contentType: string): Promise<string> {
+    const form = new FormData();
+    form.append("file", new Blob([data], { type: contentType }), filename);
+    form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+    form.append("pinataMetadata", JSON.stringify({ name: filename }));
+
+    const res = await fetch(PINATA_PIN_URL, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.jwt}` },
+      body: form,
+    });
+    if (!res.ok) throw new Error(`Pinata responded ${res.status}: ${(await res.text()).slice(0, 200)}`);
+    const { IpfsHash } = await res.json() as { IpfsHash: string };
+    return IpfsHash;
+  }
+
+  gatewayUrl(cid: string): string {
+    return `${this.gateway}/${cid}`;
+  }
+}
+
+// HTTP URL for any CID on the public network (the local adapter's gateway only serves its own pins)
+export function publicGatewayUrl(cid: string): string {
+  return `${(process.env.IPFS_GATEWAY_URL || DEFAULT_GATEWAY).replace(/\/$/, "")}/${cid}`;
+}
+
+function createPinner(): IpfsPinner {
+  const provider = process.env.IPFS_PROVIDER || (process.env.PINATA_JWT ? "pinata" : "local");
+  if (provider === "pinata") {
+    if (!process.env.PINATA_JWT) throw new Error("IPFS_PROVIDER=pinata needs PINATA_JWT");
+    return new PinataPinner(process.env.PINATA_JWT, (process.env.IPFS_GATEWAY_URL || DEFAULT_GATEWAY).replace(/\/$/, ""));
+  }
+  return new LocalFsPinner(process.env.IPFS_LOCAL_DIR || path.resolve(".ipfs-local"));
+}
+
+let pinner: IpfsPinner | null = null;
+
+export function getPinner(): IpfsPinner {
+  if (!pinner) {
+    pinner = createPinner();
+    console.log(`[IPFS] Pinning with the ${pinner.name} adapter`);
+  }
+  return pinner;
+}
+
+// Tests and scripts can swap in their own adapter
+export function setPinner(next: IpfsPinner): void {
+  pinner = next;
+}
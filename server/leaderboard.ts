@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { serializeToken } from "./indexer";
+import { estimateCreatorFees } from "./creators";
+import { LEADERBOARD_WINDOWS, type LeaderboardQuery, type LeaderboardWindow } from "@shared/schema";
+
+// ─── Leaderboards ─────────────────────────────────────────────────────────────
+// Computed over the whole token mirror. Launch-based modes (launches, market cap, best
+// token) only count tokens deployed inside the window; volume and fee modes rank swap
+// activity inside the window, whenever the token launched.
+
+const LAUNCH_MODES = ["launches", "marketCap", "bestToken"];
+
+function windowBounds(window: LeaderboardWindow) {
+  const span = LEADERBOARD_WINDOWS[window];
+  const since = span === null ? null : new Date(Date.now() - span);
+  // 24h uses each token's live rolling volume; longer windows sum the snapshot history
+  const volumeSince = window === "24h" ? null : since ?? new Date(0);
+  return { since, volumeSince };
+}
+
+export async function getLeaderboard(query: LeaderboardQuery) {
+  const { since, volumeSince } = windowBounds(query.window);
+
+  if (query.type === "creators") {
+    const rows = await storage.getCreatorLeaderboard({
+      sort: query.mode,
+      launchedSince: LAUNCH_MODES.includes(query.mode) ? since : null,
+      volumeSince,
+      limit: query.limit,
+    });
+    return {
+      ...query,
+      creators: rows.map(({ lpFees, ...r }) => ({ ...r, estimatedFees: estimateCreatorFees(lpFees, r.wallet) })),
+    };
+  }
+
+  const rows = await storage.getTokenLeaderboard({
+    sort: query.mode,
+    launchedSince: query.mode === "marketCap" ? since : null,
+    volumeSince,
+    limit: query.limit,
+  });
+  return {
+    ...query,
+    // Token fees are the pool's total LP fees at its own pool fee, before the creator / platform split
+    tokens: rows.map(({ token, volume, lpFees }) => ({
+      ...serializeToken(token),
+      volume,
+      estimatedFees: lpFees,
+    })),
+  };
+}
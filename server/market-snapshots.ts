@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+import { isTokenIndexReady } from "./indexer";
+
+// ─── Market snapshot collector ────────────────────────────────────────────────
+// Every pass copies the latest market columns from the `tokens` mirror (kept fresh by
+// the indexer) into `token_market_snapshots`, skipping tokens whose market data hasn't
+// been refreshed since their last snapshot. Candles are built from those rows on read.
+
+const SNAPSHOT_INTERVAL_MS = 5 * 60_000;
+const SNAPSHOT_RETENTION_MS = 90 * 24 * 60 * 60_000;
+
+let lastSnapshotAt: Date | null = null;
+let lastSnapshotCount = 0;
+
+export function getSnapshotStatus() {
+  return { lastSnapshotAt, recorded: lastSnapshotCount };
+}
+
+let collectorTimer: NodeJS.Timeout | null = null;
+let collectorBusy = false;
+
+export function startSnapshotCollector(): void {
+  if (collectorTimer) return;
+
+  const tick = async () => {
+    // Nothing worth recording until the mirror holds real market data
+    if (collectorBusy || !isTokenIndexReady()) return;
+    collectorBusy = true;
+    try {
+      lastSnapshotCount = await storage.recordMarketSnapshots();
+      lastSnapshotAt = new Date();
+      await storage.pruneMarketSnapshots(new Date(Date.now() - SNAPSHOT_RETENTION_MS));
+    } catch (err: any) {
+      console.error("[Snapshots] Collector error:", err?.message || err);
+    } finally {
+      collectorBusy = false;
+    }
+  };
+
+  collectorTimer = setInterval(tick, SNAPSHOT_INTERVAL_MS);
+}
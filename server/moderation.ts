@@ -0,0 +1,198 @@
+import { isIP, BlockList } from "node:net";
+import { lookup } from "node:dns/promises";
+import { getPinner, isValidCid, LocalFsPinner, publicGatewayUrl } from "./ipfs";
+import { checkImage, IMAGE_CONTENT_TYPES, MAX_IMAGE_BYTES } from "./token-images";
+import { foldLookalikes } from "./token-identity";
+import { SOCIAL_LINK_FIELDS, type SocialLinkField } from "@shared/social-links";
+import type { DeployParams, ModerationFlag } from "@shared/schema";
+
+// ─── Launch metadata moderation ───────────────────────────────────────────────
+// Everything a user types ends up in on-chain metadata, so launches are screened first:
+//   - name / symbol / description against a word list (whole words, look-alikes folded)
+//   - every social link against the domain deny list; websites also against the allow list
+//   - imageUrl must serve a real PNG/JPEG/GIF/WebP within the upload limits
+// Any flag holds the launch as a `flagged` deployment for an admin to approve or reject.
+
+const IMAGE_FETCH_TIMEOUT_MS = 8_000;
+const IMAGE_MAX_REDIRECTS = 3;
+
+// Addresses the image fetch must never reach: loopback, private, link-local (cloud metadata), CGNAT, reserved
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) PRIVATE_ADDRESSES.addSubnet(net, prefix, "ipv4");
+for (const [net, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(net, prefix, "ipv6");
+}
+
+// Scam phrasing; operators extend or replace it with MODERATION_BLOCKED_WORDS
+const DEFAULT_BLOCKED_WORDS = ["giveaway", "free eth", "free airdrop", "claim airdrop", "seed phrase", "private key", "drainer"];
+// Link shorteners hide where a link goes
+const DEFAULT_DENIED_DOMAINS = ["bit.ly", "tinyurl.com", "t.co", "goo.gl", "is.gd", "cutt.ly", "rebrand.ly", "shorturl.at"];
+const TWITTER_DOMAINS = ["x.com", "twitter.com"];
+
+function readList(key: string, fallback: string[]): string[] {
+  const raw = process.env[key];
+  return (raw === undefined ? fallback : raw.split(",")).map(v => v.trim().toLowerCase()).filter(Boolean);
+}
+
+const BLOCKED_WORDS = readList("MODERATION_BLOCKED_WORDS", DEFAULT_BLOCKED_WORDS)
+  .map(word => ({ word, folded: foldLookalikes(word) }))
+  .filter(w => w.folded);
+const DENIED_DOMAINS = readList("MODERATION_DENIED_DOMAINS", DEFAULT_DENIED_DOMAINS);
+// Empty: any website domain that isn't denied
+const ALLOWED_DOMAINS = readList("MODERATION_ALLOWED_DOMAINS", []);
+
+export function getModerationPolicy() {
+  return { blockedWords: BLOCKED_WORDS.map(w => w.word), deniedDomains: DENIED_DOMAINS, allowedDomains: ALLOWED_DOMAINS };
+}
+
+// `domain` itself or any subdomain of it
+function onDomain(host: string, domains: string[]): boolean {
+  return domains.some(d => host === d || host.endsWith(`.${d}`));
+}
+
+function blockedWord(text: string): string | null {
+  const folded = ` ${foldLookalikes(text)} `;
+  return BLOCKED_WORDS.find(w => folded.includes(` ${w.folded} `))?.word ?? null;
+}
+
+// Public https URLs only: the server fetches the image one, so no plain http, IPs or localhost
+function parsePublicUrl(value: string): URL | string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "not a valid URL";
+  }
+  if (url.protocol !== "https:") return "must be an https:// link";
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) || host === "localhost" || host.endsWith(".localhost") || !host.includes(".")) {
+    return "must use a public domain name";
+  }
+  return url;
+}
+
+function checkLink(field: SocialLinkField, value: string): string | null {
+  const url = parsePublicUrl(value);
+  if (typeof url === "string") return url;
+  const host = url.hostname.toLowerCase();
+  if (onDomain(host, DENIED_DOMAINS)) return `links to ${host} are not allowed`;
+  if (field === "twitterUrl") {
+    return onDomain(host, TWITTER_DOMAINS) ? null : "must be an x.com or twitter.com link";
+  }
+  if (field !== "websiteUrl") return null;
+  if (ALLOWED_DOMAINS.length > 0 && !onDomain(host, ALLOWED_DOMAINS)) return `${host} is not on the allowed domain list`;
+  return null;
+}
+
+// Reads a response body, giving up once it passes `limit` bytes
+async function readLimited(res: Response, limit: number): Promise<Buffer | null> {
+  if (!res.body) return Buffer.from(await res.arrayBuffer());
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// The image bytes behind ipfs:// or https:// URLs, or why they couldn't be fetched
+async function fetchImage(value: string): Promise<Buffer | string> {
+  const ipfs = value.match(/^ipfs:\/\/(?:ipfs\/)?([^/?#]+)$/);
+  let target = value;
+  if (ipfs) {
+    const cid = ipfs[1];
+    if (!isValidCid(cid)) return "has an invalid IPFS CID";
+    const pinner = getPinner();
+    const local = pinner instanceof LocalFsPinner ? await pinner.read(cid) : null;
+    if (local) return local;
+    target = pinner instanceof LocalFsPinner ? publicGatewayUrl(cid) : pinner.gatewayUrl(cid);
+  }
+
+  // Redirects are followed by hand so every hop gets the same public-URL and DNS checks
+  const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS);
+  let res: Response | null = null;
+  for (let hop = 0; hop <= IMAGE_MAX_REDIRECTS; hop++) {
+    const fail = (reason: string) => hop === 0 ? reason : `redirects elsewhere: ${reason}`;
+    const url = parsePublicUrl(target);
+    if (typeof url === "string") return fail(url);
+    const hostError = await checkPublicHost(url);
+    if (hostError) return fail(hostError);
+    try {
+      res = await fetch(url, { signal, redirect: "manual" });
+    } catch (err: any) {
+      return err?.name === "TimeoutError" ? "didn't respond in time" : "couldn't be fetched";
+    }
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get("location") : null;
+    if (!location) break;
+    await res.body?.cancel();
+    res = null;
+    try {
+      target = new URL(location, url).toString();
+    } catch {
+      return "redirects to an invalid URL";
+    }
+  }
+  if (!res) return `redirects more than ${IMAGE_MAX_REDIRECTS} times`;
+  if (!res.ok) return `returned HTTP ${res.status}`;
+  const type = res.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  if (!type || !IMAGE_CONTENT_TYPES.includes(type)) return `serves ${type || "no content type"}, not an image`;
+  if (Number(res.headers.get("content-length")) > MAX_IMAGE_BYTES) return `is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+  const data = await readLimited(res, MAX_IMAGE_BYTES).catch(() => null);
+  return data ?? `is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB or failed to download`;
+}
+
+function isPrivateAddress(address: string, family: number): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = family === 6 ? address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1] : undefined;
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped, "ipv4");
+  return PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Every address the host resolves to must be public, or the fetch could reach internal services
+async function checkPublicHost(url: URL): Promise<string | null> {
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(url.hostname, { all: true });
+  } catch {
+    return "has a host name that doesn't resolve";
+  }
+  if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address, a.family))) {
+    return "must point to a public address";
+  }
+  return null;
+}
+
+async function checkImageUrl(value: string): Promise<string | null> {
+  const image = await fetchImage(value);
+  if (typeof image === "string") return `image URL ${image}`;
+  return checkImage(image);
+}
+
+// Empty when the launch can go straight to the queue
+export async function moderateLaunch(params: DeployParams): Promise<ModerationFlag[]> {
+  const flags: ModerationFlag[] = [];
+  for (const field of ["name", "symbol", "description"] as const) {
+    const word = params[field] ? blockedWord(params[field]!) : null;
+    if (word) flags.push({ field, reason: `contains the blocked term "${word}"` });
+  }
+  for (const field of Object.keys(SOCIAL_LINK_FIELDS) as SocialLinkField[]) {
+    const reason = params[field] ? checkLink(field, params[field]!) : null;
+    if (reason) flags.push({ field, reason });
+  }
+  if (params.imageUrl) {
+    const reason = await checkImageUrl(params.imageUrl);
+    if (reason) flags.push({ field: "imageUrl", reason });
+  }
+  return flags;
+}
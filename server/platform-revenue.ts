@@ -0,0 +1,248 @@
+import { storage } from "./storage";
+import { AGENT_WALLET_ADDRESS, ZERO_ADDRESS, getViemClients } from "./wallet";
+import { getSigner } from "./signer";
+import { isTokenIndexReady } from "./indexer";
+import { readRewardBalances, getClaimCall, WETH_ADDRESS, type RewardBalance } from "./rewards";
+import type { PlatformRevenue } from "@shared/schema";
+
+// ─── Platform revenue ─────────────────────────────────────────────────────────
+// The agent wallet is a reward recipient on every launch (see getRewardRecipients). This
+// module reads its fee locker balances across the whole token mirror, claims the ones
+// worth the gas on a schedule, and records every claim tx in `platform_revenue`.
+
+const CLAIM_INTERVAL_MS = 6 * 60 * 60_000;
+const CLAIMABLE_CACHE_MS = 5 * 60_000;
+const RECEIPT_WAIT_MS = 2 * 60_000;
+const MAX_PENDING_MS = 30 * 60_000;
+const MAX_SCAN_TOKENS = 5000;
+const MAX_CLAIMS_PER_RUN = 25;
+// Below these a claim costs more in gas than it brings in
+const MIN_CLAIM_WETH = Number(process.env.PLATFORM_CLAIM_MIN_WETH || 0.002);
+const MIN_CLAIM_USD = Number(process.env.PLATFORM_CLAIM_MIN_USD || 10);
+
+type AgentClients = NonNullable<ReturnType<typeof getViemClients>>;
+
+export interface PlatformClaimable {
+  at: Date;
+  weth: RewardBalance;
+  tokens: RewardBalance[];   // non-zero balances only
+  totalTokenUsd: number;
+}
+
+export interface PlatformClaimRun {
+  at: Date;
+  trigger: "schedule" | "manual";
+  claimed: number;
+  failed: number;
+  skipped: number;           // balances under the thresholds
+  error: string | null;
+}
+
+let claimable: PlatformClaimable | null = null;
+let lastRun: PlatformClaimRun | null = null;
+let nextRunAt: Date | null = null;
+
+let claimTimer: NodeJS.Timeout | null = null;
+let claimBusy = false;
+
+function isPlatformConfigured(): boolean {
+  return AGENT_WALLET_ADDRESS !== ZERO_ADDRESS;
+}
+
+function isWeth(feeToken: string): boolean {
+  return feeToken.toLowerCase() === WETH_ADDRESS.toLowerCase();
+}
+
+function worthClaiming(balance: RewardBalance): boolean {
+  if (isWeth(balance.token)) return Number(balance.formatted) >= MIN_CLAIM_WETH;
+  return (balance.usd ?? 0) >= MIN_CLAIM_USD;
+}
+
+export function getPlatformClaimStatus() {
+  return {
+    configured: isPlatformConfigured(),
+    running: claimBusy,
+    intervalMs: CLAIM_INTERVAL_MS,
+    nextRunAt,
+    lastRun,
+    thresholds: { weth: MIN_CLAIM_WETH, usd: MIN_CLAIM_USD },
+  };
+}
+
+// Agent wallet balances in the fee locker; one multicall over every mirrored token, cached briefly
+export async function getPlatformClaimable(refresh = false): Promise<PlatformClaimable> {
+  if (!refresh && claimable && Date.now() - claimable.at.getTime() < CLAIMABLE_CACHE_MS) return claimable;
+
+  const { tokens } = await storage.listTokens({ limit: MAX_SCAN_TOKENS, offset: 0 });
+  const balances = await readRewardBalances(AGENT_WALLET_ADDRESS, tokens);
+  const nonZero = balances.tokens.filter(b => b.amount !== "0");
+  claimable = {
+    at: new Date(),
+    weth: balances.weth,
+    tokens: nonZero.sort((a, b) => (b.usd ?? 0) - (a.usd ?? 0)),
+    totalTokenUsd: nonZero.reduce((sum, b) => sum + (b.usd ?? 0), 0),
+  };
+  return claimable;
+}
+
+// Wait (bounded) for a claim's receipt; rows still unmined are left for reconcileClaims
+async function settleClaim(clients: AgentClients, entry: PlatformRevenue): Promise<PlatformRevenue> {
+  let receipt;
+  try {
+    receipt = await clients.publicClient.waitForTransactionReceipt({
+      hash: entry.txHash as `0x${string}`,
+      timeout: RECEIPT_WAIT_MS,
+    });
+  } catch {
+    return entry;
+  }
+  const blockNumber = Number(receipt.blockNumber);
+  if (receipt.status !== "success") {
+    return storage.updatePlatformRevenue(entry.id, { status: "failed", blockNumber, error: "Transaction reverted" });
+  }
+  return storage.updatePlatformRevenue(entry.id, { status: "confirmed", blockNumber, confirmedAt: new Date() });
+}
+
+// Claims left "submitted" by a timeout or a restart
+async function reconcileClaims(clients: AgentClients): Promise<void> {
+  const pending = await storage.getPlatformRevenueByStatus(["submitted"]);
+  for (const entry of pending) {
+    if (!entry.txHash) continue;
+    const receipt = await clients.publicClient
+      .getTransactionReceipt({ hash: entry.txHash as `0x${string}` })
+      .catch(() => null);
+    if (receipt) {
+      const blockNumber = Number(receipt.blockNumber);
+      await storage.updatePlatformRevenue(entry.id, receipt.status === "success"
+        ? { status: "confirmed", blockNumber, confirmedAt: new Date() }
+        : { status: "failed", blockNumber, error: "Transaction reverted" });
+    } else if (Date.now() - entry.createdAt.getTime() > MAX_PENDING_MS) {
+      await storage.updatePlatformRevenue(entry.id, { status: "failed", error: "Transaction was not mined" });
+    }
+  }
+}
+
+// The ledger amount is the balance read just before claiming; fees accrued between the
+// read and the claim land in the next run's balance instead.
+async function claimBalance(clients: AgentClients, balance: RewardBalance): Promise<boolean> {
+  const row = {
+    feeToken: balance.token.toLowerCase(),
+    symbol: balance.symbol,
+    amount: balance.amount,
+    amountUsd: balance.usd,
+  };
+  let txHash: `0x${string}`;
+  try {
+    txHash = await getSigner(clients).writeContract(await getClaimCall(AGENT_WALLET_ADDRESS, balance.token));
+  } catch (err: any) {
+    const error = err?.shortMessage || err?.message || "Claim failed";
+    console.error(`[Revenue] ${balance.symbol} claim failed:`, error);
+    await storage.addPlatformRevenue({ ...row, status: "failed", error });
+    return false;
+  }
+
+  const entry = await storage.addPlatformRevenue({ ...row, status: "submitted", txHash });
+  const settled = await settleClaim(clients, entry);
+  return settled.status !== "failed";
+}
+
+// One batch: settle stragglers, re-read balances, claim everything over the thresholds
+export async function runPlatformClaims(trigger: PlatformClaimRun["trigger"]): Promise<PlatformClaimRun> {
+  const clients = getViemClients();
+  if (!clients || !isPlatformConfigured()) throw new Error("Agent wallet is not configured");
+  if (!isTokenIndexReady()) throw new Error("Token index is still building");
+  if (claimBusy) throw new Error("A claim run is already in progress");
+
+  claimBusy = true;
+  const run: PlatformClaimRun = { at: new Date(), trigger, claimed: 0, failed: 0, skipped: 0, error: null };
+  try {
+    await reconcileClaims(clients);
+
+    const { weth, tokens } = await getPlatformClaimable(true);
+    const candidates = [weth, ...tokens].filter(b => b.amount !== "0");
+    const due = candidates.filter(worthClaiming).slice(0, MAX_CLAIMS_PER_RUN);
+    run.skipped = candidates.length - due.length;
+
+    // Sequential: the signer serializes anyway, and one bad claim shouldn't stall the rest
+    for (const balance of due) {
+      if (await claimBalance(clients, balance)) run.claimed++;
+      else run.failed++;
+    }
+    if (due.length > 0) console.log(`[Revenue] ${trigger} run: ${run.claimed} claimed, ${run.failed} failed`);
+  } catch (err: any) {
+    run.error = err?.shortMessage || err?.message || String(err);
+    console.error("[Revenue] Claim run error:", run.error);
+  } finally {
+    claimable = null;
+    lastRun = run;
+    claimBusy = false;
+  }
+  return run;
+}
+
+export function startPlatformClaimJob(): void {
+  if (claimTimer) return;
+  if (!isPlatformConfigured()) {
+    console.log("[Revenue] Agent wallet not configured, platform claims disabled");
+    return;
+  }
+
+  const tick = async () => {
+    nextRunAt = new Date(Date.now() + CLAIM_INTERVAL_MS);
+    if (claimBusy || !isTokenIndexReady()) return;
+    try {
+      await runPlatformClaims("schedule");
+    } catch (err: any) {
+      console.error("[Revenue] Scheduled claim error:", err?.message || err);
+    }
+  };
+
+  nextRunAt = new Date(Date.now() + CLAIM_INTERVAL_MS);
+  claimTimer = setInterval(tick, CLAIM_INTERVAL_MS);
+
+  // Settle claims a previous process left unconfirmed
+  const clients = getViemClients();
+  if (clients) {
+    reconcileClaims(clients).catch(err => console.error("[Revenue] Reconcile error:", err?.message || err));
+  }
+}
+
+// Everything the admin revenue page shows
+export async function getPlatformRevenueReport(days: number) {
+  const since = new Date(Date.now() - days * 86_400_000);
+  const [totals, daily, recent] = await Promise.all([
+    storage.getPlatformRevenueTotals(),
+    storage.getPlatformRevenueDaily(WETH_ADDRESS, since),
+    storage.listPlatformRevenue(50),
+  ]);
+
+  let current: PlatformClaimable | null = null;
+  let claimableError: string | null = null;
+  if (!isPlatformConfigured()) {
+    claimableError = "Agent wallet is not configured";
+  } else if (!isTokenIndexReady()) {
+    claimableError = "Token index is still building";
+  } else {
+    try {
+      current = await getPlatformClaimable();
+    } catch (err: any) {
+      claimableError = "Couldn't read the fee locker right now";
+      console.error("[Revenue] Read failed:", err?.shortMessage || err?.message || err);
+    }
+  }
+
+  const claimedWeth = totals.find(t => isWeth(t.feeToken));
+  return {
+    recipient: AGENT_WALLET_ADDRESS,
+    claimable: current,
+    claimableError,
+    claimed: {
+      weth: claimedWeth ? Number(claimedWeth.amount) / 1e18 : 0,
+      tokenUsd: totals.filter(t => !isWeth(t.feeToken)).reduce((sum, t) => sum + t.amountUsd, 0),
+      byToken: totals,
+    },
+    daily,
+    recent,
+    job: getPlatformClaimStatus(),
+  };
+}
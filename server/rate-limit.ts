@@ -0,0 +1,169 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { getSessionWallet, isAdminWallet } from "./auth";
+import {
+  DEFAULT_RATE_LIMIT_RULES,
+  type RateLimitAction, type RateLimitRule, type RateLimitRuleOverride, type RateLimitRuleUpdate, type RateLimitScope,
+} from "@shared/schema";
+
+// ─── Rate limiting ────────────────────────────────────────────────────────────
+// Fixed-window counters per rule (see DEFAULT_RATE_LIMIT_RULES) and scope value, kept in
+// Postgres so limits hold across restarts. If Postgres errors, counting moves to this
+// process's memory for a minute and then retries — limits stay on, just less shared.
+// Admin wallets are never limited.
+
+const JANITOR_INTERVAL_MS = 60 * 60_000;
+const FALLBACK_RETRY_MS = 60_000;
+
+export type RateLimitIds = Partial<Record<RateLimitScope, string | null | undefined>>;
+
+export type RateLimitVerdict =
+  | { allowed: true }
+  | { allowed: false; rule: RateLimitRule; retryAfterSeconds: number };
+
+class MemoryCounterStore {
+  private counts = new Map<string, number>();
+
+  increment(key: string, windowStart: Date): number {
+    const slot = `${key}@${windowStart.getTime()}`;
+    const count = (this.counts.get(slot) ?? 0) + 1;
+    this.counts.set(slot, count);
+    return count;
+  }
+
+  prune(before: Date): void {
+    for (const slot of Array.from(this.counts.keys())) {
+      if (Number(slot.slice(slot.lastIndexOf("@") + 1)) < before.getTime()) this.counts.delete(slot);
+    }
+  }
+}
+
+const memory = new MemoryCounterStore();
+let fallbackSince: Date | null = null;
+let overrides = new Map<string, RateLimitRuleOverride>();
+let janitorTimer: NodeJS.Timeout | null = null;
+
+async function increment(key: string, windowStart: Date): Promise<number> {
+  if (fallbackSince && Date.now() - fallbackSince.getTime() < FALLBACK_RETRY_MS) {
+    return memory.increment(key, windowStart);
+  }
+  try {
+    const count = await storage.incrementRateLimit(key, windowStart);
+    if (fallbackSince) console.log("[RateLimit] Postgres counters are back");
+    fallbackSince = null;
+    return count;
+  } catch (err: any) {
+    if (!fallbackSince) console.error("[RateLimit] Postgres counters failed, using memory:", err?.message || err);
+    fallbackSince = new Date();
+    return memory.increment(key, windowStart);
+  }
+}
+
+// Built-in rules with the admin's overrides applied
+export function getRateLimitRules(): RateLimitRule[] {
+  return DEFAULT_RATE_LIMIT_RULES.map(rule => {
+    const o = overrides.get(rule.id);
+    return o ? { ...rule, limit: o.limit, windowSeconds: o.windowSeconds, enabled: o.enabled } : rule;
+  });
+}
+
+// Counts one hit against every enabled rule of `action` that has an id for its scope.
+// Rejected hits count too, so hammering a closed window doesn't reopen it sooner.
+export async function hitRateLimit(action: RateLimitAction, ids: RateLimitIds): Promise<RateLimitVerdict> {
+  const now = Date.now();
+  const rules = getRateLimitRules().filter(r => r.action === action && r.enabled && ids[r.scope]);
+  const results = await Promise.all(rules.map(async rule => {
+    const windowMs = rule.windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const count = await increment(`${rule.id}:${ids[rule.scope]!.toLowerCase()}`, new Date(windowStart));
+    return { rule, count, retryAfterSeconds: Math.ceil((windowStart + windowMs - now) / 1000) };
+  }));
+
+  const blocked = results
+    .filter(r => r.count > r.rule.limit)
+    .sort((a, b) => b.retryAfterSeconds - a.retryAfterSeconds)[0];
+  return blocked ? { allowed: false, rule: blocked.rule, retryAfterSeconds: blocked.retryAfterSeconds } : { allowed: true };
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 90) return `${seconds}s`;
+  if (seconds < 90 * 60) return `${Math.ceil(seconds / 60)} min`;
+  if (seconds < 36 * 3600) return `${Math.ceil(seconds / 3600)}h`;
+  return `${Math.ceil(seconds / 86_400)} days`;
+}
+
+const SCOPE_LABELS: Record<RateLimitScope, string> = {
+  ip: "network",
+  session: "session",
+  tokenAdmin: "wallet",
+};
+
+export function rateLimitMessage(verdict: Extract<RateLimitVerdict, { allowed: false }>): string {
+  const { rule, retryAfterSeconds } = verdict;
+  return `Rate limit reached: ${rule.limit} ${rule.action} request${rule.limit !== 1 ? "s" : ""} per ${formatSeconds(rule.windowSeconds)} per ${SCOPE_LABELS[rule.scope]}. Try again in ${formatSeconds(retryAfterSeconds)}.`;
+}
+
+// Route middleware: 429 + Retry-After once any rule for `action` is over its limit.
+// The client IP is always counted; `ids` adds the session / token admin for this route.
+export function rateLimit(action: RateLimitAction, ids: (req: Request) => RateLimitIds = () => ({})) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (isAdminWallet(getSessionWallet(req))) return next();
+    const verdict = await hitRateLimit(action, { ip: req.ip, ...ids(req) });
+    if (verdict.allowed) return next();
+    res.set("Retry-After", String(verdict.retryAfterSeconds));
+    res.status(429).json({ error: rateLimitMessage(verdict), retryAfter: verdict.retryAfterSeconds });
+  };
+}
+
+// ─── Policy admin ─────────────────────────────────────────────────────────────
+async function loadOverrides(): Promise<void> {
+  const rows = await storage.getRateLimitOverrides();
+  overrides = new Map(rows.map(r => [r.id, r]));
+}
+
+export function getRateLimitPolicy() {
+  return {
+    rules: getRateLimitRules().map(rule => ({
+      ...rule,
+      defaults: DEFAULT_RATE_LIMIT_RULES.find(d => d.id === rule.id)!,
+      updatedBy: overrides.get(rule.id)?.updatedBy ?? null,
+      updatedAt: overrides.get(rule.id)?.updatedAt ?? null,
+    })),
+    store: fallbackSince ? "memory" : "postgres",
+    fallbackSince,
+  };
+}
+
+export async function updateRateLimitRule(id: string, update: RateLimitRuleUpdate, updatedBy: string): Promise<boolean> {
+  if (!DEFAULT_RATE_LIMIT_RULES.some(r => r.id === id)) return false;
+  const row = await storage.saveRateLimitOverride(id, update, updatedBy);
+  overrides.set(id, row);
+  console.log(`[RateLimit] ${id} set to ${update.limit}/${update.windowSeconds}s${update.enabled ? "" : " (disabled)"} by ${updatedBy}`);
+  return true;
+}
+
+export async function resetRateLimitRule(id: string): Promise<boolean> {
+  if (!DEFAULT_RATE_LIMIT_RULES.some(r => r.id === id)) return false;
+  await storage.deleteRateLimitOverride(id);
+  overrides.delete(id);
+  return true;
+}
+
+// Loads admin overrides and drops counters whose windows have long closed
+export function startRateLimitJanitor(): void {
+  if (janitorTimer) return;
+
+  const tick = async () => {
+    const longestWindowMs = Math.max(...getRateLimitRules().map(r => r.windowSeconds)) * 1000;
+    const before = new Date(Date.now() - longestWindowMs);
+    memory.prune(before);
+    try {
+      await storage.pruneRateLimitCounters(before);
+    } catch (err: any) {
+      console.error("[RateLimit] Prune failed:", err?.message || err);
+    }
+  };
+
+  loadOverrides().catch(err => console.error("[RateLimit] Could not load policy overrides:", err?.message || err));
+  janitorTimer = setInterval(tick, JANITOR_INTERVAL_MS);
+}
@@ -0,0 +1,101 @@
+import { encodeFunctionData, formatUnits } from "viem";
+import { base } from "viem/chains";
+import { Clanker } from "clanker-sdk/v4";
+import { WETH_ADDRESSES } from "clanker-sdk";
+import { storage } from "./storage";
+import type { Token } from "@shared/schema";
+import { getPublicClient } from "./wallet";
+import type { ContractTx } from "./signer";
+
+// ─── LP fee rewards (Clanker v4 fee locker) ───────────────────────────────────
+// Swap fees for every ConwayPad token are split per `rewards.recipients` and parked in
+// the fee locker, keyed by (recipient, fee token). Fees taken in the paired asset pool
+// into one WETH balance per recipient; fees taken in the launched token are per token.
+// Claiming is `claim(recipient, feeToken)` — for creators the server only builds the
+// calldata and their own wallet sends it (the platform's share is claimed in platform-revenue.ts).
+
+export const WETH_ADDRESS = WETH_ADDRESSES[base.id];
+const MAX_REWARD_TOKENS = 500;
+// The platform scan reads every mirrored token; bigger aggregate3 batches mean fewer RPC calls
+const MULTICALL_BATCH_BYTES = 32_768;
+
+// No wallet or client needed: only used to build the fee locker calls
+const clanker = new Clanker();
+
+export interface RewardBalance {
+  token: string;          // fee token the balance is denominated in
+  name: string;
+  symbol: string;
+  amount: string;         // wei, decimal string
+  formatted: string;
+  usd: number | null;     // from the mirror's price; null for WETH
+}
+
+// Fee locker balances of `recipient` in WETH and in each of `tokens`, one multicall
+export async function readRewardBalances(recipient: `0x${string}`, tokens: Token[]): Promise<{ weth: RewardBalance; tokens: RewardBalance[] }> {
+  const feeTokens = [WETH_ADDRESS, ...tokens.map(t => t.address as `0x${string}`)];
+  const contracts = await Promise.all(
+    feeTokens.map(token => clanker.getAvailableRewardsTransaction({ token, rewardRecipient: recipient }))
+  );
+  const results = await getPublicClient().multicall({ contracts, allowFailure: true, batchSize: MULTICALL_BATCH_BYTES });
+
+  const amountAt = (i: number) => results[i].status === "success" ? (results[i].result as bigint) : BigInt(0);
+
+  const wethAmount = amountAt(0);
+  const weth: RewardBalance = {
+    token: WETH_ADDRESS,
+    name: "Wrapped Ether",
+    symbol: "WETH",
+    amount: wethAmount.toString(),
+    formatted: formatUnits(wethAmount, 18),
+    usd: null,
+  };
+
+  // Clanker tokens all use 18 decimals
+  const balances: RewardBalance[] = tokens.map((t, i) => {
+    const amount = amountAt(i + 1);
+    const formatted = formatUnits(amount, 18);
+    return {
+      token: t.address,
+      name: t.name,
+      symbol: t.symbol,
+      amount: amount.toString(),
+      formatted,
+      usd: t.priceUsd ? Number(formatted) * t.priceUsd : null,
+    };
+  });
+
+  return { weth, tokens: balances };
+}
+
+export async function getCreatorRewards(wallet: string): Promise<{ wallet: string; weth: RewardBalance; tokens: RewardBalance[]; totalTokenUsd: number }> {
+  const recipient = wallet.toLowerCase() as `0x${string}`;
+  const { tokens } = await storage.listTokens({ tokenAdmin: recipient, limit: MAX_REWARD_TOKENS, offset: 0 });
+  const balances = await readRewardBalances(recipient, tokens);
+
+  return {
+    wallet: recipient,
+    ...balances,
+    totalTokenUsd: balances.tokens.reduce((sum, b) => sum + (b.usd ?? 0), 0),
+  };
+}
+
+// Fee locker claim(recipient, feeToken) call, in the shape the agent signer sends
+export async function getClaimCall(recipient: string, feeToken: string): Promise<ContractTx> {
+  const tx = await clanker.getClaimRewardsTransaction({
+    token: feeToken as `0x${string}`,
+    rewardRecipient: recipient as `0x${string}`,
+  });
+  return { address: tx.address, abi: tx.abi, functionName: tx.functionName, args: tx.args, chainId: base.id };
+}
+
+// Unsigned claim tx for one fee token; the caller's wallet sends it
+export async function buildClaimTransaction(wallet: string, feeToken: string) {
+  const tx = await getClaimCall(wallet, feeToken);
+  return {
+    to: tx.address,
+    data: encodeFunctionData({ abi: tx.abi, functionName: tx.functionName, args: tx.args }),
+    value: "0x0",
+    chainId: base.id,
+  };
+}
@@ -1,34 +1,57 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import https from "node:https";
-import { storage } from "./storage";
-import { insertChatMessageSchema, insertTrackedWalletSchema, insertTokenLaunchSchema } from "@shared/schema";
-import { privateKeyToAccount } from "viem/accounts";
-import { createWalletClient, createPublicClient, http as viemHttp } from "viem";
-import { base } from "viem/chains";
+import { storage, type TokenCursor } from "./storage";
+import {
+  insertChatMessageSchema, trackedWalletInputSchema, updateTrackedWalletSchema, insertTokenLaunchSchema,
+  tokenQuerySchema, leaderboardQuerySchema, rewardSplitsSchema, checkRewardSplits, deployAdvancedSchema, rateLimitRuleUpdateSchema, moderationReviewSchema, deployMetadataSchema, MARKET_INTERVALS, type MarketInterval,
+  type DeployParams, type DeploySlot, type RewardSplit,
+} from "@shared/schema";
+import { SOCIAL_LINK_FIELDS, SOCIAL_PLATFORM_LABELS, type SocialLinkField, type SocialPlatform } from "@shared/social-links";
 import { createPaymentHeader as x402CreatePaymentHeader } from "x402/client";
-import { Clanker } from "clanker-sdk/v4";
+import { AGENT_WALLET_ADDRESS, ZERO_ADDRESS, getViemClients } from "./wallet";
+import {
+  enqueueDeployment, submitDeployment, reviewDeployment, startDeploymentWorker, getRewardRecipients, getRewardPolicy,
+  checkAdvancedOptions, getDeployLimits,
+} from "./deployments";
+import { startTokenIndexer, isTokenIndexReady, getIndexerStatus, serializeToken } from "./indexer";
+import { startSnapshotCollector, getSnapshotStatus } from "./market-snapshots";
+import { getCreatorProfile } from "./creators";
+import { getLeaderboard } from "./leaderboard";
+import { getCreatorRewards, buildClaimTransaction, WETH_ADDRESS } from "./rewards";
+import { startPlatformClaimJob, runPlatformClaims, getPlatformRevenueReport } from "./platform-revenue";
+import { getSignerStats } from "./signer";
+import { simulateDeployment } from "./deploy-simulation";
+import { checkTokenIdentity, identityRejection } from "./token-identity";
+import { getModerationPolicy } from "./moderation";
+import { startWalletHealthMonitor, getWalletHealth, recordInferencePayment } from "./wallet-health";
+import { uploadTokenImage, IMAGE_CONTENT_TYPES, MAX_IMAGE_BYTES } from "./token-images";
+import { getPinner, LocalFsPinner } from "./ipfs";
+import {
+  rateLimit, hitRateLimit, rateLimitMessage, startRateLimitJanitor,
+  getRateLimitPolicy, updateRateLimitRule, resetRateLimitRule,
+} from "./rate-limit";
+import {
+  DRAFT_TTL_MS, getActiveDraft, saveDraft, clearDraft, claimDraft, mergeDraftParams,
+  isConfirmMessage, isCancelMessage, looksLikeDraftEdit,
+} from "./deploy-drafts";
+import {
+  SLOT_QUESTION_END, getDialogue, saveDialogue, clearDialogue, readDialogueReply, describeDialogue,
+} from "./chat-dialogue";
+import type { ChatEvent } from "@shared/chat-events";
+import { CLANKER_API, proxyGet, getAgentTokensByAdmin } from "./clanker-api";
+import { setupAuth, requireAuth, requireAdmin, getSessionWallet, getSessionUserId, isAdminWallet } from "./auth";
+import {
+  CHAT_TOOLS, accumulateToolCallDeltas, parseToolCall, runLookupToken, runLookupWallet, type ToolCall,
+} from "./chat-tools";
 
-const CLANKER_API = "https://www.clanker.world/api";
 // x402-compatible endpoint: inference.conway.tech (no API key needed, pay per request via USDC)
 // api.conway.tech requires prepaid credits — does NOT support x402
 const CONWAY_INFERENCE = "https://inference.conway.tech/v1/chat/completions";
 const CONWAY_API_KEY = process.env.CONWAY_API_KEY || "";
-const CONWAY_WALLET_PRIVATE_KEY = process.env.CONWAY_WALLET_PRIVATE_KEY as `0x${string}` | undefined;
 
 const conwayHttpsAgent = new https.Agent({ rejectUnauthorized: false });
 
-// Derive agent wallet address at startup
-let AGENT_WALLET_ADDRESS: `0x${string}` = "0x0000000000000000000000000000000000000000";
-if (CONWAY_WALLET_PRIVATE_KEY) {
-  try {
-    AGENT_WALLET_ADDRESS = privateKeyToAccount(CONWAY_WALLET_PRIVATE_KEY).address;
-    console.log("[ConwayPad] Agent wallet:", AGENT_WALLET_ADDRESS);
-  } catch (e) {
-    console.error("[ConwayPad] Could not derive agent wallet address");
-  }
-}
-
 function httpsPost(url: string, headers: Record<string, string>, body: string): Promise<{ status: number; body: string }> {
   return new Promise((resolve, reject) => {
     const parsed = new URL(url);
@@ -67,45 +90,23 @@ function httpsPostStream(url: string, headers: Record<string, string>, body: str
   });
 }
 
-async function proxyGet(url: string): Promise<{ data: any; status: number }> {
-  try {
-    const res = await fetch(url, {
-      headers: { "Accept": "application/json", "User-Agent": "ConwayPad/1.0" },
-    });
-    const text = await res.text();
-    try {
-      return { data: JSON.parse(text), status: res.status };
-    } catch {
-      return { data: { raw: text }, status: res.status };
-    }
-  } catch (err: any) {
-    return { data: { error: err.message }, status: 500 };
-  }
-}
-
-function getViemClients() {
-  if (!CONWAY_WALLET_PRIVATE_KEY) return null;
-  try {
-    const account = privateKeyToAccount(CONWAY_WALLET_PRIVATE_KEY);
-    const publicClient = createPublicClient({ chain: base, transport: viemHttp() });
-    const wallet = createWalletClient({ account, chain: base, transport: viemHttp() });
-    return { account, publicClient, wallet };
-  } catch {
-    return null;
-  }
+// Creator / platform LP fee shares under the configured policy, e.g. { creator: "90%", platform: "10%" }
+function feeShares(): { creator: string; platform: string } {
+  const { creatorBps, platformBps } = getRewardPolicy();
+  return { creator: `${creatorBps / 100}%`, platform: `${platformBps / 100}%` };
 }
 
 const SYSTEM_PROMPT = `You are ConwayPad AI, a helpful assistant for the ConwayPad token launch platform on Base blockchain.
 
 ConwayPad uses Clanker infrastructure to deploy ERC-20 tokens on Base with:
 - Automatic Uniswap V3 liquidity pools (permanently locked)
-- Fee split: 90% of LP fees go to the token creator, 10% to ConwayPad
+- Fee split: ${feeShares().creator} of LP fees go to the token creator, ${feeShares().platform} to ConwayPad
 - Token creator becomes "tokenAdmin" (can manage governance)
 - Deployer is the ConwayPad agent wallet (on behalf of creator)
 
 You can help users with:
-1. **Deploying tokens** - Parse deploy requests and execute deployments
-2. **Checking tokens** - Look up token market caps, prices, trading data
+1. **Deploying tokens** - Call the deploy_token tool; it shows a preview the user must confirm
+2. **Checking tokens** - Call lookup_token / lookup_wallet for market caps, prices, trading data
 3. **Platform questions** - Explain how ConwayPad/Clanker works
 4. **General crypto questions** - Base blockchain, Uniswap, DexScreener, etc.
 
@@ -115,8 +116,14 @@ When a user wants to deploy a token, they should provide:
 - Wallet address (required, their 0x address to be set as tokenAdmin)
 - Website URL (optional)
 - X URL (optional)
+- Telegram, Farcaster, Discord and GitHub links (optional)
 - Description (optional)
 - Image URL (optional, IPFS or HTTPS)
+- Extra fee recipients (optional, e.g. a co-founder or treasury): 0x address + percent of all LP fees, taken from the creator's share
+
+Only call deploy_token with values the user actually gave — never invent a name, symbol or wallet.
+If the user is changing a pending preview, pass just the changed fields. Never claim a token has been
+deployed; that only happens after the user confirms the preview.
 
 Always be concise, helpful, and accurate. Format numbers with commas and dollar signs where appropriate.`;
 
@@ -136,19 +143,19 @@ function normalizePaymentRequirements(req: any): any {
   return { ...req, network: CAIP2_TO_X402_NETWORK[network] || network };
 }
 
-// ─── Parse structured deploy request ──────────────────────────────────────────
+// ─── Parse structured deploy request (offline fallback) ───────────────────────
 // Handles format: "Deploy token Name X symbol Y website Z x URL wallet 0x..."
-interface DeployParams {
-  name?: string;
-  symbol?: string;
-  wallet?: string;
-  websiteUrl?: string;
-  twitterUrl?: string;
-  description?: string;
-  imageUrl?: string;
+// and labelled fields on one line: "Deploy token Name: Moon Symbol: MOON Description: cool coin Wallet: 0x..."
+// Normally the model's deploy_token tool call does this; the regexes only run when
+// Conway inference is unavailable.
+
+// Links that didn't validate are left out of `params` and explained in `linkErrors`
+interface ParsedDeployFields {
+  params: DeployParams;
+  linkErrors: string[];
 }
 
-function parseDeployMessage(text: string): DeployParams | null {
+function parseDeployMessage(text: string): ParsedDeployFields | null {
   const lower = text.toLowerCase();
 
   // Must look like a deploy request
@@ -156,10 +163,53 @@ function parseDeployMessage(text: string): DeployParams | null {
     return null;
   }
 
+  const parsed = parseDeployFields(text);
+
+  // Only return if we have at least name or symbol
+  if (parsed.params.name || parsed.params.symbol) return parsed;
+  return null;
+}
+
+// "Label: value" for each link field; the value is validated by deployMetadataSchema
+const LINK_PATTERNS: Record<SocialLinkField, RegExp> = {
+  websiteUrl: /\b(?:website|web)[:\s]+(\S+)/i,
+  twitterUrl: /\b(?:twitter|x)[:\s]+(@?[^\s,;]+)/i,
+  telegramUrl: /\b(?:telegram|tg)[:\s]+(@?[^\s,;]+)/i,
+  farcasterUrl: /\b(?:farcaster|warpcast)[:\s]+(@?[^\s,;]+)/i,
+  discordUrl: /\bdiscord[:\s]+([^\s,;]+)/i,
+  githubUrl: /\bgithub[:\s]+([^\s,;]+)/i,
+};
+
+// Extra fee recipients, one per line: "Split: 0x… 20% treasury" (percent of all LP fees)
+const SPLIT_RE = /\b(?:split|recipient)[:\s]+(0x[a-fA-F0-9]{40})\s+(\d+(?:\.\d+)?)\s*%[ \t]*([^\n,;]*)/gi;
+const NO_SPLITS_RE = /\bsplits?[:\s]+none\b/i;
+// Description: up to the end of its line or the next "Label:" on the same line, so
+// "Name: Moon Description: cool coin Wallet: 0x…" keeps the wallet. Only labels with a
+// colon end it, so "join our discord for updates" stays description text.
+const DESCRIPTION_RE = /\b(?:description|desc)[:\s]+(.+?)(?=\s+(?:name|symbol|ticker|wallet|image|website|web|x|twitter|telegram|tg|farcaster|warpcast|discord|github|splits?|recipient)\s*:|\n|$)/i;
+
+// Field extraction without the intent check (also used for edits to a pending draft)
+function parseDeployFields(text: string): ParsedDeployFields {
   const params: DeployParams = {};
+  const linkErrors: string[] = [];
+
+  // Splits first, and cut out so their addresses aren't taken for the wallet
+  const splits: RewardSplit[] = [];
+  text = text.replace(SPLIT_RE, (_match, recipient: string, percent: string, label: string) => {
+    splits.push({ recipient: recipient.toLowerCase(), bps: Math.round(Number(percent) * 100), label: label.trim() || undefined });
+    return "";
+  });
+  if (splits.length > 0) params.rewardSplits = splits;
+  else if (NO_SPLITS_RE.test(text)) params.rewardSplits = [];
+
+  // Description, cut out too so its words aren't read as links or other fields
+  text = text.replace(DESCRIPTION_RE, (_match, description: string) => {
+    params.description = description.trim();
+    return "";
+  });
 
   // Name
-  const nameMatch = text.match(/\bname[:\s]+([^\n,;]+?)(?=\s+(?:symbol|ticker|x\s|twitter|website|wallet|image|description)|$)/i) ||
+  const nameMatch = text.match(/\bname[:\s]+([^\n,;]+?)(?=\s+(?:symbol|ticker|x\s|twitter|website|telegram|farcaster|discord|github|wallet|image|description)|$)/i) ||
     text.match(/\btoken\s+(?:name[:\s]+)?([A-Za-z][A-Za-z0-9\s]{1,30}?)(?=\s+(?:symbol|ticker|$))/i);
   if (nameMatch) params.name = nameMatch[1].trim().replace(/\s+/g, " ");
 
@@ -172,88 +222,103 @@ function parseDeployMessage(text: string): DeployParams | null {
   const walletMatch = text.match(/\b(0x[a-fA-F0-9]{40})\b/);
   if (walletMatch) params.wallet = walletMatch[1];
 
-  // Website
-  const websiteMatch = text.match(/\bwebsite[:\s]+(\S+)/i) ||
-    text.match(/\bweb[:\s]+(\S+)/i);
-  if (websiteMatch) {
-    let url = websiteMatch[1].trim();
-    if (!url.startsWith("http")) url = "https://" + url;
-    params.websiteUrl = url;
-  }
-
-  // X social link
-  const twitterMatch = text.match(/\b(?:twitter|x)[:\s]+(https?:\/\/[^\s]+)/i) ||
-    text.match(/\b(?:twitter|x)[:\s]+(@?[^\s\n,;]+)/i);
-  if (twitterMatch) {
-    let url = twitterMatch[1].trim();
-    if (!url.startsWith("http") && url.startsWith("@")) url = "https://x.com/" + url.slice(1);
-    else if (!url.startsWith("http")) url = "https://x.com/" + url;
-    params.twitterUrl = url;
+  // Social links, canonicalised one by one so a bad link doesn't drop the others
+  for (const [field, pattern] of Object.entries(LINK_PATTERNS) as [SocialLinkField, RegExp][]) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const link = deployMetadataSchema.shape[field].safeParse(match[1].replace(/[.,;)]+$/, ""));
+    if (link.success) params[field] = link.data;
+    else linkErrors.push(...link.error.issues.map(i => i.message));
   }
 
-  // Description
-  const descMatch = text.match(/\b(?:description|desc)[:\s]+([^\n]+)/i);
-  if (descMatch) params.description = descMatch[1].trim();
-
   // Image URL
   const imageMatch = text.match(/\bimage[:\s]+(\S+)/i) || text.match(/\bipfs:\/\/\S+/i);
   if (imageMatch) params.imageUrl = imageMatch[1] || imageMatch[0];
 
-  // Only return if we have at least name or symbol
-  if (params.name || params.symbol) return params;
-  return null;
+  return { params, linkErrors };
 }
 
-// ─── Deploy token via Clanker SDK ─────────────────────────────────────────────
-async function deployTokenViaSDK(params: DeployParams): Promise<{ success: boolean; txHash?: string; error?: string }> {
-  const clients = getViemClients();
-  if (!clients) {
-    return { success: false, error: "Server wallet not configured. Add CONWAY_WALLET_PRIVATE_KEY." };
-  }
-  if (!params.name || !params.symbol || !params.wallet) {
-    return { success: false, error: "Name, symbol, and wallet address are required." };
-  }
-
-  try {
-    const clanker = new Clanker({ wallet: clients.wallet, publicClient: clients.publicClient });
-    const tokenAdmin = params.wallet as `0x${string}`;
-
-    const socialMediaUrls: { platform: string; url: string }[] = [];
-    if (params.websiteUrl) socialMediaUrls.push({ platform: "website", url: params.websiteUrl });
-    if (params.twitterUrl) socialMediaUrls.push({ platform: "x", url: params.twitterUrl });
-
-    const { txHash, waitForTransaction, error } = await clanker.deploy({
-      name: params.name,
-      symbol: params.symbol,
-      tokenAdmin,
-      image: params.imageUrl || "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
-      metadata: {
-        description: params.description || `${params.name} — deployed via ConwayPad`,
-        socialMediaUrls,
-        auditUrls: [],
-      },
-      context: {
-        interface: "ConwayPad",
-        platform: "ConwayPad",
-        messageId: "1",
-        id: "1",
-      },
-      rewards: {
-        recipients: [
-          { admin: tokenAdmin, recipient: tokenAdmin, bps: 9000, token: "Both" as const },
-          { admin: AGENT_WALLET_ADDRESS as `0x${string}`, recipient: AGENT_WALLET_ADDRESS as `0x${string}`, bps: 1000, token: "Both" as const },
-        ],
-      },
-    });
+// "70% you · 20% treasury · 10% ConwayPad" for chat previews
+function describeFeeSplit(params: DeployParams): string {
+  return getRewardRecipients(params.wallet!, params.rewardSplits).map(r => {
+    const who = r.role === "creator" ? "you"
+      : r.role === "platform" ? "ConwayPad"
+      : r.label || `${r.recipient.slice(0, 6)}…${r.recipient.slice(-4)}`;
+    return `${r.bps / 100}% ${who}`;
+  }).join(" · ");
+}
 
-    if (error) return { success: false, error: String(error) };
+// The next question of a multi-turn deploy: only the required fields still missing
+function askForSlots(params: DeployParams, missing: DeploySlot[]): string {
+  const prompts: Record<DeploySlot, string> = {
+    name: "a **name** for the token (e.g. `Moon Coin`)",
+    symbol: "a **symbol** / ticker, 2-10 letters (e.g. `MOON`)",
+    wallet: `**your wallet address** (format: 0x...) to set as token admin and receive ${getRewardPolicy().creatorBps / 100}% of LP fees`,
+  };
+  const intro = params.name && params.symbol ? `Ready to deploy **${params.name}** (${params.symbol})!`
+    : params.name || params.symbol ? `Got it: **${params.name || params.symbol}**.`
+    : `Let's launch a token.`;
+  const example = missing.includes("name") && missing.includes("symbol") ? "`Moon Coin (MOON)`"
+    : missing[0] === "name" ? "`Moon Coin`"
+    : missing[0] === "symbol" ? "`MOON`"
+    : "`0x1234...5678`";
+  return [
+    intro,
+    ``,
+    missing.length === 1 ? `I just need one more thing: ${prompts[missing[0]]}.` : `I still need:\n${missing.map(s => `- ${prompts[s]}`).join("\n")}`,
+    ``,
+    `Just reply with it, e.g. ${example}. ${SLOT_QUESTION_END}`,
+  ].join("\n");
+}
 
-    // Don't wait for full confirmation, return txHash immediately
-    waitForTransaction().catch(() => {});
-    return { success: true, txHash };
-  } catch (err: any) {
-    return { success: false, error: err?.message || "Deployment failed" };
+// ─── Execute a confirmed chat deploy ──────────────────────────────────────────
+// Streams progress through `emit` and returns the full text for chat history.
+async function executeDraftDeploy(params: DeployParams, emit: (event: ChatEvent) => void): Promise<string> {
+  const start = `⏳ Deploying **${params.name}** (${params.symbol}) to Base...`;
+  emit({ type: "text", content: start });
+
+  // Queue the job and send the tx; the worker tracks confirmation
+  const job = await enqueueDeployment({
+    ...params,
+    name: params.name!,
+    symbol: params.symbol!,
+    wallet: params.wallet!,
+  });
+  if (job.status === "flagged") {
+    const held = [
+      `🛡️ **Held for Review**`,
+      ``,
+      `- **Deployment ID:** #${job.id}`,
+      ...(job.moderation ?? []).map(f => `- **${f.field}:** ${f.reason}`),
+      ``,
+      `A moderator will approve or reject this launch. Nothing has been sent on-chain yet; track it in the "My Launches" tab.`,
+    ].join("\n");
+    emit({ type: "text", content: "\n\n" + held });
+    emit({ type: "deploy_submitted", deploymentId: job.id, txHash: null, status: job.status });
+    return `${start}\n\n${held}`;
+  }
+  const deployment = await submitDeployment(job.id);
+
+  if (deployment && deployment.status !== "failed") {
+    const success = [
+      deployment.txHash ? `✅ **Deployment Submitted!**` : `✅ **Deployment Queued!**`,
+      ``,
+      `- **Deployment ID:** #${job.id}`,
+      deployment.txHash ? `- **TX Hash:** \`${deployment.txHash}\`` : "",
+      deployment.txHash ? `- **Basescan:** https://basescan.org/tx/${deployment.txHash}` : "",
+      ``,
+      `Your token will appear on Clanker and DexScreener once confirmed on-chain. Track its status in the "My Launches" tab.`,
+    ].filter(l => l !== "").join("\n");
+    emit({ type: "text", content: "\n\n" + success });
+    emit({ type: "deploy_submitted", deploymentId: job.id, txHash: deployment.txHash, status: deployment.status });
+    return `${start}\n\n${success}`;
   }
+
+  const error = deployment?.error || "Unknown error";
+  const fail = `❌ **Deployment Failed**\n\nError: ${error}\n\nMake sure CONWAY_WALLET_PRIVATE_KEY is configured and the server wallet has ETH for gas.`;
+  emit({ type: "text", content: "\n\n" + fail });
+  emit({ type: "deploy_result", deploymentId: job.id, status: "failed", error });
+  return `${start}\n\n${fail}`;
 }
 
 // ─── Conway x402 Inference ────────────────────────────────────────────────────
@@ -269,7 +334,12 @@ async function callConwayAI(
   messages: Array<{ role: string; content: string }>,
   onChunk: (chunk: string) => void,
   onDone: () => void,
-  onError: (msg: string) => void
+  onError: (msg: string) => void,
+  extras: {
+    onPayment?: (payment: { network: string; asset: string; payTo: string; amount: string }) => void;
+    // Called once per request, after the stream ends, with any tool calls the model made
+    onToolCalls?: (calls: ToolCall[]) => void;
+  } = {}
 ): Promise<void> {
   const clients = getViemClients();
   if (!clients) {
@@ -282,10 +352,12 @@ async function callConwayAI(
     messages: [{ role: "system", content: SYSTEM_PROMPT }, ...messages],
     max_tokens: 2048,
     stream: true,
+    tools: CHAT_TOOLS,
   });
 
-  // Parse OpenAI-compatible SSE stream and pipe text chunks to onChunk
+  // Parse OpenAI-compatible SSE stream: text chunks go to onChunk, tool_calls deltas are accumulated
   const readSseStream = async (stream: NodeJS.ReadableStream): Promise<void> => {
+    const toolCalls: ToolCall[] = [];
     let buf = "";
     for await (const raw of stream) {
       buf += raw.toString();
@@ -297,11 +369,14 @@ async function callConwayAI(
         if (data === "[DONE]") continue;
         try {
           const parsed = JSON.parse(data);
-          const delta = parsed.choices?.[0]?.delta?.content || "";
-          if (delta) onChunk(delta);
+          const delta = parsed.choices?.[0]?.delta;
+          if (delta?.content) onChunk(delta.content);
+          if (Array.isArray(delta?.tool_calls)) accumulateToolCallDeltas(toolCalls, delta.tool_calls);
         } catch { }
       }
     }
+    const complete = toolCalls.filter(c => c && c.name);
+    if (complete.length) extras.onToolCalls?.(complete);
   };
 
   // Read full body from stream
@@ -380,6 +455,13 @@ async function callConwayAI(
     }, bodyStr);
 
     if (step2.status === 200) {
+      recordInferencePayment(String(paymentRequired.accepts[0].maxAmountRequired ?? "0"));
+      extras.onPayment?.({
+        network: String(paymentRequired.accepts[0].network ?? ""),
+        asset: String(paymentRequired.accepts[0].asset ?? ""),
+        payTo: String(paymentRequired.accepts[0].payTo ?? ""),
+        amount: String(paymentRequired.accepts[0].maxAmountRequired ?? "0"),
+      });
       await readSseStream(step2.stream);
       onDone();
       return;
@@ -400,24 +482,96 @@ async function callConwayAI(
   }
 }
 
+// ─── Pagination helpers (offset cursors over the token mirror) ────────────────
+function pageParams(query: Record<string, unknown>, defaultLimit: number, maxLimit: number) {
+  const limit = Math.min(Math.max(Number(query.limit) || defaultLimit, 1), maxLimit);
+  const offset = Math.max(Number(query.cursor) || 0, 0);
+  return { limit, offset };
+}
+
+function pageResponse<T>(tokens: T[], total: number, offset: number) {
+  const next = offset + tokens.length;
+  return { tokens, total, hasMore: next < total, cursor: next < total ? String(next) : null };
+}
+
+// Opaque keyset cursor for /api/tokens (base64url JSON of the storage TokenCursor)
+function encodeTokenCursor(cursor: TokenCursor | null): string | null {
+  return cursor ? Buffer.from(JSON.stringify(cursor)).toString("base64url") : null;
+}
+
+function decodeTokenCursor(cursor: string): TokenCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed?.v === "number" && typeof parsed?.a === "string") return { v: parsed.v, a: parsed.a };
+  } catch {}
+  return null;
+}
+
+// Deploy request body (form or simulate) → params for `tokenAdmin`, or the 400 error
+function parseDeployBody(body: any, tokenAdmin: string):
+  { params: DeployParams & { name: string; symbol: string; wallet: string } } | { error: unknown } {
+  const { name, symbol } = body;
+  if (!name || !symbol) return { error: "name and symbol are required" };
+  // Description, image and social links; bad links come back as field-level issues
+  const metadata = deployMetadataSchema.safeParse(body);
+  if (!metadata.success) return { error: metadata.error };
+
+  const splits = rewardSplitsSchema.safeParse(body.rewardSplits ?? []);
+  if (!splits.success) return { error: splits.error };
+  const splitError = checkRewardSplits(splits.data, tokenAdmin, getRewardPolicy().creatorBps);
+  if (splitError) return { error: splitError };
+  // Optional v4 extras: { vault, devBuy, pool, fees }
+  const { vault, devBuy, pool, fees } = body;
+  const advanced = deployAdvancedSchema.safeParse({ vault, devBuy, pool, fees });
+  if (!advanced.success) return { error: advanced.error };
+  const optionsError = checkAdvancedOptions(advanced.data);
+  if (optionsError) return { error: optionsError };
+
+  return {
+    params: {
+      name, symbol, wallet: tokenAdmin,
+      ...metadata.data,
+      rewardSplits: splits.data.length > 0 ? splits.data : undefined,
+      ...advanced.data,
+    },
+  };
+}
+
 export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
+  startDeploymentWorker();
+  startTokenIndexer();
+  startSnapshotCollector();
+  startPlatformClaimJob();
+  startWalletHealthMonitor();
+  startRateLimitJanitor();
+  setupAuth(app);
 
   // ─── Agent Info ───────────────────────────────────────────────────────────
   app.get("/api/agent/info", (_req, res) => {
     res.json({
       agentWallet: AGENT_WALLET_ADDRESS,
-      configured: AGENT_WALLET_ADDRESS !== "0x0000000000000000000000000000000000000000",
+      configured: AGENT_WALLET_ADDRESS !== ZERO_ADDRESS,
+      signer: getSignerStats(),
+      indexer: getIndexerStatus(),
+      snapshots: getSnapshotStatus(),
+      rewards: getRewardPolicy(),
+      deployLimits: getDeployLimits(),
+      health: getWalletHealth(),
     });
   });
 
   // ─── ConwayPad Tokens (only from agent wallet) ────────────────────────────
+  // Served from the local mirror (see indexer.ts); `cursor` is an offset into the newest-first list
   app.get("/api/conway/tokens", async (req, res) => {
-    const limit = req.query.limit || "20";
-    const cursor = req.query.cursor ? `&cursor=${req.query.cursor}` : "";
-    const { data, status } = await proxyGet(
-      `${CLANKER_API}/search-creator?q=${AGENT_WALLET_ADDRESS}&limit=${limit}${cursor}`
-    );
-    res.status(status).json(data);
+    const { limit, offset } = pageParams(req.query, 20, 100);
+    if (!isTokenIndexReady()) {
+      const { data, status } = await proxyGet(
+        `${CLANKER_API}/search-creator?q=${AGENT_WALLET_ADDRESS}&limit=${limit}&offset=${offset}`
+      );
+      return res.status(status).json(data);
+    }
+    const { tokens, total } = await storage.listTokens({ limit, offset });
+    res.json(pageResponse(tokens.map(serializeToken), total, offset));
   });
 
   // Tokens by tokenAdmin (creator) among agent-deployed tokens
@@ -425,17 +579,107 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     const adminWallet = (req.query.wallet as string || "").toLowerCase();
     if (!adminWallet) return res.status(400).json({ error: "wallet query param required" });
 
-    const { data, status } = await proxyGet(
-      `${CLANKER_API}/search-creator?q=${AGENT_WALLET_ADDRESS}&limit=100`
-    );
-    if (status !== 200) return res.status(status).json(data);
+    if (!isTokenIndexReady()) {
+      const { tokens, status, data } = await getAgentTokensByAdmin(adminWallet);
+      if (status !== 200) return res.status(status).json(data);
+      return res.json({ tokens, total: tokens.length });
+    }
+
+    const { limit, offset } = pageParams(req.query, 100, 500);
+    const { tokens, total } = await storage.listTokens({ tokenAdmin: adminWallet, limit, offset });
+    res.json(pageResponse(tokens.map(serializeToken), total, offset));
+  });
+
+  // ─── Token search (local mirror) ──────────────────────────────────────────
+  // ?q= name/symbol/address · sort=marketCap|volume24h|priceChange24h|deployedAt · order=asc|desc
+  // admin=0x… · from/to (deploy date) · minMarketCap · limit · cursor (from the previous page)
+  // Until the index is ready the plain newest-first list comes from clanker.world (offset
+  // cursors, `indexing: true`); searches and filters answer 503 with `indexing: true`.
+  app.get("/api/tokens", async (req, res) => {
+    const parsed = tokenQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    if (!isTokenIndexReady()) {
+      const { q, sort, order, admin, from, to, minMarketCap } = parsed.data;
+      if (q || admin || from || to || minMarketCap !== undefined || sort !== "deployedAt" || order !== "desc") {
+        return res.status(503).json({ error: "Token index is still building, try again shortly", indexing: true });
+      }
+      const { limit, offset } = pageParams(req.query, 20, 100);
+      const { data, status } = await proxyGet(
+        `${CLANKER_API}/search-creator?q=${AGENT_WALLET_ADDRESS}&limit=${limit}&offset=${offset}`
+      );
+      if (status !== 200) return res.status(status).json(data);
+      const tokens: any[] = data?.tokens || [];
+      return res.json({ ...pageResponse(tokens, Number(data?.total) || offset + tokens.length, offset), indexing: true });
+    }
+
+    const after = parsed.data.cursor ? decodeTokenCursor(parsed.data.cursor) : null;
+    if (parsed.data.cursor && !after) return res.status(400).json({ error: "invalid cursor" });
+
+    const { tokens, total, next } = await storage.queryTokens(parsed.data, after);
+    res.json({ tokens: tokens.map(serializeToken), total, hasMore: next !== null, cursor: encodeTokenCursor(next) });
+  });
+
+  // One token from the mirror, plus its LP reward split and the ConwayPad deployment job if we have it
+  app.get("/api/tokens/:address", async (req, res) => {
+    const address = req.params.address.toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(address)) return res.status(400).json({ error: "invalid token address" });
 
-    const tokens = (data?.tokens || []).filter((t: any) => {
-      const admin = (t.admin || "").toLowerCase();
-      return admin === adminWallet;
+    const token = await storage.getToken(address);
+    if (!token) {
+      if (!isTokenIndexReady()) return res.status(503).json({ error: "Token index is still building, try again shortly" });
+      return res.status(404).json({ error: "Token not found" });
+    }
+
+    const deployment = await storage.getDeploymentByToken(address);
+    res.json({
+      ...serializeToken(token),
+      rewards: getRewardRecipients(token.tokenAdmin, deployment?.params.rewardSplits, deployment?.params.platformBps),
+      deployment: deployment
+        ? { id: deployment.id, status: deployment.status, txHash: deployment.txHash, blockNumber: deployment.blockNumber, createdAt: deployment.createdAt }
+        : null,
     });
+  });
+
+  // OHLC candles from token_market_snapshots: ?interval=5m|15m|1h|4h|1d&limit=<candles, max 500>
+  app.get("/api/tokens/:address/market", async (req, res) => {
+    const address = req.params.address.toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(address)) return res.status(400).json({ error: "invalid token address" });
+
+    const interval = (req.query.interval as string) || "1h";
+    if (!Object.keys(MARKET_INTERVALS).includes(interval)) {
+      return res.status(400).json({ error: `interval must be one of ${Object.keys(MARKET_INTERVALS).join(", ")}` });
+    }
+    const bucketSeconds = MARKET_INTERVALS[interval as MarketInterval];
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+
+    const since = new Date(Date.now() - bucketSeconds * limit * 1000);
+    const candles = await storage.getMarketCandles(address, bucketSeconds, since);
+    res.json({ address, interval, candles });
+  });
+
+  // ─── Creator profiles ─────────────────────────────────────────────────────
+  app.get("/api/creators/:wallet", async (req, res) => {
+    const wallet = req.params.wallet.toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(wallet)) return res.status(400).json({ error: "invalid wallet address" });
+    if (!isTokenIndexReady()) {
+      return res.status(503).json({ error: "Token index is still building, try again shortly" });
+    }
+
+    const profile = await getCreatorProfile(wallet);
+    if (profile.launches === 0) return res.status(404).json({ error: "No ConwayPad launches for this wallet" });
+    res.json(profile);
+  });
 
-    res.json({ tokens, total: tokens.length });
+  // ─── Leaderboard ──────────────────────────────────────────────────────────
+  // ?type=creators|tokens · mode (see CREATOR_/TOKEN_LEADERBOARD_MODES) · window=24h|7d|30d|all · limit
+  app.get("/api/leaderboard", async (req, res) => {
+    const parsed = leaderboardQuerySchema.safeParse({ type: "creators", ...req.query });
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    if (!isTokenIndexReady()) {
+      return res.status(503).json({ error: "Token index is still building, try again shortly" });
+    }
+    res.json(await getLeaderboard(parsed.data));
   });
 
   // ─── Clanker search-creator proxy (for Wallet Tracker) ────────────────────
@@ -446,24 +690,180 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 
   // ─── Token Deploy (SDK) ───────────────────────────────────────────────────
-  app.post("/api/clanker/deploy", async (req, res) => {
-    const { name, symbol, tokenAdmin, description, imageUrl, websiteUrl, twitterUrl } = req.body;
+  // The signed-in wallet is always the token admin
+  const deployLimit = rateLimit("deploy", req => ({ session: getSessionUserId(req), tokenAdmin: getSessionWallet(req) }));
+  app.post("/api/clanker/deploy", requireAuth, deployLimit, async (req, res) => {
+    const tokenAdmin = getSessionWallet(req)!;
+    if (req.body.tokenAdmin && String(req.body.tokenAdmin).toLowerCase() !== tokenAdmin) {
+      return res.status(403).json({ error: "tokenAdmin must be the signed-in wallet" });
+    }
+    const parsed = parseDeployBody(req.body, tokenAdmin);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    const identity = await checkTokenIdentity(parsed.params.name, parsed.params.symbol);
+    const identityError = identityRejection(identity);
+    if (identityError) return res.status(422).json({ error: identityError, identity });
+
+    const job = await enqueueDeployment(parsed.params);
+    if (job.status === "flagged") {
+      return res.status(202).json({ deploymentId: job.id, status: job.status, moderation: job.moderation });
+    }
+    const deployment = await submitDeployment(job.id);
+    if (deployment?.status === "failed") return res.status(500).json({ error: deployment.error, deploymentId: job.id });
 
-    if (!name || !symbol || !tokenAdmin) {
-      return res.status(400).json({ error: "name, symbol, and tokenAdmin are required" });
+    res.json({ deploymentId: job.id, txHash: deployment?.txHash, status: deployment?.status ?? job.status });
+  });
+
+  // Dry run of the same deploy: revert check, gas + dev buy cost, agent wallet balance.
+  // Nothing is sent, so any tokenAdmin may be simulated (chat previews name their own); default: the session wallet.
+  app.post("/api/clanker/deploy/simulate", rateLimit("simulate"), async (req, res) => {
+    const tokenAdmin = String(req.body.tokenAdmin || getSessionWallet(req) || "").toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(tokenAdmin)) {
+      return res.status(400).json({ error: "tokenAdmin must be a 0x address (or sign in)" });
+    }
+    const parsed = parseDeployBody(req.body, tokenAdmin);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    if (!getViemClients()) {
+      return res.status(503).json({ error: "Server wallet not configured. Add CONWAY_WALLET_PRIVATE_KEY." });
+    }
+    try {
+      res.json(await simulateDeployment(parsed.params));
+    } catch (err: any) {
+      console.error("[Deploy] Simulation failed:", err?.shortMessage || err?.message || err);
+      res.status(502).json({ error: "Couldn't reach the RPC to simulate the deploy" });
+    }
+  });
+
+  // ─── Token logo upload ────────────────────────────────────────────────────
+  // Raw image body (Content-Type image/png|jpeg|gif|webp) → 512px square PNG pinned to IPFS
+  app.post("/api/uploads/image", requireAuth, rateLimit("upload"), express.raw({ type: IMAGE_CONTENT_TYPES, limit: MAX_IMAGE_BYTES }), async (req, res) => {
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(415).json({ error: "Send the image as the request body with a PNG, JPEG, GIF or WebP Content-Type" });
+    }
+    try {
+      const result = await uploadTokenImage(req.body);
+      if ("error" in result) return res.status(400).json({ error: result.error });
+      res.json(result.upload);
+    } catch (err: any) {
+      console.error("[IPFS] Upload failed:", err?.message || err);
+      res.status(502).json({ error: "Couldn't pin the image right now" });
+    }
+  });
+
+  // Gateway for the local pinning adapter; real providers serve their own
+  app.get("/api/ipfs/:cid", async (req, res) => {
+    const pinner = getPinner();
+    const data = pinner instanceof LocalFsPinner ? await pinner.read(req.params.cid) : null;
+    if (!data) return res.status(404).json({ error: "Not pinned here" });
+    res.set("Cache-Control", "public, max-age=31536000, immutable").type("png").send(data);
+  });
+
+  // ─── LP fee rewards ───────────────────────────────────────────────────────
+  // Unclaimed fee locker balances for the signed-in creator (WETH + each of their tokens)
+  app.get("/api/rewards", requireAuth, async (req, res) => {
+    try {
+      res.json(await getCreatorRewards(getSessionWallet(req)!));
+    } catch (err: any) {
+      console.error("[Rewards] Read failed:", err?.shortMessage || err?.message || err);
+      res.status(502).json({ error: "Couldn't read the fee locker right now" });
+    }
+  });
+
+  // Calldata for claim(recipient, feeToken); the user's wallet signs and sends it
+  app.post("/api/rewards/claim", requireAuth, async (req, res) => {
+    const wallet = getSessionWallet(req)!;
+    const feeToken = String(req.body?.token || "").toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(feeToken)) return res.status(400).json({ error: "token must be a 0x address" });
+
+    if (feeToken !== WETH_ADDRESS.toLowerCase()) {
+      const token = await storage.getToken(feeToken);
+      if (!token || token.tokenAdmin !== wallet) {
+        return res.status(403).json({ error: "You can only claim rewards for tokens you launched" });
+      }
+    }
+    res.json(await buildClaimTransaction(wallet, feeToken));
+  });
+
+  // ─── Platform revenue (admin) ─────────────────────────────────────────────
+  // Agent wallet's fee locker balances, the claim ledger and daily totals: ?days=<1..365, default 90>
+  app.get("/api/admin/revenue", requireAdmin, async (req, res) => {
+    const days = Math.min(Math.max(Number(req.query.days) || 90, 1), 365);
+    res.json(await getPlatformRevenueReport(days));
+  });
+
+  // Run the batch claim job now instead of waiting for the schedule
+  app.post("/api/admin/revenue/claim", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await runPlatformClaims("manual"));
+    } catch (err: any) {
+      res.status(409).json({ error: err?.message || "Claim run failed" });
     }
+  });
+
+  // ─── Rate limit policy (admin) ────────────────────────────────────────────
+  app.get("/api/admin/rate-limits", requireAdmin, (_req, res) => {
+    res.json(getRateLimitPolicy());
+  });
+
+  // Override one built-in rule: { limit, windowSeconds, enabled }
+  app.put("/api/admin/rate-limits/:id", requireAdmin, async (req, res) => {
+    const parsed = rateLimitRuleUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const updated = await updateRateLimitRule(String(req.params.id), parsed.data, getSessionWallet(req)!);
+    if (!updated) return res.status(404).json({ error: "rate limit rule not found" });
+    res.json(getRateLimitPolicy());
+  });
 
-    const result = await deployTokenViaSDK({ name, symbol, wallet: tokenAdmin, description, imageUrl, websiteUrl, twitterUrl });
-    if (!result.success) return res.status(500).json({ error: result.error });
+  // Back to the built-in default
+  app.delete("/api/admin/rate-limits/:id", requireAdmin, async (req, res) => {
+    const reset = await resetRateLimitRule(String(req.params.id));
+    if (!reset) return res.status(404).json({ error: "rate limit rule not found" });
+    res.json(getRateLimitPolicy());
+  });
+
+  // ─── Moderation queue (admin) ─────────────────────────────────────────────
+  app.get("/api/admin/moderation", requireAdmin, async (_req, res) => {
+    const [flagged, reviewed] = await Promise.all([
+      storage.getDeploymentsByStatus(["flagged"]),
+      storage.getReviewedDeployments(20),
+    ]);
+    res.json({ flagged, reviewed, policy: getModerationPolicy() });
+  });
+
+  // { decision: "approve" | "reject", reason? } — approved launches are sent right away
+  app.post("/api/admin/moderation/:id", requireAdmin, async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) return res.status(400).json({ error: "invalid deployment id" });
+    const parsed = moderationReviewSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const deployment = await reviewDeployment(id, parsed.data, getSessionWallet(req)!);
+    if (!deployment) return res.status(404).json({ error: "flagged deployment not found" });
+    res.json(deployment);
+  });
 
-    // Save to local cache
-    storage.addTokenLaunch({ name, symbol, deployerWallet: tokenAdmin, txHash: result.txHash!, tokenAddress: null }).catch(() => {});
-    res.json({ txHash: result.txHash, status: "pending" });
+  // ─── Deployment status ────────────────────────────────────────────────────
+  app.get("/api/deployments", requireAuth, async (req, res) => {
+    const rows = await storage.getDeploymentsByAdmin(getSessionWallet(req)!);
+    res.json(rows);
+  });
+
+  // Own jobs only (admins see all); someone else's id answers like a missing one
+  app.get("/api/deployments/:id", requireAuth, async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) return res.status(400).json({ error: "invalid deployment id" });
+    const deployment = await storage.getDeployment(id);
+    const wallet = getSessionWallet(req)!;
+    if (!deployment || (deployment.tokenAdmin.toLowerCase() !== wallet && !isAdminWallet(wallet))) {
+      return res.status(404).json({ error: "deployment not found" });
+    }
+    res.json(deployment);
   });
 
   // ─── AI Chat (streaming SSE) ──────────────────────────────────────────────
-  app.post("/api/chat", async (req, res) => {
-    const { message, sessionId, userWallet } = req.body;
+  app.post("/api/chat", rateLimit("chat", req => ({ session: req.body?.sessionId })), async (req, res) => {
+    const { message, sessionId, confirmDraftId } = req.body;
+    // A signed-in wallet wins over the unverified one the client remembers
+    const sessionWallet = getSessionWallet(req);
+    const userWallet = sessionWallet || req.body.userWallet;
     if (!message || !sessionId) {
       return res.status(400).json({ error: "message and sessionId required" });
     }
@@ -472,10 +872,13 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     res.setHeader("Cache-Control", "no-cache");
     res.setHeader("Connection", "keep-alive");
 
-    const sendChunk = (content: string) => {
-      res.write(`data: ${JSON.stringify({ content, done: false })}\n\n`);
+    // Typed frames (see shared/chat-events.ts); text frames keep `content` for older clients
+    const sendEvent = (event: ChatEvent) => {
+      res.write(`data: ${JSON.stringify({ ...event, done: false })}\n\n`);
     };
 
+    const sendChunk = (content: string) => sendEvent({ type: "text", content });
+
     const sendDone = () => {
       res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
       res.end();
@@ -484,85 +887,160 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     try {
       await storage.addChatMessage({ sessionId, role: "user", content: message });
 
-      // ── Check if this is a deploy request ─────────────────────────────────
-      const deployParams = parseDeployMessage(message);
+      const reply = async (content: string) => {
+        sendChunk(content);
+        sendDone();
+        await storage.addChatMessage({ sessionId, role: "assistant", content });
+      };
 
-      if (deployParams && deployParams.name && deployParams.symbol) {
-        const walletToUse = deployParams.wallet || userWallet || "";
+      // ── Pending deploy draft: confirm / cancel ────────────────────────────
+      const draft = await getActiveDraft(sessionId);
+      const dialogue = await getDialogue(sessionId);
 
-        // Missing wallet — ask for it
-        if (!walletToUse || !walletToUse.startsWith("0x")) {
-          const ask = `Ready to deploy **${deployParams.name}** (${deployParams.symbol})!\n\nI just need one more thing: **your wallet address** (format: 0x...) to set as token admin and receive 90% of LP fees.\n\nExample: \`0x1234...5678\``;
-          sendChunk(ask);
-          sendDone();
-          await storage.addChatMessage({ sessionId, role: "assistant", content: ask });
+      if (confirmDraftId !== undefined || ((draft || dialogue) && isConfirmMessage(message))) {
+        if (!draft && dialogue && dialogue.awaiting.length > 0) {
+          return reply(askForSlots(dialogue.slots, dialogue.awaiting));
+        }
+        if (!draft && dialogue) {
+          return reply("There's no current preview to confirm: it expired, or the last change couldn't be used. Send any field again (e.g. `Splits: none`) to get a fresh preview, or **cancel** to drop this deploy.");
+        }
+        if (!draft) {
+          return reply("There's no pending deploy to confirm — previews expire after 10 minutes. Send the deploy request again to get a fresh preview.");
+        }
+        if (confirmDraftId !== undefined && Number(confirmDraftId) !== draft.id) {
+          return reply("That preview is out of date. Please confirm the latest deploy preview instead.");
+        }
+        // Only the proven owner of the token admin wallet can launch
+        if (!sessionWallet) {
+          return reply("Sign in with your wallet (sidebar → **Sign in**) to confirm this deploy. The preview stays valid until it expires.");
+        }
+        if (draft.params.wallet?.toLowerCase() !== sessionWallet) {
+          return reply(`This preview sets \`${draft.params.wallet}\` as token admin, but you're signed in as \`${sessionWallet}\`. Send \`Wallet: ${sessionWallet}\` to update it, or sign in with that wallet.`);
+        }
+        const identityError = identityRejection(await checkTokenIdentity(draft.params.name!, draft.params.symbol!));
+        if (identityError) return reply(`${identityError}. Send a different name or symbol to update the preview.`);
+        if (!isAdminWallet(sessionWallet)) {
+          const verdict = await hitRateLimit("deploy", { ip: req.ip, session: sessionId, tokenAdmin: sessionWallet });
+          if (!verdict.allowed) return reply(`${rateLimitMessage(verdict)} Your preview is kept until it expires.`);
+        }
+        // Only the request that removes the draft deploys it (double-click, button + typed confirm)
+        const claimed = await claimDraft(draft);
+        if (!claimed) return reply("This preview has already been confirmed or replaced. Check the \"My Launches\" tab for its status.");
+        await clearDialogue(sessionId);
+        const content = await executeDraftDeploy(claimed.params, sendEvent);
+        sendDone();
+        await storage.addChatMessage({ sessionId, role: "assistant", content });
+        return;
+      }
+
+      if ((draft || dialogue) && isCancelMessage(message)) {
+        const { name, symbol } = draft?.params ?? dialogue!.slots;
+        await clearDraft(sessionId);
+        await clearDialogue(sessionId);
+        return reply(name && symbol
+          ? `Deploy of **${name}** (${symbol}) cancelled. Nothing was sent on-chain.`
+          : `Deploy cancelled. Nothing was sent on-chain.`);
+      }
+
+      let fullContent = "";
+      let toolCalls: ToolCall[] = [];
+      let aiError = null as string | null;
+
+      // Appends a block of text after whatever has been streamed so far
+      const say = (text: string) => {
+        const chunk = fullContent ? `\n\n${text}` : text;
+        fullContent += chunk;
+        sendChunk(chunk);
+      };
+
+      // Merge the update into the session's deploy dialogue, then ask for the required fields still
+      // missing, or save the draft and stream its preview. An edit that ends without a new preview
+      // drops the old draft, so "confirm" can't deploy fields the user has since changed.
+      const previewDeploy = async (update: DeployParams): Promise<void> => {
+        const params = mergeDraftParams(dialogue?.slots ?? draft?.params, update);
+        params.wallet = params.wallet || userWallet || undefined;
+        const { awaiting } = await saveDialogue(sessionId, params);
+        if (awaiting.length > 0) {
+          if (draft) await clearDraft(sessionId);
+          say(askForSlots(params, awaiting));
+          return;
+        }
+
+        const splitError = checkRewardSplits(params.rewardSplits ?? [], params.wallet!, getRewardPolicy().creatorBps);
+        if (splitError) {
+          if (draft) await clearDraft(sessionId);
+          say(`⚠️ I can't use that fee split: ${splitError}. Send corrected lines like \`Split: 0x… 20% treasury\`, or \`Splits: none\` to drop them.`);
+          return;
+        }
+
+        // Kept as a draft either way so a corrected name or symbol merges into it
+        const saved = await saveDraft(sessionId, params);
+        const identity = await checkTokenIdentity(params.name!, params.symbol!);
+        if (!identity.ok) {
+          const reasons = identity.matches.filter(m => m.severity === "reject").map(m => `- ${m.message}`);
+          say([`⛔ I can't launch **${params.name}** (${params.symbol}):`, ...reasons, ``, `Send a different name or symbol (e.g. \`Symbol: ABC\`) to continue.`].join("\n"));
           return;
         }
 
-        // Show preview first
-        const preview = [
-          `🚀 **Deploy Token Confirmation**`,
+        say([
+          draft ? `✏️ **Deploy Preview Updated**` : `🚀 **Deploy Token Preview**`,
           ``,
-          `- **Name:** ${deployParams.name}`,
-          `- **Symbol:** ${deployParams.symbol}`,
-          `- **Token Admin (Creator):** \`${walletToUse}\``,
-          deployParams.websiteUrl ? `- **Website:** ${deployParams.websiteUrl}` : "",
-          deployParams.twitterUrl ? `- **X:** ${deployParams.twitterUrl}` : "",
-          deployParams.description ? `- **Description:** ${deployParams.description}` : "",
-          `- **Fee Split:** 90% you · 10% ConwayPad`,
+          `- **Name:** ${params.name}`,
+          `- **Symbol:** ${params.symbol}`,
+          `- **Token Admin (Creator):** \`${params.wallet}\``,
+          ...(Object.entries(SOCIAL_LINK_FIELDS) as [SocialLinkField, SocialPlatform][])
+            .map(([field, platform]) => params[field] ? `- **${SOCIAL_PLATFORM_LABELS[platform]}:** ${params[field]}` : ""),
+          params.description ? `- **Description:** ${params.description}` : "",
+          `- **Fee Split:** ${describeFeeSplit(params)}`,
           `- **Liquidity:** Permanently locked on Uniswap V3`,
+          ...identity.matches.map(m => `- ⚠️ ${m.message}`),
           ``,
-          `⏳ Processing deployment to Base blockchain...`,
-        ].filter(Boolean).join("\n");
-
-        sendChunk(preview);
-
-        // Execute deploy
-        const result = await deployTokenViaSDK({
-          ...deployParams,
-          wallet: walletToUse,
-        });
-
-        let finalContent = preview + "\n\n";
-
-        if (result.success) {
-          const success = [
-            `✅ **Token Successfully Deployed!**`,
-            ``,
-            `- **TX Hash:** \`${result.txHash}\``,
-            `- **Basescan:** https://basescan.org/tx/${result.txHash}`,
-            ``,
-            `Your token will appear on Clanker and DexScreener once confirmed on-chain. Check it in the "My Launches" tab.`,
-          ].join("\n");
-          sendChunk("\n\n" + success);
-          finalContent += success;
-
-          // Save to local cache
-          storage.addTokenLaunch({
-            name: deployParams.name!,
-            symbol: deployParams.symbol!,
-            deployerWallet: walletToUse,
-            txHash: result.txHash!,
-            tokenAddress: null,
-          }).catch(() => {});
-        } else {
-          const fail = `\n\n❌ **Deployment Failed**\n\nError: ${result.error}\n\nMake sure CONWAY_WALLET_PRIVATE_KEY is configured and the server wallet has ETH for gas.`;
-          sendChunk(fail);
-          finalContent += fail;
+          `Nothing has been deployed yet. Reply **confirm** to deploy, **cancel** to discard, or send corrected fields (e.g. \`Symbol: ABC\`) to edit. This preview expires in ${DRAFT_TTL_MS / 60000} minutes.`,
+        ].filter(Boolean).join("\n"));
+        sendEvent({ type: "deploy_preview", draftId: saved.id, params, expiresAt: saved.expiresAt.toISOString() });
+      };
+
+      // Regex-parsed fields: explain any links that were left out, then preview
+      const previewParsed = async (parsed: ParsedDeployFields) => {
+        if (parsed.linkErrors.length > 0) {
+          say(`⚠️ I left out ${parsed.linkErrors.length === 1 ? "a link" : "some links"}: ${parsed.linkErrors.join("; ")}.`);
         }
+        await previewDeploy(parsed.params);
+      };
 
-        sendDone();
-        await storage.addChatMessage({ sessionId, role: "assistant", content: finalContent });
-        return;
+      const history = await storage.getChatHistory(sessionId);
+
+      // ── Deploy in progress: answers, "change the symbol to X" and labelled edits ──
+      // Handled without the model, so they always land in this session's deploy
+      if (draft || dialogue) {
+        const lastAssistant = history.filter(m => m.role === "assistant").at(-1);
+        const answersQuestion = !!lastAssistant?.content.endsWith(SLOT_QUESTION_END);
+        const answer = readDialogueReply(message, dialogue?.awaiting ?? [], answersQuestion);
+        if (answer) {
+          const parsed = parseDeployFields(answer.labelled);
+          parsed.params = Object.fromEntries(
+            Object.entries(parsed.params).filter(([key]) => answer.fields.includes(key as keyof DeployParams)),
+          );
+          if (Object.keys(parsed.params).length === 0 && parsed.linkErrors.length === 0) {
+            say(`⚠️ I couldn't read a valid ${answer.fields.join(" and ")} from that.`);
+          }
+          await previewParsed(parsed);
+        } else if (looksLikeDraftEdit(message)) {
+          await previewParsed(parseDeployFields(message));
+        }
+        if (fullContent) {
+          sendDone();
+          await storage.addChatMessage({ sessionId, role: "assistant", content: fullContent });
+          return;
+        }
       }
 
-      // ── Regular AI chat ───────────────────────────────────────────────────
-      const history = await storage.getChatHistory(sessionId);
+      // ── Regular AI chat (with deploy / lookup tools) ──────────────────────
       const messages = history
         .slice(-18)
-        .map(m => ({ role: m.role as "user" | "assistant", content: m.content }));
-
-      let fullContent = "";
+        .map(m => ({ role: m.role as "user" | "assistant" | "system", content: m.content }));
+      // The deploy gathered so far goes just before the latest message
+      if (dialogue) messages.splice(messages.length - 1, 0, { role: "system", content: describeDialogue(dialogue) });
 
       await callConwayAI(
         messages,
@@ -570,25 +1048,51 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
           fullContent += chunk;
           sendChunk(chunk);
         },
-        () => {
-          sendDone();
+        () => {},
+        (errCode) => {
+          aiError = errCode;
         },
-        async (errCode) => {
-          const fallback = generateFallbackResponse(message, errCode);
-          sendChunk(fallback);
-          fullContent = fallback;
-          sendDone();
-          await storage.addChatMessage({ sessionId, role: "assistant", content: fullContent });
-          fullContent = "";
+        {
+          onPayment: (payment) => sendEvent({ type: "payment", ...payment }),
+          onToolCalls: (calls) => {
+            toolCalls = calls;
+          },
         }
       );
 
+      if (aiError) {
+        // Conway unavailable: regex deploy parser first, then the built-in knowledge base
+        const parsed = parseDeployMessage(message);
+        if (parsed) {
+          await previewParsed(parsed);
+        } else {
+          sendEvent({ type: "fallback", reason: aiError });
+          say(generateFallbackResponse(message, aiError));
+        }
+      }
+
+      for (const call of toolCalls) {
+        const tool = parseToolCall(call);
+        if ("error" in tool) {
+          console.warn(`[Chat] Rejected ${tool.name} tool call:`, tool.error);
+          say(`⚠️ I couldn't use \`${tool.name}\`: ${tool.error}.`);
+        } else if (tool.name === "deploy_token") {
+          await previewDeploy(tool.args);
+        } else if (tool.name === "lookup_token") {
+          say(await runLookupToken(tool.args.query));
+        } else if (tool.name === "lookup_wallet") {
+          say(await runLookupWallet(tool.args.wallet));
+        }
+      }
+
+      sendDone();
       if (fullContent) {
         await storage.addChatMessage({ sessionId, role: "assistant", content: fullContent });
       }
     } catch (err: any) {
       console.error("Chat error:", err);
       const errMsg = `An error occurred: ${err.message || "Unknown error"}`;
+      sendEvent({ type: "error", message: err.message || "Unknown error" });
       sendChunk(errMsg);
       sendDone();
       await storage.addChatMessage({ sessionId, role: "assistant", content: errMsg }).catch(() => {});
@@ -608,6 +1112,8 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   app.delete("/api/chat/history/:sessionId", async (req, res) => {
     try {
       await storage.clearChatHistory(req.params.sessionId);
+      await clearDialogue(req.params.sessionId);
+      await clearDraft(req.params.sessionId);
       res.json({ ok: true });
     } catch (err: any) {
       res.status(500).json({ error: err.message });
@@ -615,20 +1121,30 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 
   // ─── Tracked Wallets ──────────────────────────────────────────────────────
-  app.get("/api/tracked-wallets", async (_req, res) => {
-    const wallets = await storage.getTrackedWallets();
+  app.get("/api/tracked-wallets", requireAuth, async (req, res) => {
+    const wallets = await storage.getTrackedWallets(getSessionUserId(req)!);
     res.json(wallets);
   });
 
-  app.post("/api/tracked-wallets", async (req, res) => {
-    const parsed = insertTrackedWalletSchema.safeParse(req.body);
+  app.post("/api/tracked-wallets", requireAuth, async (req, res) => {
+    const parsed = trackedWalletInputSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const wallet = await storage.addTrackedWallet({ ...parsed.data, userId: getSessionUserId(req)! });
+    if (!wallet) return res.status(409).json({ error: "You already track this wallet" });
+    res.json(wallet);
+  });
+
+  app.patch("/api/tracked-wallets/:id", requireAuth, async (req, res) => {
+    const parsed = updateTrackedWalletSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: parsed.error });
-    const wallet = await storage.addTrackedWallet(parsed.data);
+    const wallet = await storage.updateTrackedWallet(Number(req.params.id), getSessionUserId(req)!, parsed.data);
+    if (!wallet) return res.status(404).json({ error: "tracked wallet not found" });
     res.json(wallet);
   });
 
-  app.delete("/api/tracked-wallets/:id", async (req, res) => {
-    await storage.removeTrackedWallet(Number(req.params.id));
+  app.delete("/api/tracked-wallets/:id", requireAuth, async (req, res) => {
+    const removed = await storage.removeTrackedWallet(Number(req.params.id), getSessionUserId(req)!);
+    if (!removed) return res.status(404).json({ error: "tracked wallet not found" });
     res.json({ ok: true });
   });
 
@@ -653,6 +1169,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 function generateFallbackResponse(message: string, errCode?: string): string {
   const q = message.toLowerCase();
   const has = (...words: string[]) => words.some(w => q.includes(w));
+  const fees = feeShares();
 
   // ── Greeting ───────────────────────────────────────────────────────────────
   if (has("hello", "hi ", "hey", "how are you", "greetings")) {
@@ -677,8 +1194,8 @@ function generateFallbackResponse(message: string, errCode?: string): string {
       "**Required:** Name, Symbol, and Wallet address (0x...).",
       "",
       "**Automatic fee split:**",
-      "- 90% of LP fees → to you (creator)",
-      "- 10% of LP fees → to ConwayPad",
+      `- ${fees.creator} of LP fees → to you (creator)`,
+      `- ${fees.platform} of LP fees → to ConwayPad`,
       "",
       "A Uniswap V3 liquidity pool is created automatically on Base and locked permanently.",
     ].join("\n");
@@ -686,7 +1203,7 @@ function generateFallbackResponse(message: string, errCode?: string): string {
 
   // ── Platform — fees ────────────────────────────────────────────────────────
   if (has("fee", "split", "earn", "reward")) {
-    return "**ConwayPad Fee Split (90% / 10%):**\n\n- **90%** of LP fees from every trade → directly to your wallet (creator)\n- **10%** of LP fees → to ConwayPad platform\n\nUniswap V3 LP fee is **0.3%** per swap. Fees accumulate automatically and can be claimed anytime at [clanker.world](https://clanker.world).";
+    return `**ConwayPad Fee Split (${fees.creator} / ${fees.platform}):**\n\n- **${fees.creator}** of LP fees from every trade → directly to your wallet (creator)\n- **${fees.platform}** of LP fees → to ConwayPad platform\n\nUniswap V3 LP fee is **0.3%** per swap. Fees accumulate automatically in the Clanker fee locker — see them under **My Launches** and claim with your own wallet, or at [clanker.world](https://clanker.world).`;
   }
 
   // ── Platform — ConwayPad explanation ──────────────────────────────────────
@@ -698,7 +1215,7 @@ function generateFallbackResponse(message: string, errCode?: string): string {
       "1. Submit your token details (name, symbol, wallet, etc.)",
       "2. ConwayPad deploys your ERC-20 token via Clanker SDK v4",
       "3. A Uniswap V3 liquidity pool is created automatically (permanently locked)",
-      "4. You receive 90% of all LP fees (0.3% per trade)",
+      `4. You receive ${fees.creator} of all LP fees (0.3% per trade)`,
       "",
       "**Key features:**",
       "- No coding required",
@@ -710,12 +1227,12 @@ function generateFallbackResponse(message: string, errCode?: string): string {
 
   // ── Platform — Clanker ─────────────────────────────────────────────────────
   if (has("clanker")) {
-    return "**Clanker** is an open-source protocol on Base for deploying ERC-20 tokens with automatic Uniswap V3 liquidity pools.\n\nConwayPad uses **Clanker SDK v4** to:\n- Deploy tokens directly from an agent wallet\n- Configure fee splits (90% creator / 10% platform)\n- Lock liquidity permanently\n\nAll deployed tokens can be explored at [clanker.world](https://clanker.world).";
+    return `**Clanker** is an open-source protocol on Base for deploying ERC-20 tokens with automatic Uniswap V3 liquidity pools.\n\nConwayPad uses **Clanker SDK v4** to:\n- Deploy tokens directly from an agent wallet\n- Configure fee splits (${fees.creator} creator / ${fees.platform} platform)\n- Lock liquidity permanently\n\nAll deployed tokens can be explored at [clanker.world](https://clanker.world).`;
   }
 
   // ── Platform — Uniswap / liquidity ────────────────────────────────────────
   if (has("uniswap", "liquidity", "pool", "amm", "swap")) {
-    return "ConwayPad tokens automatically receive a **Uniswap V3 liquidity pool on Base**.\n\n- **Liquidity is permanently locked** — no one can withdraw it\n- **0.3% fee** on every swap is split: 90% creator + 10% platform\n- **AMM (Automated Market Maker)** prices tokens based on the pool ratio\n- Trade directly on [Uniswap](https://app.uniswap.org) or [DexScreener](https://dexscreener.com/base)";
+    return `ConwayPad tokens automatically receive a **Uniswap V3 liquidity pool on Base**.\n\n- **Liquidity is permanently locked** — no one can withdraw it\n- **0.3% fee** on every swap is split: ${fees.creator} creator + ${fees.platform} platform\n- **AMM (Automated Market Maker)** prices tokens based on the pool ratio\n- Trade directly on [Uniswap](https://app.uniswap.org) or [DexScreener](https://dexscreener.com/base)`;
   }
 
   // ── Platform — DexScreener ─────────────────────────────────────────────────
@@ -811,7 +1328,7 @@ function generateFallbackResponse(message: string, errCode?: string): string {
 
   // ── Wallet ─────────────────────────────────────────────────────────────────
   if (has("wallet", "metamask", "coinbase wallet", "rainbow")) {
-    return "**Crypto Wallet** — stores your private keys to access on-chain assets.\n\n**Popular options:**\n- **MetaMask** — browser extension, supports Base/Ethereum\n- **Coinbase Wallet** — mobile + extension, great for Base\n- **Rainbow** — mobile-first, user-friendly\n- **Hardware wallet** (Ledger, Trezor) — most secure for large holdings\n\n**For ConwayPad:**\nWhen deploying a token, provide your wallet address (0x...) as the *token admin* to receive 90% of LP fees.";
+    return `**Crypto Wallet** — stores your private keys to access on-chain assets.\n\n**Popular options:**\n- **MetaMask** — browser extension, supports Base/Ethereum\n- **Coinbase Wallet** — mobile + extension, great for Base\n- **Rainbow** — mobile-first, user-friendly\n- **Hardware wallet** (Ledger, Trezor) — most secure for large holdings\n\n**For ConwayPad:**\nWhen deploying a token, provide your wallet address (0x...) as the *token admin* to receive ${fees.creator} of LP fees.`;
   }
 
   // ── Private key / seed phrase ──────────────────────────────────────────────
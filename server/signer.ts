@@ -0,0 +1,203 @@
+import { encodeFunctionData, keccak256, type Abi } from "viem";
+import type { getViemClients } from "./wallet";
+import type { SentTx } from "@shared/schema";
+
+// ─── Serialized signer for the shared agent wallet ────────────────────────────
+// All on-chain writes from one account go through a single promise chain, so two
+// concurrent launches never pick the same nonce. Nonces are tracked locally and
+// re-synced from the chain ("pending" block tag) whenever the node knows better.
+// "replacement underpriced" / "nonce too low" are retried with bumped fees.
+// Each tx is signed first and handed to `onSigned` before it's broadcast, so a caller
+// can persist it and later `resume` instead of sending a second one after a failed send.
+
+type AgentClients = NonNullable<ReturnType<typeof getViemClients>>;
+
+export interface ContractTx {
+  address: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+  chainId?: number;
+}
+
+// One signed tx, as given to writeContract's onSigned
+export interface SignedTx {
+  hash: `0x${string}`;
+  nonce: number;
+  raw: `0x${string}`;
+}
+
+const MAX_SEND_ATTEMPTS = 4;
+const GAS_BUMP_PERCENT = BigInt(15);     // per retry, on top of the current estimate
+const PENDING_RECEIPT_TIMEOUT_MS = 10 * 60_000;
+
+function errorText(err: any): string {
+  return [err?.details, err?.shortMessage, err?.message].filter(Boolean).join(" ");
+}
+
+function isNonceTooLow(err: any): boolean {
+  return /nonce too low|nonce has already been used|invalid nonce/i.test(errorText(err));
+}
+
+function isUnderpriced(err: any): boolean {
+  return /replacement (transaction )?underpriced|transaction underpriced|fee too low/i.test(errorText(err));
+}
+
+function isAlreadyKnown(err: any): boolean {
+  return /already known|known transaction|already imported/i.test(errorText(err));
+}
+
+export class AccountSigner {
+  private tail: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+  private nextNonce: number | null = null;
+  private pending = new Map<`0x${string}`, number>();
+
+  constructor(private clients: AgentClients) {}
+
+  get address(): `0x${string}` {
+    return this.clients.account.address;
+  }
+
+  // Writes waiting for their turn, including the one being sent right now
+  get queueDepth(): number {
+    return this.queued;
+  }
+
+  // Sent by this process and not yet mined
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  // `onSigned` runs before each broadcast (again for every re-signed retry); if it throws, nothing is sent
+  writeContract(tx: ContractTx, onSigned?: (signed: SignedTx) => Promise<void>): Promise<`0x${string}`> {
+    return this.enqueue(() => this.send(tx, onSigned));
+  }
+
+  // Picks up txs an earlier send signed (and maybe broadcast) before it failed: the hash of
+  // one that's known to the node, or of the latest one rebroadcast while its nonce is still
+  // open. Null when the nonce went to another tx, so none of them can land and a fresh send
+  // can't deploy twice.
+  resume(sent: SentTx): Promise<`0x${string}` | null> {
+    return this.enqueue(() => this.rebroadcast(sent));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    this.queued++;
+    const run = this.tail.then(task);
+    this.tail = run.catch(() => {});
+    return run.finally(() => { this.queued--; });
+  }
+
+  private async reserveNonce(): Promise<number> {
+    const chainNonce = await this.clients.publicClient.getTransactionCount({
+      address: this.address,
+      blockTag: "pending",
+    });
+    if (this.nextNonce === null || chainNonce > this.nextNonce) this.nextNonce = chainNonce;
+    return this.nextNonce;
+  }
+
+  private async send({ chainId: _chainId, ...tx }: ContractTx, onSigned?: (signed: SignedTx) => Promise<void>): Promise<`0x${string}`> {
+    const { publicClient, wallet, account } = this.clients;
+
+    // Fails fast with the revert reason before we burn a nonce
+    const gas = await publicClient.estimateContractGas({ ...tx, account });
+    const fees = await publicClient.estimateFeesPerGas();
+    const data = encodeFunctionData({ abi: tx.abi, functionName: tx.functionName, args: tx.args });
+
+    let nonce = await this.reserveNonce();
+    let feePercent = BigInt(100);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const raw = await wallet.signTransaction({
+          account,
+          chain: wallet.chain,
+          to: tx.address,
+          data,
+          value: tx.value,
+          nonce,
+          gas: gas * BigInt(12) / BigInt(10),
+          maxFeePerGas: fees.maxFeePerGas * feePercent / BigInt(100),
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas * feePercent / BigInt(100),
+        });
+        const hash = keccak256(raw);
+        await onSigned?.({ hash, nonce, raw });
+        try {
+          await publicClient.sendRawTransaction({ serializedTransaction: raw });
+        } catch (err) {
+          if (!isAlreadyKnown(err)) throw err;
+        }
+        this.nextNonce = nonce + 1;
+        this.trackPending(hash, nonce);
+        return hash;
+      } catch (err: any) {
+        const nonceTooLow = isNonceTooLow(err);
+        if (attempt >= MAX_SEND_ATTEMPTS || (!nonceTooLow && !isUnderpriced(err))) {
+          // Our local view may be stale after a failure; re-read it next time
+          this.nextNonce = null;
+          throw err;
+        }
+        console.warn(`[Signer] ${nonceTooLow ? "nonce too low" : "underpriced"} at nonce ${nonce}, retrying (attempt ${attempt + 1})`);
+        feePercent += GAS_BUMP_PERCENT;
+        if (nonceTooLow) {
+          this.nextNonce = null;
+          nonce = await this.reserveNonce();
+        }
+      }
+    }
+  }
+
+  private async rebroadcast(sent: SentTx): Promise<`0x${string}` | null> {
+    const { publicClient } = this.clients;
+    for (const hash of sent.hashes) {
+      const known = await publicClient.getTransaction({ hash }).catch(() => null);
+      if (known) return hash;
+    }
+    const used = await publicClient.getTransactionCount({ address: this.address, blockTag: "latest" });
+    if (used > sent.nonce) return null;
+
+    const hash = keccak256(sent.raw);
+    try {
+      await publicClient.sendRawTransaction({ serializedTransaction: sent.raw });
+    } catch (err) {
+      if (!isAlreadyKnown(err)) throw err;
+    }
+    console.warn(`[Signer] rebroadcast ${hash} at nonce ${sent.nonce}`);
+    if (this.nextNonce !== null && this.nextNonce <= sent.nonce) this.nextNonce = sent.nonce + 1;
+    this.trackPending(hash, sent.nonce);
+    return hash;
+  }
+
+  private trackPending(hash: `0x${string}`, nonce: number) {
+    this.pending.set(hash, nonce);
+    this.clients.publicClient
+      .waitForTransactionReceipt({ hash, timeout: PENDING_RECEIPT_TIMEOUT_MS })
+      .catch(() => {})
+      .finally(() => this.pending.delete(hash));
+  }
+}
+
+const signers = new Map<string, AccountSigner>();
+
+export function getSigner(clients: AgentClients): AccountSigner {
+  const key = clients.account.address.toLowerCase();
+  let signer = signers.get(key);
+  if (!signer) {
+    signer = new AccountSigner(clients);
+    signers.set(key, signer);
+  }
+  return signer;
+}
+
+export function getSignerStats(): { queueDepth: number; pendingTxs: number } {
+  let queueDepth = 0;
+  let pendingTxs = 0;
+  for (const s of Array.from(signers.values())) {
+    queueDepth += s.queueDepth;
+    pendingTxs += s.pendingCount;
+  }
+  return { queueDepth, pendingTxs };
+}
@@ -0,0 +1,52 @@
+import { createTestClient, parseEther, http as viemHttp } from "viem";
+import { base } from "viem/chains";
+import { BASE_RPC_URL, getViemClients } from "./wallet";
+import { simulateDeployment } from "./deploy-simulation";
+
+// ─── Deploy simulation against an anvil fork ──────────────────────────────────
+// `npm run simulate:fork` with anvil running (`anvil --fork-url https://mainnet.base.org`),
+// BASE_RPC_URL=http://127.0.0.1:8545 and one of anvil's default keys as
+// CONWAY_WALLET_PRIVATE_KEY. DATABASE_URL must point at a database with the schema pushed
+// (an empty one is fine): the simulation runs the name / ticker check against the token
+// mirror, and without it that check logs lookup errors.
+// Runs the real factory call twice on the fork:
+//   1. funded agent wallet  → must pass with a gas estimate
+//   2. agent wallet emptied → must fail with the "needs about … ETH" error
+// Exits non-zero if either result is off. Nothing is sent; anvil state is restored.
+
+async function main() {
+  const clients = getViemClients();
+  if (!clients || !BASE_RPC_URL) {
+    throw new Error("Set BASE_RPC_URL to the anvil fork and CONWAY_WALLET_PRIVATE_KEY to an anvil key");
+  }
+  const version = await clients.publicClient.request({ method: "web3_clientVersion" });
+  if (!/anvil/i.test(version)) throw new Error(`BASE_RPC_URL is ${version}, not an anvil fork; refusing to run`);
+
+  const testClient = createTestClient({ mode: "anvil", chain: base, transport: viemHttp(BASE_RPC_URL) });
+  const address = clients.account.address;
+  const params = { name: `Fork Check ${Date.now() % 100_000}`, symbol: "FORKCHK", wallet: address };
+  const snapshot = await testClient.snapshot();
+  let failed = false;
+
+  try {
+    await testClient.setBalance({ address, value: parseEther("1") });
+    const funded = await simulateDeployment(params);
+    console.log("[Fork] funded:", JSON.stringify({ ok: funded.ok, error: funded.error, gas: funded.gas, totalCostEth: funded.totalCostEth }));
+    if (!funded.ok || !funded.gas) failed = true;
+
+    await testClient.setBalance({ address, value: BigInt(0) });
+    const empty = await simulateDeployment(params);
+    console.log("[Fork] empty wallet:", JSON.stringify({ ok: empty.ok, error: empty.error }));
+    if (empty.ok || !/needs about/.test(empty.error ?? "")) failed = true;
+  } finally {
+    await testClient.revert({ id: snapshot });
+  }
+
+  console.log(failed ? "[Fork] FAILED" : "[Fork] OK");
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error("[Fork]", err?.message || err);
+  process.exit(1);
+});
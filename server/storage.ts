@@ -1,31 +1,144 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
 import {
-  chatMessages, trackedWallets, tokenLaunches,
-  type ChatMessage, type InsertChatMessage,
-  type TrackedWallet, type InsertTrackedWallet,
+  users, chatMessages, chatDialogues, trackedWallets, tokenLaunches, deployments, deployDrafts, tokens, tokenMarketSnapshots, platformRevenue,
+  rateLimitCounters, rateLimitRuleOverrides, DEFAULT_LP_FEE_BPS,
+  type User,
+  type ChatMessage, type InsertChatMessage, type ChatDialogue, type InsertChatDialogue,
+  type TrackedWallet, type InsertTrackedWallet, type UpdateTrackedWallet,
   type TokenLaunch, type InsertTokenLaunch,
+  type Deployment, type InsertDeployment, type DeploymentStatus,
+  type DeployDraft, type InsertDeployDraft,
+  type Token, type InsertToken, type TokenQuery, type TokenSort, type MarketCandle, type CreatorStats,
+  type CreatorLeaderboardRow,
+  type PlatformRevenue, type InsertPlatformRevenue, type PlatformRevenueStatus,
+  type PlatformRevenueTotal, type PlatformRevenueDay,
+  type RateLimitRuleOverride, type RateLimitRuleUpdate,
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { eq, and, or, desc, gte, lte, lt, inArray, ilike, count, sql, getTableColumns, type SQL } from "drizzle-orm";
 
-const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+// Also backs the express-session store (see auth.ts)
+export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 const db = drizzle(pool);
 
+// Keyset position in a sorted token list: the sort value and address of the last row returned
+export interface TokenCursor {
+  v: number;
+  a: string;
+}
+
+// `launchedSince` filters by deploy date; `volumeSince` picks the volume source:
+// null = each token's current rolling 24h volume, otherwise snapshot volume since that time.
+export interface LeaderboardOptions<Sort extends string> {
+  sort: Sort;
+  launchedSince: Date | null;
+  volumeSince: Date | null;
+  limit: number;
+}
+
 export interface IStorage {
+  // Users (SIWE)
+  getUser(id: string): Promise<User | undefined>;
+  upsertUserByWallet(walletAddress: string): Promise<User>;
   // Chat
   getChatHistory(sessionId: string): Promise<ChatMessage[]>;
   addChatMessage(msg: InsertChatMessage): Promise<ChatMessage>;
   clearChatHistory(sessionId: string): Promise<void>;
-  // Wallets
-  getTrackedWallets(): Promise<TrackedWallet[]>;
-  addTrackedWallet(wallet: InsertTrackedWallet): Promise<TrackedWallet>;
-  removeTrackedWallet(id: number): Promise<void>;
+  // Chat dialogue state (one per session)
+  getChatDialogue(sessionId: string): Promise<ChatDialogue | undefined>;
+  saveChatDialogue(dialogue: InsertChatDialogue): Promise<ChatDialogue>;
+  deleteChatDialogue(sessionId: string): Promise<void>;
+  // Tracked wallets (per user)
+  getTrackedWallets(userId: string): Promise<TrackedWallet[]>;
+  addTrackedWallet(wallet: InsertTrackedWallet): Promise<TrackedWallet | undefined>;
+  updateTrackedWallet(id: number, userId: string, patch: UpdateTrackedWallet): Promise<TrackedWallet | undefined>;
+  removeTrackedWallet(id: number, userId: string): Promise<boolean>;
   // Token launches
   getTokenLaunches(): Promise<TokenLaunch[]>;
   addTokenLaunch(launch: InsertTokenLaunch): Promise<TokenLaunch>;
+  updateTokenLaunch(id: number, patch: Partial<InsertTokenLaunch>): Promise<void>;
+  // Deployments
+  getDeployment(id: number): Promise<Deployment | undefined>;
+  getDeploymentsByStatus(statuses: DeploymentStatus[]): Promise<Deployment[]>;
+  getDeploymentsByAdmin(tokenAdmin: string): Promise<Deployment[]>;
+  getDeploymentByToken(tokenAddress: string): Promise<Deployment | undefined>;
+  addDeployment(deployment: InsertDeployment): Promise<Deployment>;
+  updateDeployment(id: number, patch: Partial<InsertDeployment>): Promise<Deployment>;
+  // Moderation queue: only a still-flagged job can be decided (undefined otherwise)
+  reviewFlaggedDeployment(id: number, patch: Partial<InsertDeployment>): Promise<Deployment | undefined>;
+  getReviewedDeployments(limit: number): Promise<Deployment[]>;
+  // Chat deploy drafts (one per session)
+  getDeployDraft(sessionId: string): Promise<DeployDraft | undefined>;
+  saveDeployDraft(draft: InsertDeployDraft): Promise<DeployDraft>;
+  deleteDeployDraft(sessionId: string): Promise<void>;
+  // Deletes exactly this draft and returns it; undefined if another request already took it
+  claimDeployDraft(sessionId: string, id: number): Promise<DeployDraft | undefined>;
+  // Token mirror (filled by the indexer)
+  upsertTokens(rows: InsertToken[]): Promise<void>;
+  listTokens(opts: { tokenAdmin?: string; limit: number; offset: number }): Promise<{ tokens: Token[]; total: number }>;
+  getToken(address: string): Promise<Token | undefined>;
+  searchTokens(query: string, limit: number): Promise<Token[]>;
+  getTokenIdentities(): Promise<Pick<Token, "address" | "name" | "symbol">[]>;
+  queryTokens(query: TokenQuery, after: TokenCursor | null): Promise<{ tokens: Token[]; total: number; next: TokenCursor | null }>;
+  getCreatorStats(tokenAdmin: string): Promise<CreatorStats>;
+  getLaunchCadence(tokenAdmin: string): Promise<{ week: string; launches: number }[]>;
+
+  // Leaderboards (estimatedFees is filled in by the caller)
+  // `lpFees`: volume × each token's pool fee, before the creator / platform split
+  getCreatorLeaderboard(opts: LeaderboardOptions<"launches" | "marketCap" | "volume" | "bestToken" | "fees">): Promise<(Omit<CreatorLeaderboardRow, "estimatedFees"> & { lpFees: number })[]>;
+  getTokenLeaderboard(opts: LeaderboardOptions<"marketCap" | "volume" | "fees">): Promise<{ token: Token; volume: number; lpFees: number }[]>;
+
+  // Market snapshots
+  recordMarketSnapshots(): Promise<number>;
+  pruneMarketSnapshots(before: Date): Promise<number>;
+  getMarketCandles(tokenAddress: string, bucketSeconds: number, since: Date): Promise<MarketCandle[]>;
+
+  // Platform revenue ledger
+  addPlatformRevenue(row: InsertPlatformRevenue): Promise<PlatformRevenue>;
+  updatePlatformRevenue(id: number, patch: Partial<InsertPlatformRevenue>): Promise<PlatformRevenue>;
+  getPlatformRevenueByStatus(statuses: PlatformRevenueStatus[]): Promise<PlatformRevenue[]>;
+  listPlatformRevenue(limit: number): Promise<PlatformRevenue[]>;
+  getPlatformRevenueTotals(): Promise<PlatformRevenueTotal[]>;
+  getPlatformRevenueDaily(wethAddress: string, since: Date): Promise<PlatformRevenueDay[]>;
+  incrementRateLimit(key: string, windowStart: Date): Promise<number>;
+  pruneRateLimitCounters(before: Date): Promise<number>;
+  getRateLimitOverrides(): Promise<RateLimitRuleOverride[]>;
+  saveRateLimitOverride(id: string, update: RateLimitRuleUpdate, updatedBy: string): Promise<RateLimitRuleOverride>;
+  deleteRateLimitOverride(id: string): Promise<void>;
+}
+
+// Sort keys for queryTokens. Nulls collapse to 0 so (key, address) is a total order for keyset paging;
+// deploy time is in epoch ms so it round-trips through a JS number exactly.
+const TOKEN_SORT_KEYS: Record<TokenSort, SQL> = {
+  marketCap: sql`coalesce(${tokens.marketCap}, 0)`,
+  volume24h: sql`coalesce(${tokens.volume24h}, 0)`,
+  priceChange24h: sql`coalesce(${tokens.priceChange24h}, 0)`,
+  deployedAt: sql`coalesce(floor(extract(epoch from ${tokens.deployedAt}) * 1000), 0)::float8`,
+};
+
+function tokenSortValue(row: Token, sort: TokenSort): number {
+  if (sort === "deployedAt") return row.deployedAt?.getTime() ?? 0;
+  return row[sort] ?? 0;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[%_\\]/g, "\\$&");
 }
 
 export class PgStorage implements IStorage {
+  async getUser(id: string): Promise<User | undefined> {
+    const [row] = await db.select().from(users).where(eq(users.id, id));
+    return row;
+  }
+
+  async upsertUserByWallet(walletAddress: string): Promise<User> {
+    const [row] = await db.insert(users)
+      .values({ walletAddress: walletAddress.toLowerCase() })
+      .onConflictDoUpdate({ target: users.walletAddress, set: { lastLoginAt: new Date() } })
+      .returning();
+    return row;
+  }
+
   async getChatHistory(sessionId: string): Promise<ChatMessage[]> {
     return await db.select().from(chatMessages)
       .where(eq(chatMessages.sessionId, sessionId))
@@ -41,17 +154,54 @@ export class PgStorage implements IStorage {
     await db.delete(chatMessages).where(eq(chatMessages.sessionId, sessionId));
   }
 
-  async getTrackedWallets(): Promise<TrackedWallet[]> {
-    return await db.select().from(trackedWallets).orderBy(trackedWallets.createdAt);
+  async getChatDialogue(sessionId: string): Promise<ChatDialogue | undefined> {
+    const [row] = await db.select().from(chatDialogues).where(eq(chatDialogues.sessionId, sessionId));
+    return row;
+  }
+
+  async saveChatDialogue(dialogue: InsertChatDialogue): Promise<ChatDialogue> {
+    const [row] = await db.insert(chatDialogues)
+      .values(dialogue)
+      .onConflictDoUpdate({
+        target: chatDialogues.sessionId,
+        set: { intent: dialogue.intent, slots: dialogue.slots, awaiting: dialogue.awaiting, expiresAt: dialogue.expiresAt, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async deleteChatDialogue(sessionId: string): Promise<void> {
+    await db.delete(chatDialogues).where(eq(chatDialogues.sessionId, sessionId));
   }
 
-  async addTrackedWallet(wallet: InsertTrackedWallet): Promise<TrackedWallet> {
-    const [row] = await db.insert(trackedWallets).values(wallet).returning();
+  async getTrackedWallets(userId: string): Promise<TrackedWallet[]> {
+    return await db.select().from(trackedWallets)
+      .where(eq(trackedWallets.userId, userId))
+      .orderBy(trackedWallets.createdAt);
+  }
+
+  // Returns undefined when the owner already tracks this address
+  async addTrackedWallet(wallet: InsertTrackedWallet): Promise<TrackedWallet | undefined> {
+    const [row] = await db.insert(trackedWallets)
+      .values({ ...wallet, walletAddress: wallet.walletAddress.toLowerCase() })
+      .onConflictDoNothing({ target: [trackedWallets.userId, trackedWallets.walletAddress] })
+      .returning();
+    return row;
+  }
+
+  async updateTrackedWallet(id: number, userId: string, patch: UpdateTrackedWallet): Promise<TrackedWallet | undefined> {
+    const [row] = await db.update(trackedWallets)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(and(eq(trackedWallets.id, id), eq(trackedWallets.userId, userId)))
+      .returning();
     return row;
   }
 
-  async removeTrackedWallet(id: number): Promise<void> {
-    await db.delete(trackedWallets).where(eq(trackedWallets.id, id));
+  async removeTrackedWallet(id: number, userId: string): Promise<boolean> {
+    const rows = await db.delete(trackedWallets)
+      .where(and(eq(trackedWallets.id, id), eq(trackedWallets.userId, userId)))
+      .returning({ id: trackedWallets.id });
+    return rows.length > 0;
   }
 
   async getTokenLaunches(): Promise<TokenLaunch[]> {
@@ -62,6 +212,431 @@ export class PgStorage implements IStorage {
     const [row] = await db.insert(tokenLaunches).values(launch).returning();
     return row;
   }
+
+  async updateTokenLaunch(id: number, patch: Partial<InsertTokenLaunch>): Promise<void> {
+    await db.update(tokenLaunches).set(patch).where(eq(tokenLaunches.id, id));
+  }
+
+  async getDeployment(id: number): Promise<Deployment | undefined> {
+    const [row] = await db.select().from(deployments).where(eq(deployments.id, id));
+    return row;
+  }
+
+  async getDeploymentsByStatus(statuses: DeploymentStatus[]): Promise<Deployment[]> {
+    return await db.select().from(deployments)
+      .where(inArray(deployments.status, statuses))
+      .orderBy(deployments.createdAt);
+  }
+
+  async getDeploymentsByAdmin(tokenAdmin: string): Promise<Deployment[]> {
+    return await db.select().from(deployments)
+      .where(eq(deployments.tokenAdmin, tokenAdmin.toLowerCase()))
+      .orderBy(desc(deployments.createdAt));
+  }
+
+  async reviewFlaggedDeployment(id: number, patch: Partial<InsertDeployment>): Promise<Deployment | undefined> {
+    const [row] = await db.update(deployments)
+      .set({ ...patch, reviewedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(deployments.id, id), eq(deployments.status, "flagged")))
+      .returning();
+    return row;
+  }
+
+  async getReviewedDeployments(limit: number): Promise<Deployment[]> {
+    return await db.select().from(deployments)
+      .where(sql`${deployments.reviewedAt} is not null`)
+      .orderBy(desc(deployments.reviewedAt))
+      .limit(limit);
+  }
+
+  async getDeploymentByToken(tokenAddress: string): Promise<Deployment | undefined> {
+    const [row] = await db.select().from(deployments)
+      .where(sql`lower(${deployments.tokenAddress}) = ${tokenAddress.toLowerCase()}`)
+      .orderBy(desc(deployments.createdAt))
+      .limit(1);
+    return row;
+  }
+
+  async addDeployment(deployment: InsertDeployment): Promise<Deployment> {
+    const [row] = await db.insert(deployments)
+      .values({ ...deployment, tokenAdmin: deployment.tokenAdmin.toLowerCase() })
+      .returning();
+    return row;
+  }
+
+  async updateDeployment(id: number, patch: Partial<InsertDeployment>): Promise<Deployment> {
+    const [row] = await db.update(deployments)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(deployments.id, id))
+      .returning();
+    return row;
+  }
+
+  async getDeployDraft(sessionId: string): Promise<DeployDraft | undefined> {
+    const [row] = await db.select().from(deployDrafts).where(eq(deployDrafts.sessionId, sessionId));
+    return row;
+  }
+
+  // Replaces any previous draft, so every edit gets a fresh id (stale preview buttons stop working)
+  async saveDeployDraft(draft: InsertDeployDraft): Promise<DeployDraft> {
+    await db.delete(deployDrafts).where(eq(deployDrafts.sessionId, draft.sessionId));
+    const [row] = await db.insert(deployDrafts).values(draft).returning();
+    return row;
+  }
+
+  async deleteDeployDraft(sessionId: string): Promise<void> {
+    await db.delete(deployDrafts).where(eq(deployDrafts.sessionId, sessionId));
+  }
+
+  async claimDeployDraft(sessionId: string, id: number): Promise<DeployDraft | undefined> {
+    const [row] = await db.delete(deployDrafts)
+      .where(and(eq(deployDrafts.sessionId, sessionId), eq(deployDrafts.id, id)))
+      .returning();
+    return row;
+  }
+
+  async upsertTokens(rows: InsertToken[]): Promise<void> {
+    if (rows.length === 0) return;
+    // Every column except the key is refreshed from the incoming row
+    const set: Record<string, SQL> = { indexedAt: sql`now()` };
+    for (const [key, column] of Object.entries(getTableColumns(tokens))) {
+      if (key === "address" || key === "indexedAt") continue;
+      set[key] = sql.raw(`excluded."${column.name}"`);
+    }
+    await db.insert(tokens).values(rows).onConflictDoUpdate({ target: tokens.address, set });
+  }
+
+  // Newest first; `tokenAdmin` filters to one creator
+  async listTokens(opts: { tokenAdmin?: string; limit: number; offset: number }): Promise<{ tokens: Token[]; total: number }> {
+    const where = opts.tokenAdmin ? eq(tokens.tokenAdmin, opts.tokenAdmin.toLowerCase()) : undefined;
+    const rows = await db.select().from(tokens)
+      .where(where)
+      .orderBy(sql`${tokens.deployedAt} desc nulls last`)
+      .limit(opts.limit)
+      .offset(opts.offset);
+    const [{ total }] = await db.select({ total: count() }).from(tokens).where(where);
+    return { tokens: rows, total };
+  }
+
+  async getToken(address: string): Promise<Token | undefined> {
+    const [row] = await db.select().from(tokens).where(eq(tokens.address, address.toLowerCase()));
+    return row;
+  }
+
+  async getTokenIdentities(): Promise<Pick<Token, "address" | "name" | "symbol">[]> {
+    return await db.select({ address: tokens.address, name: tokens.name, symbol: tokens.symbol }).from(tokens);
+  }
+
+  // Exact address, then symbol / name matches, biggest market cap first
+  async searchTokens(query: string, limit: number): Promise<Token[]> {
+    const q = query.trim().replace(/^\$/, "");
+    if (/^0x[a-fA-F0-9]{40}$/.test(q)) {
+      return await db.select().from(tokens).where(eq(tokens.address, q.toLowerCase()));
+    }
+    const pattern = `%${escapeLike(q)}%`;
+    return await db.select().from(tokens)
+      .where(or(ilike(tokens.symbol, q), ilike(tokens.name, pattern), ilike(tokens.symbol, pattern)))
+      .orderBy(sql`lower(${tokens.symbol}) = lower(${q}) desc`, sql`${tokens.marketCap} desc nulls last`)
+      .limit(limit);
+  }
+
+  async queryTokens(query: TokenQuery, after: TokenCursor | null): Promise<{ tokens: Token[]; total: number; next: TokenCursor | null }> {
+    const filters: (SQL | undefined)[] = [];
+    const q = query.q?.replace(/^\$/, "");
+    if (q) {
+      const pattern = `%${escapeLike(q)}%`;
+      filters.push(or(ilike(tokens.name, pattern), ilike(tokens.symbol, pattern), ilike(tokens.address, `${escapeLike(q.toLowerCase())}%`)));
+    }
+    if (query.admin) filters.push(eq(tokens.tokenAdmin, query.admin));
+    if (query.from) filters.push(gte(tokens.deployedAt, query.from));
+    if (query.to) filters.push(lte(tokens.deployedAt, query.to));
+    if (query.minMarketCap !== undefined) filters.push(gte(tokens.marketCap, query.minMarketCap));
+    const where = and(...filters);
+
+    const key = TOKEN_SORT_KEYS[query.sort];
+    const dir = query.order === "asc" ? sql`asc` : sql`desc`;
+    const page = after
+      ? query.order === "asc"
+        ? sql`(${key}, ${tokens.address}) > (${after.v}::float8, ${after.a})`
+        : sql`(${key}, ${tokens.address}) < (${after.v}::float8, ${after.a})`
+      : undefined;
+
+    // One extra row tells us whether there is a next page
+    const rows = await db.select().from(tokens)
+      .where(and(where, page))
+      .orderBy(sql`${key} ${dir}`, sql`${tokens.address} ${dir}`)
+      .limit(query.limit + 1);
+    const [{ total }] = await db.select({ total: count() }).from(tokens).where(where);
+
+    const pageRows = rows.slice(0, query.limit);
+    const last = pageRows[pageRows.length - 1];
+    const next = rows.length > query.limit && last ? { v: tokenSortValue(last, query.sort), a: last.address } : null;
+    return { tokens: pageRows, total, next };
+  }
+
+  async getCreatorStats(tokenAdmin: string): Promise<CreatorStats> {
+    const admin = tokenAdmin.toLowerCase();
+    const [row] = await db.select({
+      launches: count(),
+      totalMarketCap: sql<number>`coalesce(sum(${tokens.marketCap}), 0)`.mapWith(Number),
+      totalVolume24h: sql<number>`coalesce(sum(${tokens.volume24h}), 0)`.mapWith(Number),
+      lpFees24h: sql<number>`coalesce(sum(${tokens.volume24h} * ${this.lpFeeBps(tokens.address)}), 0) / 10000.0`.mapWith(Number),
+      firstLaunchAt: sql<Date | null>`min(${tokens.deployedAt})`.mapWith(tokens.deployedAt),
+      lastLaunchAt: sql<Date | null>`max(${tokens.deployedAt})`.mapWith(tokens.deployedAt),
+    }).from(tokens).where(eq(tokens.tokenAdmin, admin));
+
+    // Daily average of the rolling 24h volume ≈ that day's volume
+    const [tracked] = await db.execute<{ volume: string | null; lp_fees: string | null }>(sql`
+      select sum(daily) as volume, sum(daily * bps) / 10000.0 as lp_fees from (
+        select avg(s.volume_24h) as daily, ${this.lpFeeBps(sql`s.token_address`)} as bps
+        from ${tokenMarketSnapshots} s join ${tokens} t on t.address = s.token_address
+        where t.token_admin = ${admin}
+        group by s.token_address, date_trunc('day', s.recorded_at)
+      ) days
+    `).then(r => r.rows);
+
+    return {
+      ...row,
+      firstLaunchAt: row.firstLaunchAt?.toISOString() ?? null,
+      lastLaunchAt: row.lastLaunchAt?.toISOString() ?? null,
+      trackedVolume: Number(tracked?.volume ?? 0),
+      trackedLpFees: Number(tracked?.lp_fees ?? 0),
+    };
+  }
+
+  // Launches per ISO week (Monday start), oldest first
+  async getLaunchCadence(tokenAdmin: string): Promise<{ week: string; launches: number }[]> {
+    const week = sql`date_trunc('week', ${tokens.deployedAt})`;
+    const rows = await db.select({
+      week: sql<Date>`${week}`.mapWith(tokens.deployedAt),
+      launches: count(),
+    }).from(tokens)
+      .where(and(eq(tokens.tokenAdmin, tokenAdmin.toLowerCase()), sql`${tokens.deployedAt} is not null`))
+      .groupBy(week)
+      .orderBy(week);
+    return rows.map(r => ({ week: r.week.toISOString(), launches: r.launches }));
+  }
+
+  // Pool fee (bps) a token's swaps pay: stamped on its deployment, else that deployment's static
+  // fee, else the default (also for tokens with no deployment row)
+  private lpFeeBps(tokenAddress: SQL | typeof tokens.address) {
+    return sql`coalesce((
+      select coalesce((d.params->>'lpFeeBps')::int, (d.params->'fees'->>'bps')::int)
+      from ${deployments} d where lower(d.token_address) = ${tokenAddress}
+      order by d.created_at desc limit 1
+    ), ${DEFAULT_LP_FEE_BPS})`;
+  }
+
+  // Per-token traded volume: the live 24h column, or summed daily averages of snapshots since `since`
+  private tokenVolume(since: Date | null) {
+    if (!since) {
+      return db.select({
+        tokenAddress: tokens.address,
+        volume: sql<number>`coalesce(${tokens.volume24h}, 0)`.as("volume"),
+      }).from(tokens).as("vol");
+    }
+    const daily = db.select({
+      tokenAddress: tokenMarketSnapshots.tokenAddress,
+      daily: sql<number>`avg(${tokenMarketSnapshots.volume24h})`.as("daily"),
+    }).from(tokenMarketSnapshots)
+      .where(gte(tokenMarketSnapshots.recordedAt, since))
+      .groupBy(tokenMarketSnapshots.tokenAddress, sql`date_trunc('day', ${tokenMarketSnapshots.recordedAt})`)
+      .as("daily");
+    return db.select({
+      tokenAddress: daily.tokenAddress,
+      volume: sql<number>`coalesce(sum(${daily.daily}), 0)`.as("volume"),
+    }).from(daily).groupBy(daily.tokenAddress).as("vol");
+  }
+
+  async getCreatorLeaderboard(opts: LeaderboardOptions<"launches" | "marketCap" | "volume" | "bestToken" | "fees">): Promise<(Omit<CreatorLeaderboardRow, "estimatedFees"> & { lpFees: number })[]> {
+    const vol = this.tokenVolume(opts.volumeSince);
+    const mc = sql`coalesce(${tokens.marketCap}, 0)`;
+    const aggregates = {
+      launches: sql<number>`count(*)`.mapWith(Number),
+      marketCap: sql<number>`sum(${mc})`.mapWith(Number),
+      volume: sql<number>`coalesce(sum(${vol.volume}), 0)`.mapWith(Number),
+      bestToken: sql<number>`max(${mc})`.mapWith(Number),
+      fees: sql<number>`coalesce(sum(${vol.volume} * ${this.lpFeeBps(tokens.address)}), 0) / 10000.0`.mapWith(Number),
+    };
+
+    const rows = await db.select({
+      wallet: tokens.tokenAdmin,
+      launches: aggregates.launches,
+      totalMarketCap: aggregates.marketCap,
+      volume: aggregates.volume,
+      lpFees: aggregates.fees,
+      bestAddress: sql<string>`(array_agg(${tokens.address} order by ${mc} desc))[1]`,
+      bestSymbol: sql<string>`(array_agg(${tokens.symbol} order by ${mc} desc))[1]`,
+      bestMarketCap: aggregates.bestToken,
+    }).from(tokens)
+      .leftJoin(vol, eq(vol.tokenAddress, tokens.address))
+      .where(and(
+        sql`${tokens.tokenAdmin} not in ('', '0x0000000000000000000000000000000000000000')`,
+        opts.launchedSince ? gte(tokens.deployedAt, opts.launchedSince) : undefined,
+      ))
+      .groupBy(tokens.tokenAdmin)
+      .orderBy(desc(aggregates[opts.sort]), desc(aggregates.launches))
+      .limit(opts.limit);
+
+    return rows.map(({ bestAddress, bestSymbol, bestMarketCap, ...row }) => ({
+      ...row,
+      bestToken: bestAddress ? { address: bestAddress, symbol: bestSymbol, marketCap: bestMarketCap } : null,
+    }));
+  }
+
+  async getTokenLeaderboard(opts: LeaderboardOptions<"marketCap" | "volume" | "fees">): Promise<{ token: Token; volume: number; lpFees: number }[]> {
+    const vol = this.tokenVolume(opts.volumeSince);
+    const volume = sql<number>`coalesce(${vol.volume}, 0)`.mapWith(Number);
+    const lpFees = sql<number>`coalesce(${vol.volume}, 0) * ${this.lpFeeBps(tokens.address)} / 10000.0`.mapWith(Number);
+    const rows = await db.select({ token: tokens, volume, lpFees })
+      .from(tokens)
+      .leftJoin(vol, eq(vol.tokenAddress, tokens.address))
+      .where(opts.launchedSince ? gte(tokens.deployedAt, opts.launchedSince) : undefined)
+      .orderBy(
+        opts.sort === "volume" ? desc(volume) : opts.sort === "fees" ? desc(lpFees) : sql`${tokens.marketCap} desc nulls last`,
+        desc(tokens.deployedAt),
+      )
+      .limit(opts.limit);
+    return rows;
+  }
+
+  // Copies the current market columns of every priced token into the time series, but only
+  // where the indexer refreshed them since that token's last snapshot: a stalled indexer
+  // leaves gaps instead of flat candles made of stale prices
+  async recordMarketSnapshots(): Promise<number> {
+    const result = await db.execute(sql`
+      insert into ${tokenMarketSnapshots} (token_address, market_cap, price_usd, volume_24h, price_change_24h)
+      select ${tokens.address}, ${tokens.marketCap}, ${tokens.priceUsd}, ${tokens.volume24h}, ${tokens.priceChange24h}
+      from ${tokens}
+      where ${tokens.priceUsd} is not null
+        and ${tokens.marketUpdatedAt} is not null
+        and ${tokens.marketUpdatedAt} > coalesce(
+          (select max(s.recorded_at) from ${tokenMarketSnapshots} s where s.token_address = ${tokens.address}),
+          '-infinity'::timestamp
+        )
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async pruneMarketSnapshots(before: Date): Promise<number> {
+    const result = await db.delete(tokenMarketSnapshots).where(lt(tokenMarketSnapshots.recordedAt, before));
+    return result.rowCount ?? 0;
+  }
+
+  // OHLC over priceUsd, one candle per `bucketSeconds` that has at least one snapshot
+  async getMarketCandles(tokenAddress: string, bucketSeconds: number, since: Date): Promise<MarketCandle[]> {
+    // Inlined rather than bound so the select and group by expressions are textually identical
+    const width = sql.raw(String(Math.trunc(bucketSeconds)));
+    const bucket = sql`to_timestamp(floor(extract(epoch from ${tokenMarketSnapshots.recordedAt}) / ${width}) * ${width})`;
+    const rows = await db.select({
+      time: sql<Date>`${bucket}`.mapWith((v: string) => new Date(v)),
+      open: sql<number>`(array_agg(${tokenMarketSnapshots.priceUsd} order by ${tokenMarketSnapshots.recordedAt}))[1]`.mapWith(Number),
+      high: sql<number>`max(${tokenMarketSnapshots.priceUsd})`.mapWith(Number),
+      low: sql<number>`min(${tokenMarketSnapshots.priceUsd})`.mapWith(Number),
+      close: sql<number>`(array_agg(${tokenMarketSnapshots.priceUsd} order by ${tokenMarketSnapshots.recordedAt} desc))[1]`.mapWith(Number),
+      marketCap: sql<number>`(array_agg(coalesce(${tokenMarketSnapshots.marketCap}, 0) order by ${tokenMarketSnapshots.recordedAt} desc))[1]`.mapWith(Number),
+      volume24h: sql<number>`(array_agg(coalesce(${tokenMarketSnapshots.volume24h}, 0) order by ${tokenMarketSnapshots.recordedAt} desc))[1]`.mapWith(Number),
+    })
+      .from(tokenMarketSnapshots)
+      .where(and(
+        eq(tokenMarketSnapshots.tokenAddress, tokenAddress.toLowerCase()),
+        gte(tokenMarketSnapshots.recordedAt, since),
+        sql`${tokenMarketSnapshots.priceUsd} is not null`,
+      ))
+      .groupBy(bucket)
+      .orderBy(bucket);
+    return rows.map(r => ({ ...r, time: r.time.toISOString() }));
+  }
+
+  async addPlatformRevenue(row: InsertPlatformRevenue): Promise<PlatformRevenue> {
+    const [created] = await db.insert(platformRevenue).values(row).returning();
+    return created;
+  }
+
+  async updatePlatformRevenue(id: number, patch: Partial<InsertPlatformRevenue>): Promise<PlatformRevenue> {
+    const [row] = await db.update(platformRevenue).set(patch).where(eq(platformRevenue.id, id)).returning();
+    return row;
+  }
+
+  async getPlatformRevenueByStatus(statuses: PlatformRevenueStatus[]): Promise<PlatformRevenue[]> {
+    return await db.select().from(platformRevenue)
+      .where(inArray(platformRevenue.status, statuses))
+      .orderBy(platformRevenue.createdAt);
+  }
+
+  async listPlatformRevenue(limit: number): Promise<PlatformRevenue[]> {
+    return await db.select().from(platformRevenue)
+      .orderBy(desc(platformRevenue.createdAt))
+      .limit(limit);
+  }
+
+  // Confirmed claims only, biggest USD value first
+  async getPlatformRevenueTotals(): Promise<PlatformRevenueTotal[]> {
+    const amountUsd = sql<number>`coalesce(sum(${platformRevenue.amountUsd}), 0)`.mapWith(Number);
+    const rows = await db.select({
+      feeToken: platformRevenue.feeToken,
+      symbol: sql<string>`max(${platformRevenue.symbol})`,
+      amount: sql<string>`sum(${platformRevenue.amount})::text`,
+      amountUsd,
+      claims: count(),
+      lastClaimAt: sql<Date | null>`max(${platformRevenue.confirmedAt})`.mapWith(platformRevenue.confirmedAt),
+    })
+      .from(platformRevenue)
+      .where(eq(platformRevenue.status, "confirmed"))
+      .groupBy(platformRevenue.feeToken)
+      .orderBy(desc(amountUsd));
+    return rows.map(r => ({ ...r, lastClaimAt: r.lastClaimAt?.toISOString() ?? null }));
+  }
+
+  // Confirmed claims bucketed by UTC day; WETH is reported in ETH, token claims in USD
+  async getPlatformRevenueDaily(wethAddress: string, since: Date): Promise<PlatformRevenueDay[]> {
+    const day = sql`date_trunc('day', ${platformRevenue.confirmedAt} at time zone 'UTC')`;
+    const rows = await db.select({
+      day: sql<string>`to_char(${day}, 'YYYY-MM-DD')`,
+      weth: sql<number>`coalesce(sum(${platformRevenue.amount}) filter (where ${platformRevenue.feeToken} = ${wethAddress.toLowerCase()}), 0) / 1e18`.mapWith(Number),
+      tokenUsd: sql<number>`coalesce(sum(${platformRevenue.amountUsd}) filter (where ${platformRevenue.feeToken} <> ${wethAddress.toLowerCase()}), 0)`.mapWith(Number),
+      claims: count(),
+    })
+      .from(platformRevenue)
+      .where(and(eq(platformRevenue.status, "confirmed"), gte(platformRevenue.confirmedAt, since)))
+      .groupBy(day)
+      .orderBy(day);
+    return rows;
+  }
+
+  // One atomic upsert per hit; returns the window's count including this hit
+  async incrementRateLimit(key: string, windowStart: Date): Promise<number> {
+    const [row] = await db.insert(rateLimitCounters)
+      .values({ key, windowStart, count: 1 })
+      .onConflictDoUpdate({
+        target: [rateLimitCounters.key, rateLimitCounters.windowStart],
+        set: { count: sql`${rateLimitCounters.count} + 1` },
+      })
+      .returning({ count: rateLimitCounters.count });
+    return row.count;
+  }
+
+  async pruneRateLimitCounters(before: Date): Promise<number> {
+    const result = await db.delete(rateLimitCounters).where(lt(rateLimitCounters.windowStart, before));
+    return result.rowCount ?? 0;
+  }
+
+  async getRateLimitOverrides(): Promise<RateLimitRuleOverride[]> {
+    return db.select().from(rateLimitRuleOverrides);
+  }
+
+  async saveRateLimitOverride(id: string, update: RateLimitRuleUpdate, updatedBy: string): Promise<RateLimitRuleOverride> {
+    const values = { ...update, updatedBy, updatedAt: new Date() };
+    const [row] = await db.insert(rateLimitRuleOverrides)
+      .values({ id, ...values })
+      .onConflictDoUpdate({ target: rateLimitRuleOverrides.id, set: values })
+      .returning();
+    return row;
+  }
+
+  async deleteRateLimitOverride(id: string): Promise<void> {
+    await db.delete(rateLimitRuleOverrides).where(eq(rateLimitRuleOverrides.id, id));
+  }
 }
 
 export const storage = new PgStorage();
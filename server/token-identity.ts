@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import type { TokenIdentityCheck, TokenIdentityMatch } from "@shared/schema";
+
+// ─── Duplicate & impersonation check ──────────────────────────────────────────
+// Compares a new token's name and symbol with protected brands (PROTECTED_BRANDS)
+// and with every ConwayPad token in the mirror. Both sides are folded to a
+// "skeleton" first — lowercase, accents and look-alike characters (0/o, 1/l/i,
+// Cyrillic а/е/о, "rn"/"m", …) mapped to one letter, punctuation dropped — so
+// "C0nway-Pad" and "ConwayPad" compare as equal.
+//
+//   brand:  score ≥ 0.85 rejects, ≥ 0.7 warns
+//   token:  identical skeleton rejects (second "ConwayPad", same ticker), ≥ 0.8 warns
+
+const DEFAULT_PROTECTED_BRANDS = ["ConwayPad", "Conway", "Clanker", "Coinbase"];
+const BRAND_REJECT_SCORE = 0.85;
+const BRAND_WARN_SCORE = 0.7;
+const TOKEN_WARN_SCORE = 0.8;
+const MAX_MATCHES = 5;
+const MAX_SKELETON_LENGTH = 64;
+const TOKENS_CACHE_MS = 5 * 60_000;
+
+export const PROTECTED_BRANDS = (process.env.PROTECTED_BRANDS || DEFAULT_PROTECTED_BRANDS.join(","))
+  .split(",").map(b => b.trim()).filter(Boolean);
+
+const LOOKALIKES: Record<string, string> = {
+  "0": "o", "1": "l", "i": "l", "|": "l", "!": "l", "3": "e", "4": "a", "@": "a",
+  "5": "s", "$": "s", "7": "t", "8": "b", "9": "g",
+  // Cyrillic / Greek letters that render like Latin ones
+  "а": "a", "в": "b", "е": "e", "к": "k", "м": "m", "н": "h", "о": "o", "р": "p",
+  "с": "c", "т": "t", "у": "y", "х": "x", "і": "l", "ј": "j", "ѕ": "s",
+  "α": "a", "β": "b", "ε": "e", "ι": "l", "κ": "k", "ν": "v", "ο": "o", "ρ": "p", "τ": "t", "υ": "u", "χ": "x",
+};
+
+// Look-alikes folded, words kept apart by single spaces (moderation matches whole words on this)
+export function foldLookalikes(value: string): string {
+  const letters = value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+    // "|", "!", "$", "@" only stand in for letters inside a word ("C|anker"), not at its edges ("$PEPE", "ETH!")
+    .replace(/(?<![0-9a-zÀ-￿])[|!$@]+|[|!$@]+(?![0-9a-zÀ-￿])/g, " ");
+  return Array.from(letters)
+    .map(c => LOOKALIKES[c] ?? c)
+    .join("")
+    .replace(/rn/g, "m")
+    .replace(/vv/g, "w")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function skeleton(value: string): string {
+  return foldLookalikes(value).replace(/ /g, "").slice(0, MAX_SKELETON_LENGTH);
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// 0–1 on skeletons; a candidate containing the reference (≥ 4 chars) counts as at least 0.9,
+// so "ConwayPad Official" still scores high against "ConwayPad". Only that direction: a
+// candidate that is just part of the reference ("Base", "CLAN") keeps its plain score.
+export function similarity(candidate: string, reference: string): number {
+  if (!candidate || !reference) return 0;
+  if (candidate === reference) return 1;
+  const score = 1 - levenshtein(candidate, reference) / Math.max(candidate.length, reference.length);
+  return reference.length >= 4 && candidate.includes(reference) ? Math.max(score, 0.9) : score;
+}
+
+let tokensCache: { rows: Awaited<ReturnType<typeof storage.getTokenIdentities>>; at: number } | null = null;
+
+async function getExistingTokens() {
+  if (tokensCache && Date.now() - tokensCache.at < TOKENS_CACHE_MS) return tokensCache.rows;
+  try {
+    tokensCache = { rows: await storage.getTokenIdentities(), at: Date.now() };
+  } catch (err: any) {
+    console.error("[Identity] Token mirror read failed:", err?.message || err);
+  }
+  return tokensCache?.rows ?? [];
+}
+
+function percent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+export async function checkTokenIdentity(name: string, symbol: string): Promise<TokenIdentityCheck> {
+  const fields = [
+    { field: "name" as const, value: name, skel: skeleton(name) },
+    { field: "symbol" as const, value: symbol, skel: skeleton(symbol) },
+  ];
+  const matches: TokenIdentityMatch[] = [];
+
+  for (const brand of PROTECTED_BRANDS) {
+    const brandSkel = skeleton(brand);
+    for (const f of fields) {
+      const score = similarity(f.skel, brandSkel);
+      if (score < BRAND_WARN_SCORE) continue;
+      const severity = score >= BRAND_REJECT_SCORE ? "reject" : "warning";
+      matches.push({
+        kind: "brand", field: f.field, match: brand, tokenAddress: null, score, severity,
+        message: severity === "reject"
+          ? `${f.field} "${f.value}" is reserved: too close to the protected brand "${brand}" (${percent(score)} similar)`
+          : `${f.field} "${f.value}" resembles the protected brand "${brand}" (${percent(score)} similar)`,
+      });
+    }
+  }
+
+  for (const token of await getExistingTokens()) {
+    for (const f of fields) {
+      const existing = f.field === "name" ? token.name : token.symbol;
+      const score = similarity(f.skel, skeleton(existing));
+      if (score < TOKEN_WARN_SCORE) continue;
+      const severity = score === 1 ? "reject" : "warning";
+      matches.push({
+        kind: "token", field: f.field, match: existing, tokenAddress: token.address, score, severity,
+        message: severity === "reject"
+          ? `${f.field} "${f.value}" is already taken by ConwayPad token ${token.name} (${token.symbol})`
+          : `${f.field} "${f.value}" is similar to ConwayPad token ${token.name} (${token.symbol}, ${percent(score)} similar)`,
+      });
+    }
+  }
+
+  matches.sort((a, b) => (a.severity === b.severity ? b.score - a.score : a.severity === "reject" ? -1 : 1));
+  return { ok: !matches.some(m => m.severity === "reject"), matches: matches.slice(0, MAX_MATCHES) };
+}
+
+// The reason a launch is refused, or null if the check passed
+export function identityRejection(check: TokenIdentityCheck): string | null {
+  const reject = check.matches.find(m => m.severity === "reject");
+  return reject ? `Name check failed: ${reject.message}` : null;
+}
@@ -0,0 +1,55 @@
+import sharp from "sharp";
+import { getPinner } from "./ipfs";
+import type { TokenImageUpload } from "@shared/schema";
+
+// ─── Token logo uploads ───────────────────────────────────────────────────────
+// PNG/JPEG/GIF/WebP in, validated, cropped to a centred square thumbnail, pinned to
+// IPFS. Animated GIF/WebP keep only their first frame.
+
+export const IMAGE_CONTENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const ALLOWED_FORMATS = new Set(["png", "jpeg", "gif", "webp"]);
+const MIN_DIMENSION = 64;
+const MAX_DIMENSION = 4096;
+const THUMBNAIL_SIZE = 512;
+
+// Checks the bytes themselves (not the declared type); returns why the image is rejected
+export async function checkImage(data: Buffer): Promise<string | null> {
+  if (data.length === 0) return "image is empty";
+  if (data.length > MAX_IMAGE_BYTES) return `image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(data).metadata();
+  } catch {
+    return "not a readable image";
+  }
+  if (!meta.format || !ALLOWED_FORMATS.has(meta.format)) return "image must be PNG, JPEG, GIF or WebP";
+  const { width = 0, height = 0 } = meta;
+  if (width < MIN_DIMENSION || height < MIN_DIMENSION) return `image must be at least ${MIN_DIMENSION}×${MIN_DIMENSION}px`;
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) return `image must be at most ${MAX_DIMENSION}×${MAX_DIMENSION}px`;
+  return null;
+}
+
+export async function uploadTokenImage(data: Buffer): Promise<{ upload: TokenImageUpload } | { error: string }> {
+  const error = await checkImage(data);
+  if (error) return { error };
+
+  const thumbnail = await sharp(data)
+    .rotate()                        // honour EXIF orientation from phone photos
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover", position: "attention" })
+    .png()
+    .toBuffer();
+
+  const pinner = getPinner();
+  const cid = await pinner.pin(thumbnail, "token-logo.png", "image/png");
+  return {
+    upload: {
+      cid,
+      uri: `ipfs://${cid}`,
+      gatewayUrl: pinner.gatewayUrl(cid),
+      width: THUMBNAIL_SIZE,
+      height: THUMBNAIL_SIZE,
+      bytes: thumbnail.length,
+    },
+  };
+}
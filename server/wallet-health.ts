@@ -0,0 +1,131 @@
+import { erc20Abi, formatEther, formatUnits } from "viem";
+import { AGENT_WALLET_ADDRESS, ZERO_ADDRESS, getPublicClient } from "./wallet";
+import type { AgentWalletHealth, WalletAlert } from "@shared/schema";
+
+// ─── Agent wallet health ──────────────────────────────────────────────────────
+// The agent wallet pays gas (and dev buys) for every deploy in ETH, and each Conway
+// inference call in USDC via x402. A background check reads both balances and the
+// pending nonce gap, turns them into a rough runway, and raises alerts under the
+// configured thresholds. Alerts are logged once when they start and once when they clear.
+
+const HEALTH_INTERVAL_MS = 5 * 60_000;
+const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
+const USDC_DECIMALS = 6;
+const MIN_ETH = Number(process.env.AGENT_MIN_ETH || 0.005);
+const MIN_USDC = Number(process.env.AGENT_MIN_USDC || 1);
+// Until a simulation or payment has been seen, runway uses these typical costs
+const DEFAULT_DEPLOY_GAS = BigInt(7_000_000);
+const DEFAULT_REQUEST_USDC_UNITS = BigInt(28);   // ~$0.000028 per gpt-5-nano request
+// A nonce gap that outlives a few checks means a tx is stuck in the mempool
+const STUCK_TX_CHECKS = 3;
+
+let health: AgentWalletHealth | null = null;
+let lastDeployGas: bigint = DEFAULT_DEPLOY_GAS;
+let lastRequestCost: bigint = DEFAULT_REQUEST_USDC_UNITS;
+let pendingChecks = 0;
+const alertSince = new Map<WalletAlert["kind"], string>();
+
+let healthTimer: NodeJS.Timeout | null = null;
+let healthBusy = false;
+
+// Fed by deploy simulations and x402 payments so the runway follows real costs
+export function recordDeployGas(gas: bigint): void {
+  if (gas > BigInt(0)) lastDeployGas = gas;
+}
+
+export function recordInferencePayment(amount: string): void {
+  try {
+    const units = BigInt(amount);
+    if (units > BigInt(0)) lastRequestCost = units;
+  } catch {
+    // non-numeric amount from a malformed 402 body; keep the previous estimate
+  }
+}
+
+// Last snapshot; null until the first check has run (or with no agent wallet)
+export function getWalletHealth(): AgentWalletHealth | null {
+  return health;
+}
+
+function updateAlerts(active: Omit<WalletAlert, "since">[]): WalletAlert[] {
+  const now = new Date().toISOString();
+  const kinds = new Set(active.map(a => a.kind));
+  for (const kind of Array.from(alertSince.keys())) {
+    if (!kinds.has(kind)) {
+      alertSince.delete(kind);
+      console.log(`[Wallet] Alert cleared: ${kind}`);
+    }
+  }
+  return active.map(alert => {
+    if (!alertSince.has(alert.kind)) {
+      alertSince.set(alert.kind, now);
+      console.warn(`[Wallet] ALERT ${alert.kind}: ${alert.message}`);
+    }
+    return { ...alert, since: alertSince.get(alert.kind)! };
+  });
+}
+
+export async function checkWalletHealth(): Promise<AgentWalletHealth> {
+  const client = getPublicClient();
+  const address = AGENT_WALLET_ADDRESS;
+  const [eth, usdc, latestNonce, pendingNonce, fees] = await Promise.all([
+    client.getBalance({ address }),
+    client.readContract({ address: USDC_ADDRESS, abi: erc20Abi, functionName: "balanceOf", args: [address] }),
+    client.getTransactionCount({ address, blockTag: "latest" }),
+    client.getTransactionCount({ address, blockTag: "pending" }),
+    client.estimateFeesPerGas(),
+  ]);
+
+  const pendingTxs = Math.max(0, pendingNonce - latestNonce);
+  pendingChecks = pendingTxs > 0 ? pendingChecks + 1 : 0;
+  const deployCost = lastDeployGas * fees.maxFeePerGas;
+  const ethBalance = formatEther(eth);
+  const usdcBalance = formatUnits(usdc, USDC_DECIMALS);
+
+  const active: Omit<WalletAlert, "since">[] = [];
+  if (Number(ethBalance) < MIN_ETH) {
+    active.push({ kind: "low_eth", message: `${Number(ethBalance).toFixed(5)} ETH left (threshold ${MIN_ETH} ETH), deploys will start failing` });
+  }
+  if (Number(usdcBalance) < MIN_USDC) {
+    active.push({ kind: "low_usdc", message: `${Number(usdcBalance).toFixed(2)} USDC left (threshold ${MIN_USDC} USDC), AI chat falls back when it runs out` });
+  }
+  if (pendingChecks >= STUCK_TX_CHECKS) {
+    active.push({ kind: "stuck_txs", message: `${pendingTxs} transaction${pendingTxs !== 1 ? "s" : ""} pending for over ${(STUCK_TX_CHECKS - 1) * HEALTH_INTERVAL_MS / 60_000} min` });
+  }
+
+  health = {
+    address,
+    checkedAt: new Date().toISOString(),
+    ethBalance,
+    usdcBalance,
+    pendingTxs,
+    estimatedDeploysLeft: deployCost > BigInt(0) ? Number(eth / deployCost) : null,
+    estimatedRequestsLeft: Number(usdc / lastRequestCost),
+    thresholds: { eth: MIN_ETH, usdc: MIN_USDC },
+    alerts: updateAlerts(active),
+  };
+  return health;
+}
+
+export function startWalletHealthMonitor(): void {
+  if (healthTimer) return;
+  if (AGENT_WALLET_ADDRESS === ZERO_ADDRESS) {
+    console.log("[Wallet] Agent wallet not configured, health monitor disabled");
+    return;
+  }
+
+  const tick = async () => {
+    if (healthBusy) return;
+    healthBusy = true;
+    try {
+      await checkWalletHealth();
+    } catch (err: any) {
+      console.error("[Wallet] Health check failed:", err?.shortMessage || err?.message || err);
+    } finally {
+      healthBusy = false;
+    }
+  };
+
+  healthTimer = setInterval(tick, HEALTH_INTERVAL_MS);
+  tick();
+}
@@ -0,0 +1,44 @@
+import { privateKeyToAccount } from "viem/accounts";
+import { createWalletClient, createPublicClient, http as viemHttp } from "viem";
+import { base } from "viem/chains";
+
+export const CONWAY_WALLET_PRIVATE_KEY = process.env.CONWAY_WALLET_PRIVATE_KEY as `0x${string}` | undefined;
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
+// Base RPC for every chain read and write; unset = viem's public default. Point it at an
+// anvil fork (`anvil --fork-url <base rpc>`, chain id stays 8453) to try deploys for free.
+export const BASE_RPC_URL = process.env.BASE_RPC_URL || undefined;
+
+// Derive agent wallet address at startup
+export let AGENT_WALLET_ADDRESS: `0x${string}` = ZERO_ADDRESS;
+if (CONWAY_WALLET_PRIVATE_KEY) {
+  try {
+    AGENT_WALLET_ADDRESS = privateKeyToAccount(CONWAY_WALLET_PRIVATE_KEY).address;
+    console.log("[ConwayPad] Agent wallet:", AGENT_WALLET_ADDRESS);
+  } catch (e) {
+    console.error("[ConwayPad] Could not derive agent wallet address");
+  }
+}
+
+export function getViemClients() {
+  if (!CONWAY_WALLET_PRIVATE_KEY) return null;
+  try {
+    const account = privateKeyToAccount(CONWAY_WALLET_PRIVATE_KEY);
+    const publicClient = createPublicClient({ chain: base, transport: viemHttp(BASE_RPC_URL) });
+    const wallet = createWalletClient({ account, chain: base, transport: viemHttp(BASE_RPC_URL) });
+    return { account, publicClient, wallet };
+  } catch {
+    return null;
+  }
+}
+
+// Read-only client for signature checks and chain reads; works without the agent key
+function createReadClient() {
+  return createPublicClient({ chain: base, transport: viemHttp(BASE_RPC_URL) });
+}
+
+let publicClient: ReturnType<typeof createReadClient> | null = null;
+
+export function getPublicClient() {
+  if (!publicClient) publicClient = createReadClient();
+  return publicClient;
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { DEPLOYMENT_STATUSES, rewardSplitsSchema } from "./schema";
+
+// ─── /api/chat SSE protocol ───────────────────────────────────────────────────
+// Every frame is `data: {...}\n\n`. Structured frames carry a `type`; the stream
+// ends with `{ done: true }`. Text is always sent as `{ type: "text", content }`
+// so older clients that only read `content` keep working, and every structured
+// event is accompanied by its plain-text rendering.
+
+const deployParamsSchema = z.object({
+  name: z.string().optional(),
+  symbol: z.string().optional(),
+  wallet: z.string().optional(),
+  websiteUrl: z.string().optional(),
+  twitterUrl: z.string().optional(),
+  telegramUrl: z.string().optional(),
+  farcasterUrl: z.string().optional(),
+  discordUrl: z.string().optional(),
+  githubUrl: z.string().optional(),
+  description: z.string().optional(),
+  imageUrl: z.string().optional(),
+  rewardSplits: rewardSplitsSchema.optional(),
+});
+
+export const chatEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    content: z.string(),
+  }),
+  // Parsed deploy awaiting confirm / cancel / edit
+  z.object({
+    type: z.literal("deploy_preview"),
+    draftId: z.number(),
+    params: deployParamsSchema,
+    expiresAt: z.string(),
+  }),
+  // Deploy tx sent (or queued for retry, or flagged for review); the client can poll /api/deployments/:id
+  z.object({
+    type: z.literal("deploy_submitted"),
+    deploymentId: z.number(),
+    txHash: z.string().nullable(),
+    status: z.enum(DEPLOYMENT_STATUSES),
+  }),
+  // Terminal outcome known while the request was still open
+  z.object({
+    type: z.literal("deploy_result"),
+    deploymentId: z.number(),
+    status: z.enum(DEPLOYMENT_STATUSES),
+    tokenAddress: z.string().nullable().optional(),
+    error: z.string().nullable().optional(),
+  }),
+  // Answer came from the built-in knowledge base instead of Conway AI
+  z.object({
+    type: z.literal("fallback"),
+    reason: z.string(),
+  }),
+  // x402 micro-payment made for this answer (amount in the asset's atomic units)
+  z.object({
+    type: z.literal("payment"),
+    network: z.string(),
+    asset: z.string(),
+    payTo: z.string(),
+    amount: z.string(),
+  }),
+  z.object({
+    type: z.literal("error"),
+    message: z.string(),
+  }),
+]);
+
+export type ChatEvent = z.infer<typeof chatEventSchema>;
+export type ChatEventType = ChatEvent["type"];
+
+// Parse one `data:` payload. Legacy `{ content }` frames without a type are read as text.
+// Returns "done" for the end-of-stream frame and null for anything unrecognised.
+export function parseChatFrame(data: string): ChatEvent | "done" | null {
+  let raw: any;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (raw?.done) return "done";
+  if (raw && raw.type === undefined && typeof raw.content === "string") {
+    return { type: "text", content: raw.content };
+  }
+  const parsed = chatEventSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
@@ -1,14 +1,24 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, timestamp, integer, boolean, jsonb, index, uniqueIndex, primaryKey, doublePrecision, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { SOCIAL_PLATFORM_LABELS, canonicalSocialLink, type SocialLinkField, type SocialPlatform } from "./social-links";
 
+// One row per wallet that has signed in with SIWE (address stored lowercased)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  walletAddress: text("wallet_address").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastLoginAt: timestamp("last_login_at").defaultNow(),
 });
 
+// express-session store (connect-pg-simple layout); declared here so db:push keeps it
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_user_sessions_expire").on(table.expire)]);
+
 export const chatMessages = pgTable("chat_messages", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull(),
@@ -17,12 +27,30 @@ export const chatMessages = pgTable("chat_messages", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Multi-turn chat state (one per session): the deploy fields gathered across messages
+// and the required ones the assistant last asked for
+export const chatDialogues = pgTable("chat_dialogues", {
+  sessionId: text("session_id").primaryKey(),
+  intent: text("intent").$type<"deploy">().notNull(),
+  slots: jsonb("slots").$type<DeployParams>().notNull(),
+  awaiting: jsonb("awaiting").$type<DeploySlot[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Each user keeps their own list; an address appears at most once per owner (stored lowercased).
+// user_id is nullable only so `db:push` can add it to a table holding rows from before
+// per-user tracking; those rows have no owner and are never listed. New rows always set it.
 export const trackedWallets = pgTable("tracked_wallets", {
   id: serial("id").primaryKey(),
-  walletAddress: text("wallet_address").notNull().unique(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  walletAddress: text("wallet_address").notNull(),
   label: text("label"),
+  notes: text("notes"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("tracked_wallets_user_wallet_idx").on(table.userId, table.walletAddress)]);
 
 export const tokenLaunches = pgTable("token_launches", {
   id: serial("id").primaryKey(),
@@ -34,13 +62,474 @@ export const tokenLaunches = pgTable("token_launches", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// flagged: held by moderation until an admin approves (→ queued) or rejects it (→ rejected)
+export const DEPLOYMENT_STATUSES = ["flagged", "queued", "submitted", "confirmed", "failed", "reverted", "rejected"] as const;
+export type DeploymentStatus = typeof DEPLOYMENT_STATUSES[number];
+
+// Deploy tx(s) signed for a job before broadcast (server/signer.ts): every hash signed for
+// `nonce` and the latest raw tx, so a retry can find or rebroadcast them instead of resending
+export interface SentTx {
+  nonce: number;
+  hashes: `0x${string}`[];
+  raw: `0x${string}`;
+}
+
+// Why moderation held a launch (see server/moderation.ts)
+export interface ModerationFlag {
+  field: "name" | "symbol" | "description" | SocialLinkField | "imageUrl";
+  reason: string;
+}
+
+// Extra creator-side LP fee recipient (co-founder, treasury, ...). `bps` is out of the whole
+// LP fee (10_000); the token admin keeps the creator side minus every split.
+export interface RewardSplit {
+  recipient: string;
+  bps: number;
+  label?: string;
+}
+
+// Clanker v4 takes up to 7 reward recipients: token admin + platform + 5 splits
+export const MAX_REWARD_SPLITS = 5;
+export const DEFAULT_PLATFORM_FEE_BPS = 1000;
+
+// LP fee policy the server deploys with (PLATFORM_FEE_BPS), reported by GET /api/agent/info
+export interface RewardPolicy {
+  platformBps: number;
+  creatorBps: number;
+  maxSplits: number;
+}
+
+export const rewardSplitSchema = z.object({
+  recipient: z.string().trim().regex(/^0x[a-fA-F0-9]{40}$/, "recipient must be a 0x address").transform(v => v.toLowerCase()),
+  bps: z.number().int().min(1, "each split needs at least 0.01%").max(9999),
+  label: z.string().trim().max(32).optional().transform(v => v || undefined),
+});
+export const rewardSplitsSchema = z.array(rewardSplitSchema)
+  .max(MAX_REWARD_SPLITS, `at most ${MAX_REWARD_SPLITS} extra fee recipients`);
+
+// Splits must be distinct, exclude the token admin and leave the admin part of the creator side
+export function checkRewardSplits(splits: RewardSplit[], tokenAdmin: string, creatorBps: number): string | null {
+  if (splits.length > MAX_REWARD_SPLITS) return `at most ${MAX_REWARD_SPLITS} extra fee recipients`;
+  const seen = new Set<string>();
+  for (const split of splits) {
+    if (!Number.isInteger(split.bps) || split.bps < 1) return "each split needs at least 0.01%";
+    const recipient = split.recipient.toLowerCase();
+    if (recipient === tokenAdmin.toLowerCase()) return "the token admin already receives the remainder of the creator share";
+    if (seen.has(recipient)) return "each fee recipient can only be listed once";
+    seen.add(recipient);
+  }
+  const total = splits.reduce((sum, s) => sum + s.bps, 0);
+  if (total >= creatorBps) {
+    return `fee splits add up to ${total / 100}%, they must leave the token admin part of the creator's ${creatorBps / 100}%`;
+  }
+  return null;
+}
+
+// Advanced Clanker v4 options (LaunchForm "Advanced" / POST /api/clanker/deploy). Anything left out
+// uses the SDK default: no vault, no dev buy, Standard positions from ~10 ETH, static 1% fee.
+export const POOL_PRESETS = ["Standard", "Project", "TwentyETH"] as const;
+export type PoolPreset = typeof POOL_PRESETS[number];
+export const DYNAMIC_FEE_PRESETS = ["DynamicBasic", "Dynamic3"] as const;
+// Pool fee of a launch that doesn't set one (the SDK's static 1%)
+export const DEFAULT_LP_FEE_BPS = 100;
+
+export const deployAdvancedSchema = z.object({
+  // Share of supply locked for the creator, then vested linearly
+  vault: z.object({
+    percentage: z.number().int().min(1, "vault must hold at least 1% of supply").max(90, "vault can hold at most 90% of supply"),
+    lockupDays: z.number().int().min(7, "vault lockup is at least 7 days").max(3650),
+    vestingDays: z.number().int().min(0).max(3650).default(0),
+    recipient: z.string().trim().regex(/^0x[a-fA-F0-9]{40}$/, "vault recipient must be a 0x address").transform(v => v.toLowerCase()).optional(),
+  }).optional(),
+  // ETH spent buying the token in the deploy tx (paid by the agent wallet, capped by MAX_DEV_BUY_ETH)
+  devBuy: z.object({
+    ethAmount: z.number().positive("dev buy must be more than 0 ETH"),
+  }).optional(),
+  // Liquidity position preset, optionally moved to start at a given market cap
+  pool: z.object({
+    preset: z.enum(POOL_PRESETS).default("Standard"),
+    startingMarketCapEth: z.number().min(1, "starting market cap is at least 1 ETH").max(1000, "starting market cap is at most 1000 ETH").optional(),
+  }).optional(),
+  // Static: one LP fee on both sides. Dynamic: the fee rises with volatility (SDK presets)
+  fees: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("static"), bps: z.number().int().min(25, "static fee is at least 0.25%").max(500, "static fee is at most 5%") }),
+    z.object({ type: z.literal("dynamic"), preset: z.enum(DYNAMIC_FEE_PRESETS).default("DynamicBasic") }),
+  ]).optional(),
+});
+export type DeployAdvancedOptions = z.infer<typeof deployAdvancedSchema>;
+
+// A link in any form the platform accepts → its canonical https URL (see social-links.ts)
+function socialLinkSchema(platform: SocialPlatform) {
+  return z.string().nullish().transform((value, ctx) => {
+    if (!value?.trim()) return undefined;
+    const result = canonicalSocialLink(platform, value);
+    if ("error" in result) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${SOCIAL_PLATFORM_LABELS[platform]} link ${result.error}` });
+      return z.NEVER;
+    }
+    return result.url;
+  });
+}
+
+const optionalText = z.string().nullish().transform(v => v?.trim() || undefined);
+
+// Token metadata for every deploy path (form route, chat tool, chat parser, both forms).
+// Errors carry the field in their path; links come out canonical.
+export const deployMetadataSchema = z.object({
+  description: optionalText.refine(v => !v || v.length <= 1000, "description must be at most 1000 characters"),
+  imageUrl: optionalText.refine(v => !v || /^(ipfs|https?):\/\//i.test(v), "image URL must be ipfs:// or https://"),
+  websiteUrl: socialLinkSchema("website"),
+  twitterUrl: socialLinkSchema("x"),
+  telegramUrl: socialLinkSchema("telegram"),
+  farcasterUrl: socialLinkSchema("farcaster"),
+  discordUrl: socialLinkSchema("discord"),
+  githubUrl: socialLinkSchema("github"),
+});
+export type DeployMetadata = z.infer<typeof deployMetadataSchema>;
+
+// Fields a chat deploy can't go without; the dialogue asks for whichever are missing
+export const DEPLOY_REQUIRED_SLOTS = ["name", "symbol", "wallet"] as const;
+export type DeploySlot = typeof DEPLOY_REQUIRED_SLOTS[number];
+
+// Token parameters accepted by the deploy flows (chat + form)
+export interface DeployParams extends DeployAdvancedOptions, DeployMetadata {
+  name?: string;
+  symbol?: string;
+  wallet?: string;
+  rewardSplits?: RewardSplit[];
+  platformBps?: number;      // stamped by enqueueDeployment: the platform share in force at deploy time
+  lpFeeBps?: number;         // stamped by enqueueDeployment: the pool fee swaps pay (a dynamic preset's minimum)
+}
+
+// Result of POST /api/clanker/deploy/simulate; ETH amounts are decimal strings
+export interface DeploySimulation {
+  ok: boolean;                    // the call succeeds and the agent wallet can pay for it
+  error: string | null;           // revert reason, or why the wallet can't pay
+  chainId: number;
+  blockNumber: number;
+  gas: string | null;             // estimated gas units
+  maxFeePerGasGwei: string;
+  gasCostEth: string | null;      // gas × maxFeePerGas, an upper bound
+  devBuyEth: string;
+  totalCostEth: string | null;    // gas + dev buy
+  totalCostUsd: number | null;
+  ethUsd: number | null;
+  agentWallet: { address: string; balanceEth: string; sufficient: boolean | null };
+  identity: TokenIdentityCheck;
+}
+
+// Pre-deploy name / ticker check against protected brands and existing ConwayPad tokens
+export interface TokenIdentityMatch {
+  kind: "brand" | "token";
+  field: "name" | "symbol";       // which field of the new token matched
+  match: string;                  // the protected brand, or the existing token's name / symbol
+  tokenAddress: string | null;    // the existing token, for kind "token"
+  score: number;                  // 0–1 similarity after folding look-alike characters
+  severity: "warning" | "reject";
+  message: string;
+}
+
+export interface TokenIdentityCheck {
+  ok: boolean;                    // no rejections (warnings allowed)
+  matches: TokenIdentityMatch[];  // strongest first
+}
+
+// Agent wallet balances and runway, refreshed by the wallet health monitor
+export interface WalletAlert {
+  kind: "low_eth" | "low_usdc" | "stuck_txs";
+  message: string;
+  since: string;                  // ISO time the condition was first seen
+}
+
+export interface AgentWalletHealth {
+  address: string;
+  checkedAt: string;
+  ethBalance: string;             // decimal strings
+  usdcBalance: string;
+  pendingTxs: number;             // sent but not yet mined (pending nonce − latest nonce)
+  estimatedDeploysLeft: number | null;
+  estimatedRequestsLeft: number | null;
+  thresholds: { eth: number; usdc: number };
+  alerts: WalletAlert[];
+}
+
+// Result of POST /api/uploads/image: the pinned square logo
+export interface TokenImageUpload {
+  cid: string;
+  uri: string;                    // ipfs://<cid>, what goes into imageUrl
+  gatewayUrl: string;             // HTTP URL for previews
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export const deployments = pgTable("deployments", {
+  id: serial("id").primaryKey(),
+  launchId: integer("launch_id").references(() => tokenLaunches.id),
+  tokenAdmin: text("token_admin").notNull(),
+  status: text("status").$type<DeploymentStatus>().notNull().default("queued"),
+  params: jsonb("params").$type<DeployParams>().notNull(),
+  txHash: text("tx_hash"),
+  tokenAddress: text("token_address"),
+  blockNumber: integer("block_number"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  sentTx: jsonb("sent_tx").$type<SentTx>(),
+  moderation: jsonb("moderation").$type<ModerationFlag[]>(),
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Deploy previewed in chat, waiting for the user to confirm, edit or cancel
+export const deployDrafts = pgTable("deploy_drafts", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull().unique(),
+  params: jsonb("params").$type<DeployParams>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Local mirror of every token the agent wallet deployed, kept fresh by the indexer
+// (server/indexer.ts). Addresses are stored lowercased; `raw` is the last API row.
+export const tokens = pgTable("tokens", {
+  address: text("address").primaryKey(),
+  chainId: integer("chain_id").notNull().default(8453),
+  name: text("name").notNull(),
+  symbol: text("symbol").notNull(),
+  tokenAdmin: text("token_admin").notNull(),
+  deployer: text("deployer"),
+  imageUrl: text("image_url"),
+  description: text("description"),
+  txHash: text("tx_hash"),
+  poolAddress: text("pool_address"),
+  deployedAt: timestamp("deployed_at"),
+  metadata: jsonb("metadata"),
+  raw: jsonb("raw"),
+  // Latest market snapshot
+  marketCap: doublePrecision("market_cap"),
+  priceUsd: doublePrecision("price_usd"),
+  volume24h: doublePrecision("volume_24h"),
+  priceChange24h: doublePrecision("price_change_24h"),
+  marketUpdatedAt: timestamp("market_updated_at"),
+  indexedAt: timestamp("indexed_at").defaultNow(),
+}, (table) => [
+  index("tokens_token_admin_idx").on(table.tokenAdmin),
+  index("tokens_deployed_at_idx").on(table.deployedAt),
+  index("tokens_market_cap_idx").on(table.marketCap),
+]);
+
+// Market data over time, one row per token per collector pass (see market-snapshots.ts)
+export const tokenMarketSnapshots = pgTable("token_market_snapshots", {
+  id: serial("id").primaryKey(),
+  tokenAddress: text("token_address").notNull().references(() => tokens.address, { onDelete: "cascade" }),
+  marketCap: doublePrecision("market_cap"),
+  priceUsd: doublePrecision("price_usd"),
+  volume24h: doublePrecision("volume_24h"),
+  priceChange24h: doublePrecision("price_change_24h"),
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+}, (table) => [
+  index("token_market_snapshots_token_recorded_idx").on(table.tokenAddress, table.recordedAt),
+  index("token_market_snapshots_recorded_idx").on(table.recordedAt),
+]);
+
+// Platform fee claims: one row per claim tx the agent wallet sends to the fee locker
+// for its own reward share (see platform-revenue.ts). `amount` is in wei of `feeToken`.
+export const PLATFORM_REVENUE_STATUSES = ["submitted", "confirmed", "failed"] as const;
+export type PlatformRevenueStatus = typeof PLATFORM_REVENUE_STATUSES[number];
+
+export const platformRevenue = pgTable("platform_revenue", {
+  id: serial("id").primaryKey(),
+  feeToken: text("fee_token").notNull(),
+  symbol: text("symbol").notNull(),
+  amount: numeric("amount", { precision: 78, scale: 0 }).notNull(),
+  amountUsd: doublePrecision("amount_usd"),       // at claim time; null when unpriced (WETH)
+  status: text("status").$type<PlatformRevenueStatus>().notNull().default("submitted"),
+  txHash: text("tx_hash"),
+  blockNumber: integer("block_number"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  confirmedAt: timestamp("confirmed_at"),
+}, (table) => [
+  index("platform_revenue_fee_token_idx").on(table.feeToken),
+  index("platform_revenue_created_at_idx").on(table.createdAt),
+]);
+
+// ─── Rate limits ──────────────────────────────────────────────────────────────
+// Fixed-window quotas on the endpoints that spend agent wallet funds or pin files.
+// Each rule counts one action per scope value (client IP, chat/login session, token admin).
+export const RATE_LIMIT_ACTIONS = ["deploy", "chat", "simulate", "upload"] as const;
+export type RateLimitAction = typeof RATE_LIMIT_ACTIONS[number];
+export const RATE_LIMIT_SCOPES = ["ip", "session", "tokenAdmin"] as const;
+export type RateLimitScope = typeof RATE_LIMIT_SCOPES[number];
+
+export interface RateLimitRule {
+  id: string;                     // `${action}:${scope}`
+  action: RateLimitAction;
+  scope: RateLimitScope;
+  limit: number;
+  windowSeconds: number;
+  enabled: boolean;
+}
+
+// Built-in policy; admins override single rules (stored in rate_limit_rules)
+export const DEFAULT_RATE_LIMIT_RULES: RateLimitRule[] = [
+  { id: "deploy:ip", action: "deploy", scope: "ip", limit: 20, windowSeconds: 86_400, enabled: true },
+  { id: "deploy:session", action: "deploy", scope: "session", limit: 10, windowSeconds: 86_400, enabled: true },
+  { id: "deploy:tokenAdmin", action: "deploy", scope: "tokenAdmin", limit: 5, windowSeconds: 86_400, enabled: true },
+  { id: "chat:ip", action: "chat", scope: "ip", limit: 120, windowSeconds: 3_600, enabled: true },
+  { id: "chat:session", action: "chat", scope: "session", limit: 30, windowSeconds: 600, enabled: true },
+  { id: "simulate:ip", action: "simulate", scope: "ip", limit: 60, windowSeconds: 3_600, enabled: true },
+  { id: "upload:ip", action: "upload", scope: "ip", limit: 30, windowSeconds: 3_600, enabled: true },
+];
+
+// Hits per rule + scope value + window start
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  key: text("key").notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.key, table.windowStart] }),
+  index("rate_limit_counters_window_idx").on(table.windowStart),
+]);
+
+export const rateLimitRuleOverrides = pgTable("rate_limit_rules", {
+  id: text("id").primaryKey(),
+  limit: integer("limit").notNull(),
+  windowSeconds: integer("window_seconds").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const rateLimitRuleUpdateSchema = z.object({
+  limit: z.number().int().min(1).max(1_000_000),
+  windowSeconds: z.number().int().min(10).max(30 * 86_400),
+  enabled: z.boolean(),
+});
+export type RateLimitRuleUpdate = z.infer<typeof rateLimitRuleUpdateSchema>;
+export type RateLimitRuleOverride = typeof rateLimitRuleOverrides.$inferSelect;
+
+// POST /api/admin/moderation/:id — decide a flagged launch
+export const moderationReviewSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  reason: z.string().trim().max(500).optional(),
+});
+export type ModerationReview = z.infer<typeof moderationReviewSchema>;
+
+// Candle widths for GET /api/tokens/:address/market, in seconds
+export const MARKET_INTERVALS = { "5m": 300, "15m": 900, "1h": 3600, "4h": 14400, "1d": 86400 } as const;
+export type MarketInterval = keyof typeof MARKET_INTERVALS;
+
+// GET /api/leaderboard. launches / marketCap / bestToken rank tokens launched inside the window;
+// volume / fees rank swap activity inside the window (any launch date).
+export const LEADERBOARD_WINDOWS = { "24h": 86_400_000, "7d": 7 * 86_400_000, "30d": 30 * 86_400_000, "all": null } as const;
+export type LeaderboardWindow = keyof typeof LEADERBOARD_WINDOWS;
+export const CREATOR_LEADERBOARD_MODES = ["launches", "marketCap", "volume", "bestToken", "fees"] as const;
+export const TOKEN_LEADERBOARD_MODES = ["marketCap", "volume", "fees"] as const;
+
+export const leaderboardQuerySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("creators"), mode: z.enum(CREATOR_LEADERBOARD_MODES).default("launches") }),
+  z.object({ type: z.literal("tokens"), mode: z.enum(TOKEN_LEADERBOARD_MODES).default("marketCap") }),
+]).and(z.object({
+  window: z.enum(Object.keys(LEADERBOARD_WINDOWS) as [LeaderboardWindow, ...LeaderboardWindow[]]).default("all"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+}));
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+export interface CreatorLeaderboardRow {
+  wallet: string;
+  launches: number;
+  totalMarketCap: number;
+  volume: number;
+  estimatedFees: number;
+  bestToken: { address: string; symbol: string; marketCap: number } | null;
+}
+
+// Aggregates over every token one tokenAdmin launched (GET /api/creators/:wallet)
+export interface CreatorStats {
+  launches: number;
+  totalMarketCap: number;
+  totalVolume24h: number;
+  firstLaunchAt: string | null;
+  lastLaunchAt: string | null;
+  trackedVolume: number;   // approx. traded volume since snapshots began (sum of daily average 24h volume)
+  lpFees24h: number;       // 24h volume × each token's pool fee
+  trackedLpFees: number;   // trackedVolume × each token's pool fee
+}
+
+// Confirmed platform claims per fee token / per day (GET /api/admin/revenue)
+export interface PlatformRevenueTotal {
+  feeToken: string;
+  symbol: string;
+  amount: string;        // wei
+  amountUsd: number;
+  claims: number;
+  lastClaimAt: string | null;
+}
+
+export interface PlatformRevenueDay {
+  day: string;           // YYYY-MM-DD, UTC
+  weth: number;          // ETH units
+  tokenUsd: number;      // USD value of token-denominated claims
+  claims: number;
+}
+
+export interface MarketCandle {
+  time: string;          // bucket start, ISO
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  marketCap: number;     // at close
+  volume24h: number;     // rolling 24h volume at close
+}
+
 export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
+  walletAddress: true,
 });
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({ id: true, createdAt: true });
-export const insertTrackedWalletSchema = createInsertSchema(trackedWallets).omit({ id: true, createdAt: true });
+export const insertTrackedWalletSchema = createInsertSchema(trackedWallets, {
+  userId: z.string(),
+  walletAddress: (schema) => schema.regex(/^0x[a-fA-F0-9]{40}$/, "must be a 0x address"),
+  label: (schema) => schema.trim().max(50),
+  notes: (schema) => schema.max(2000),
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(24)).max(10),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+// Request bodies: the owner always comes from the session
+export const trackedWalletInputSchema = insertTrackedWalletSchema.omit({ userId: true });
+export const updateTrackedWalletSchema = trackedWalletInputSchema.pick({ label: true, notes: true, tags: true }).partial();
 export const insertTokenLaunchSchema = createInsertSchema(tokenLaunches).omit({ id: true, createdAt: true });
+export const insertDeploymentSchema = createInsertSchema(deployments, {
+  status: z.enum(DEPLOYMENT_STATUSES),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertDeployDraftSchema = createInsertSchema(deployDrafts).omit({ id: true, createdAt: true });
+export const insertChatDialogueSchema = createInsertSchema(chatDialogues, {
+  intent: z.literal("deploy"),
+  awaiting: z.array(z.enum(DEPLOY_REQUIRED_SLOTS)),
+}).omit({ updatedAt: true });
+export const insertTokenSchema = createInsertSchema(tokens).omit({ indexedAt: true });
+export const insertPlatformRevenueSchema = createInsertSchema(platformRevenue, {
+  status: z.enum(PLATFORM_REVENUE_STATUSES),
+}).omit({ id: true, createdAt: true });
+
+// GET /api/tokens query string. `cursor` is opaque (see storage.queryTokens).
+export const TOKEN_SORTS = ["marketCap", "volume24h", "priceChange24h", "deployedAt"] as const;
+export type TokenSort = typeof TOKEN_SORTS[number];
+
+export const tokenQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  sort: z.enum(TOKEN_SORTS).default("deployedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  admin: z.string().trim().regex(/^0x[a-fA-F0-9]{40}$/, "admin must be a 0x address").transform(v => v.toLowerCase()).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minMarketCap: z.coerce.number().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().max(500).optional(),
+});
+export type TokenQuery = z.infer<typeof tokenQuerySchema>;
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -50,6 +539,24 @@ export type ChatMessage = typeof chatMessages.$inferSelect;
 
 export type InsertTrackedWallet = z.infer<typeof insertTrackedWalletSchema>;
 export type TrackedWallet = typeof trackedWallets.$inferSelect;
+export type UpdateTrackedWallet = z.infer<typeof updateTrackedWalletSchema>;
 
 export type InsertTokenLaunch = z.infer<typeof insertTokenLaunchSchema>;
 export type TokenLaunch = typeof tokenLaunches.$inferSelect;
+
+export type InsertDeployment = z.infer<typeof insertDeploymentSchema>;
+export type Deployment = typeof deployments.$inferSelect;
+
+export type InsertDeployDraft = z.infer<typeof insertDeployDraftSchema>;
+export type DeployDraft = typeof deployDrafts.$inferSelect;
+
+export type InsertChatDialogue = z.infer<typeof insertChatDialogueSchema>;
+export type ChatDialogue = typeof chatDialogues.$inferSelect;
+
+export type InsertToken = z.infer<typeof insertTokenSchema>;
+export type Token = typeof tokens.$inferSelect;
+
+export type TokenMarketSnapshot = typeof tokenMarketSnapshots.$inferSelect;
+
+export type InsertPlatformRevenue = z.infer<typeof insertPlatformRevenueSchema>;
+export type PlatformRevenue = typeof platformRevenue.$inferSelect;
@@ -0,0 +1,142 @@
+// ─── Social links ─────────────────────────────────────────────────────────────
+// Users type links every which way ("@conwaypad", "twitter.com/conwaypad?s=20",
+// "discord.gg/abc", "conwaypad.xyz"). Each platform accepts those forms and turns
+// them into one canonical https URL, or says what's wrong with the input.
+// Shared by the deploy route, the chat parser and both deploy forms.
+
+export const SOCIAL_PLATFORMS = ["website", "x", "telegram", "farcaster", "discord", "github"] as const;
+export type SocialPlatform = typeof SOCIAL_PLATFORMS[number];
+
+// DeployParams field for each platform
+export const SOCIAL_LINK_FIELDS = {
+  websiteUrl: "website",
+  twitterUrl: "x",
+  telegramUrl: "telegram",
+  farcasterUrl: "farcaster",
+  discordUrl: "discord",
+  githubUrl: "github",
+} as const satisfies Record<string, SocialPlatform>;
+export type SocialLinkField = keyof typeof SOCIAL_LINK_FIELDS;
+
+export const SOCIAL_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  website: "Website",
+  x: "X",
+  telegram: "Telegram",
+  farcaster: "Farcaster",
+  discord: "Discord",
+  github: "GitHub",
+};
+
+type Canonical = { url: string } | { error: string };
+
+// Host (lowercased, no "www.") and path segments of a URL-ish input; null if it isn't one
+function splitUrl(input: string): { host: string; segments: string[] } | null {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+  try {
+    return {
+      host: url.hostname.toLowerCase().replace(/^(www|mobile|m)\./, ""),
+      segments: url.pathname.split("/").filter(Boolean).map(decodeURIComponent),
+    };
+  } catch {
+    return null;   // malformed %-escape
+  }
+}
+
+// "@name", "name" or a URL on one of `hosts`; returns the path segments after the host
+function handleOrPath(input: string, hosts: string[]): string[] | null {
+  if (/^@?[^\s/:]+$/.test(input) && !hosts.includes(input.toLowerCase())) return [input.replace(/^@/, "")];
+  const parts = splitUrl(input);
+  return parts && hosts.includes(parts.host) ? parts.segments : null;
+}
+
+function website(input: string): Canonical {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return { error: "isn't a valid URL" };
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return { error: "must be an http(s) link" };
+  if (!/^([a-z0-9-]+\.)+[a-z]{2,}$/i.test(url.hostname)) return { error: "needs a domain name, like example.com" };
+  if (url.username || url.password) return { error: "can't contain a username or password" };
+  const path = url.pathname === "/" ? "" : url.pathname.replace(/\/$/, "");
+  return { url: `https://${url.hostname.toLowerCase()}${url.port ? `:${url.port}` : ""}${path}${url.search}` };
+}
+
+function x(input: string): Canonical {
+  const segments = handleOrPath(input, ["x.com", "twitter.com"]);
+  if (!segments) return { error: "must be an X handle or an x.com link" };
+  const [handle, ...rest] = segments;
+  if (!handle || rest.length > 0) return { error: "must link to an X profile, like x.com/conwaypad" };
+  if (!/^[A-Za-z0-9_]{1,15}$/.test(handle)) return { error: "X handles are 1-15 letters, digits or underscores" };
+  return { url: `https://x.com/${handle}` };
+}
+
+function telegram(input: string): Canonical {
+  const segments = handleOrPath(input, ["t.me", "telegram.me", "telegram.dog"]);
+  if (!segments || segments.length === 0) return { error: "must be a Telegram username or a t.me link" };
+  // Private invite links: t.me/+code or the older t.me/joinchat/code
+  if (segments[0] === "joinchat" && segments[1]) segments.splice(0, 2, `+${segments[1]}`);
+  const [name, ...rest] = segments;
+  if (rest.length > 0) return { error: "must link to a Telegram group, channel or user, like t.me/conwaypad" };
+  if (/^\+[A-Za-z0-9_-]{10,}$/.test(name)) return { url: `https://t.me/${name}` };
+  if (!/^[A-Za-z][A-Za-z0-9_]{3,31}$/.test(name)) return { error: "Telegram usernames are 4-32 letters, digits or underscores" };
+  return { url: `https://t.me/${name}` };
+}
+
+function farcaster(input: string): Canonical {
+  const segments = handleOrPath(input, ["farcaster.xyz", "warpcast.com"]);
+  if (!segments || segments.length === 0) return { error: "must be a Farcaster username or a farcaster.xyz link" };
+  // Channels: farcaster.xyz/~/channel/name
+  if (segments[0] === "~" && segments[1] === "channel" && segments.length === 3) {
+    const channel = segments[2].toLowerCase();
+    if (!/^[a-z0-9-]{1,16}$/.test(channel)) return { error: "isn't a valid Farcaster channel" };
+    return { url: `https://farcaster.xyz/~/channel/${channel}` };
+  }
+  const [name, ...rest] = segments;
+  if (rest.length > 0) return { error: "must link to a Farcaster profile or channel" };
+  const username = name.toLowerCase();
+  if (!/^[a-z0-9][a-z0-9-]{0,15}(\.eth)?$/.test(username)) return { error: "isn't a valid Farcaster username" };
+  return { url: `https://farcaster.xyz/${username}` };
+}
+
+function discord(input: string): Canonical {
+  let segments = handleOrPath(input, ["discord.gg", "discord.com", "discordapp.com"]);
+  if (!segments || segments.length === 0) return { error: "must be a Discord invite, like discord.gg/abc123" };
+  if (segments[0] === "invite") segments = segments.slice(1);
+  const [code, ...rest] = segments;
+  if (!code || rest.length > 0 || !/^[A-Za-z0-9-]{2,32}$/.test(code)) {
+    return { error: "must be a Discord invite, like discord.gg/abc123" };
+  }
+  return { url: `https://discord.gg/${code}` };
+}
+
+function github(input: string): Canonical {
+  // "owner" or "owner/repo" without a host
+  const bare = !input.includes("://") && !input.split("/")[0].includes(".");
+  const parts = bare ? { host: "github.com", segments: input.replace(/^@/, "").split("/").filter(Boolean) } : splitUrl(input);
+  if (!parts || parts.host !== "github.com" || parts.segments.length === 0) {
+    return { error: "must be a GitHub user, org or repo link" };
+  }
+  const [owner, repo, ...rest] = parts.segments;
+  if (rest.length > 0) return { error: "must link to a GitHub user, org or repo, like github.com/conwaypad/app" };
+  if (!/^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/.test(owner)) return { error: "isn't a valid GitHub user or org" };
+  if (repo === undefined) return { url: `https://github.com/${owner}` };
+  const name = repo.replace(/\.git$/, "");
+  if (!/^[A-Za-z0-9._-]{1,100}$/.test(name)) return { error: "isn't a valid GitHub repo name" };
+  return { url: `https://github.com/${owner}/${name}` };
+}
+
+const CANONICALIZERS: Record<SocialPlatform, (input: string) => Canonical> = { website, x, telegram, farcaster, discord, github };
+
+export function canonicalSocialLink(platform: SocialPlatform, input: string): Canonical {
+  const value = input.trim();
+  if (!value) return { error: "is empty" };
+  return CANONICALIZERS[platform](value);
+}